@@ -0,0 +1,126 @@
+const { GoogleGenerativeAI } = require('@google/generative-ai');
+const stageCache = require('../stageCache');
+
+// Labels per embedding request
+const BATCH_SIZE = 100;
+
+function createGeminiEmbedder({ apiKey, model = 'text-embedding-004' }) {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const embeddingModel = genAI.getGenerativeModel({ model });
+
+  return {
+    name: 'gemini',
+    model,
+
+    async embed(texts) {
+      const result = await embeddingModel.batchEmbedContents({
+        requests: texts.map(text => ({ content: { role: 'user', parts: [{ text }] } }))
+      });
+      return result.embeddings.map(embedding => embedding.values);
+    }
+  };
+}
+
+// Any endpoint that implements the OpenAI embeddings API
+function createOpenAIEmbedder({ baseUrl = 'https://api.openai.com/v1', apiKey, model = 'text-embedding-3-small' }) {
+  const endpoint = `${baseUrl.replace(/\/$/, '')}/embeddings`;
+
+  return {
+    name: 'openai',
+    model,
+
+    async embed(texts) {
+      const headers = { 'Content-Type': 'application/json' };
+      if (apiKey) {
+        headers.Authorization = `Bearer ${apiKey}`;
+      }
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model, input: texts })
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`OpenAI-compatible embeddings API error: ${response.status} ${response.statusText} ${errorText}`.trim());
+      }
+
+      const data = await response.json();
+      return data.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    }
+  };
+}
+
+// Picks the embedding model used to match concepts whose labels differ, from
+// the environment. Returns null when embeddings are off, which is the default:
+//   CONCEPT_EMBEDDINGS = none (default) | gemini | openai
+function createEmbeddingProvider(env = process.env) {
+  const name = (env.CONCEPT_EMBEDDINGS || 'none').toLowerCase();
+
+  switch (name) {
+    case 'none':
+      return null;
+    case 'gemini':
+      return createGeminiEmbedder({
+        apiKey: env.GEMINI_API,
+        model: env.GEMINI_EMBEDDING_MODEL || undefined
+      });
+    case 'openai':
+      return createOpenAIEmbedder({
+        baseUrl: env.OPENAI_BASE_URL || undefined,
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_EMBEDDING_MODEL || undefined
+      });
+    default:
+      throw new Error(`Unknown CONCEPT_EMBEDDINGS "${name}" (expected none, gemini or openai)`);
+  }
+}
+
+// Embed each text once: vectors are cached by text and model, so only labels
+// that are new since the last call reach the API. Returns a Map text -> vector.
+async function embedTexts(provider, texts) {
+  const version = `${provider.name}:${provider.model}`;
+  const vectors = new Map();
+  const missing = [];
+
+  [...new Set(texts)].forEach(text => {
+    const cached = stageCache.embeddings.get(stageCache.sha256(text), version);
+    if (cached) {
+      vectors.set(text, cached);
+    } else {
+      missing.push(text);
+    }
+  });
+
+  for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+    const batch = missing.slice(i, i + BATCH_SIZE);
+    const embeddings = await provider.embed(batch);
+    batch.forEach((text, index) => {
+      vectors.set(text, embeddings[index]);
+      stageCache.embeddings.set(stageCache.sha256(text), version, embeddings[index]);
+    });
+  }
+
+  return vectors;
+}
+
+function cosineSimilarity(a, b) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+module.exports = {
+  createEmbeddingProvider,
+  embedTexts,
+  cosineSimilarity
+};
@@ -0,0 +1,216 @@
+// Concept resolution: merges the knowledge graphs of several videos into one,
+// with a single node for each concept no matter how many lectures cover it.
+//
+// Concepts are matched by normalized label (case, punctuation, articles and
+// plurals ignored), by the synonym groups in concept-synonyms.json, by an
+// acronym given in the label ("Depth-First Search (DFS)") and, when enabled,
+// by embedding similarity of the labels. Generic section headings
+// ("Introduction", "Summary", "Q&A") are never matched, so each stays with
+// its own lecture. Users can override the result for any occurrence: move it
+// into another concept, or split it out on its own.
+
+const { normalizeConceptLabel, isGenericHeading, extractAliases, loadSynonyms } = require('./normalize');
+const { createEmbeddingProvider, embedTexts, cosineSimilarity } = require('./embeddings');
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.92;
+
+// Union-find over concept keys. The smallest key of a set is its root, so
+// concept ids don't depend on the order videos are listed in.
+function createKeySets() {
+  const parents = new Map();
+
+  const find = key => {
+    if (!parents.has(key)) parents.set(key, key);
+    let root = key;
+    while (parents.get(root) !== root) root = parents.get(root);
+    parents.set(key, root);
+    return root;
+  };
+
+  const union = (a, b) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return;
+    if (rootA < rootB) {
+      parents.set(rootB, rootA);
+    } else {
+      parents.set(rootA, rootB);
+    }
+  };
+
+  return { find, union };
+}
+
+function slugify(key) {
+  return key.replace(/\s+/g, '-');
+}
+
+// Id of the concept an occurrence was split out into
+function splitConceptId(videoId, labelKey) {
+  return `concept:${slugify(labelKey)}@${videoId}`;
+}
+
+// Id of a generic section heading, which is a concept of its own
+function headingConceptId(videoId, labelKey, nodeId) {
+  return `concept:${slugify(labelKey)}@${videoId}:${nodeId}`;
+}
+
+function overrideKey(videoId, labelKey) {
+  return `${videoId}\u0000${labelKey}`;
+}
+
+function mostCommon(values) {
+  const counts = new Map();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  let best = values[0];
+  counts.forEach((count, value) => {
+    if (count > counts.get(best)) best = value;
+  });
+  return best;
+}
+
+// Join the key sets of labels whose embeddings are at least `threshold` similar
+async function unionSimilarKeys(keys, sets, embedder, threshold) {
+  const vectors = await embedTexts(embedder, keys);
+  for (let i = 0; i < keys.length; i++) {
+    for (let j = i + 1; j < keys.length; j++) {
+      if (sets.find(keys[i]) === sets.find(keys[j])) continue;
+      if (cosineSimilarity(vectors.get(keys[i]), vectors.get(keys[j])) >= threshold) {
+        sets.union(keys[i], keys[j]);
+      }
+    }
+  }
+}
+
+function toConceptNode(id, occurrences) {
+  const nodes = occurrences.map(occurrence => occurrence.node);
+  const videoIds = [...new Set(occurrences.map(occurrence => occurrence.videoId))];
+
+  return {
+    id,
+    label: mostCommon(nodes.map(node => node.label)),
+    x: Math.random() * 400 + 100,
+    y: Math.random() * 300 + 100,
+    // A concept that several lectures cover is drawn bigger
+    size: Math.min(30, Math.max(...nodes.map(node => node.size || 12)) + (videoIds.length - 1) * 2),
+    color: nodes[0].color,
+    // Timestamps only mean something within one video; see occurrences
+    timestamps: [],
+    description: nodes.find(node => node.description)?.description || '',
+    category: mostCommon(nodes.map(node => node.category)),
+    isActive: false,
+    videoIds,
+    occurrences: occurrences.map(occurrence => ({
+      videoId: occurrence.videoId,
+      videoTitle: occurrence.videoTitle,
+      nodeId: occurrence.node.id,
+      label: occurrence.node.label,
+      labelKey: occurrence.labelKey,
+      timestamps: occurrence.node.timestamps || [],
+      intervals: occurrence.node.intervals || [],
+      overridden: occurrence.overridden
+    }))
+  };
+}
+
+// Merge the graphs of `videos` ([{ id, title, nodes, edges }]). `overrides`
+// ([{ videoId, labelKey, conceptId }]) pin an occurrence to a concept id, or
+// split it out when conceptId is null. Returns { nodes, edges, embeddings },
+// where embeddings names the model used, or is null when none was.
+async function resolveConcepts(videos, {
+  overrides = [],
+  synonyms = loadSynonyms(),
+  embedder = null,
+  threshold = DEFAULT_SIMILARITY_THRESHOLD
+} = {}) {
+  const overrideMap = new Map(overrides.map(override => [overrideKey(override.videoId, override.labelKey), override.conceptId]));
+  const canonical = key => synonyms.get(key) || key;
+  const sets = createKeySets();
+
+  const occurrences = [];
+  videos.forEach(video => {
+    (video.nodes || []).forEach(node => {
+      const labelKey = normalizeConceptLabel(node.label) || node.id;
+      const key = overrideKey(video.id, labelKey);
+      const occurrence = {
+        videoId: video.id,
+        videoTitle: video.title,
+        node,
+        labelKey,
+        key: canonical(labelKey),
+        overridden: overrideMap.has(key),
+        conceptId: overrideMap.has(key) ? overrideMap.get(key) ?? splitConceptId(video.id, labelKey)
+          : isGenericHeading(labelKey) ? headingConceptId(video.id, labelKey, node.id)
+            : null
+      };
+      occurrences.push(occurrence);
+
+      if (occurrence.conceptId) return;
+      sets.find(occurrence.key);
+      extractAliases(node.label).forEach(alias => sets.union(occurrence.key, canonical(alias)));
+    });
+  });
+
+  let embeddings = null;
+  if (embedder) {
+    const keys = [...new Set(occurrences.filter(occurrence => !occurrence.conceptId).map(occurrence => occurrence.key))];
+    try {
+      await unionSimilarKeys(keys, sets, embedder, threshold);
+      embeddings = `${embedder.name}:${embedder.model}`;
+    } catch (error) {
+      // Label matching still works; don't take the combined graph down with the API
+      console.error('Error embedding concept labels, matching by label only:', error.message);
+    }
+  }
+
+  const concepts = new Map();
+  occurrences.forEach(occurrence => {
+    const id = occurrence.conceptId || `concept:${slugify(sets.find(occurrence.key))}`;
+    if (!concepts.has(id)) concepts.set(id, []);
+    concepts.get(id).push(occurrence);
+  });
+
+  const conceptOf = new Map();
+  concepts.forEach((members, id) => {
+    members.forEach(occurrence => conceptOf.set(`${occurrence.videoId}\u0000${occurrence.node.id}`, id));
+  });
+
+  const edges = new Map();
+  videos.forEach(video => {
+    (video.edges || []).forEach(edge => {
+      const source = conceptOf.get(`${video.id}\u0000${edge.source}`);
+      const target = conceptOf.get(`${video.id}\u0000${edge.target}`);
+      // Two nodes of one lecture can resolve to the same concept
+      if (!source || !target || source === target) return;
+
+      const key = `${source}->${target}`;
+      const existing = edges.get(key);
+      if (existing) {
+        // A lecture's own hierarchy outranks an edge another lecture inferred
+        if (existing.inferred && !edge.inferred) {
+          const { confidence, inferred, reason, ...rest } = existing;
+          edges.set(key, { ...rest, type: edge.type, strength: Math.max(existing.strength, edge.strength) });
+        } else {
+          existing.strength = Math.max(existing.strength, edge.strength);
+        }
+        const merged = edges.get(key);
+        if (!merged.videoIds.includes(video.id)) merged.videoIds.push(video.id);
+      } else {
+        edges.set(key, { ...edge, source, target, videoIds: [video.id] });
+      }
+    });
+  });
+
+  return {
+    nodes: [...concepts].map(([id, members]) => toConceptNode(id, members)),
+    edges: [...edges.values()],
+    embeddings
+  };
+}
+
+module.exports = {
+  resolveConcepts,
+  createEmbeddingProvider,
+  normalizeConceptLabel,
+  DEFAULT_SIMILARITY_THRESHOLD
+};
@@ -0,0 +1,84 @@
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_SYNONYMS_FILE = path.join(__dirname, '..', 'concept-synonyms.json');
+
+// Leading words that don't change which concept a label names
+const STOP_PREFIXES = ['the', 'a', 'an', 'introduction to', 'intro to', 'overview of', 'basics of'];
+
+// "algorithms" -> "algorithm", "binaries" -> "binary"; leaves "analysis",
+// "class" and short words alone
+function singularize(word) {
+  if (word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+  if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (/(ches|shes|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+}
+
+// Lowercased words without punctuation, articles or plurals:
+// "The Sorting Algorithms" -> "sorting algorithm"
+function normalizeConceptLabel(label) {
+  let text = String(label || '')
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+  const prefix = STOP_PREFIXES.find(stop => text.startsWith(stop + ' '));
+  if (prefix) text = text.slice(prefix.length + 1);
+
+  return text.split(' ').filter(Boolean).map(singularize).join(' ');
+}
+
+// Section headings every lecture has. They name a part of one lecture, not a
+// concept, so two of them are never the same concept by label alone.
+const GENERIC_HEADINGS = new Set([
+  'introduction', 'intro', 'welcome', 'overview', 'outline', 'agenda', 'background',
+  'summary', 'recap', 'review', 'conclusion', 'wrap up', 'closing remarks', 'final thoughts',
+  'key takeaways', 'takeaways', 'q&a', 'questions', 'questions & answers', 'questions and answers', 'next steps'
+].map(normalizeConceptLabel));
+
+// Whether a normalized label is one of the generic section headings
+function isGenericHeading(labelKey) {
+  return GENERIC_HEADINGS.has(labelKey);
+}
+
+// Other names a label gives for itself: "Depth-First Search (DFS)" -> ["dfs"]
+function extractAliases(label) {
+  const aliases = [];
+  for (const match of String(label || '').matchAll(/\(([^)]+)\)/g)) {
+    const alias = normalizeConceptLabel(match[1]);
+    if (alias) aliases.push(alias);
+  }
+  return aliases;
+}
+
+// Synonym groups from a JSON file: an array of arrays of labels that name the
+// same concept, e.g. [["Big O notation", "asymptotic notation"]]. Returns a
+// map from each normalized label to the first one in its group. A missing
+// file means no synonyms.
+function loadSynonyms(file = process.env.CONCEPT_SYNONYMS_FILE || DEFAULT_SYNONYMS_FILE) {
+  const synonyms = new Map();
+  if (!fs.existsSync(file)) return synonyms;
+
+  try {
+    const groups = JSON.parse(fs.readFileSync(file, 'utf8'));
+    groups.forEach(group => {
+      const keys = group.map(normalizeConceptLabel).filter(Boolean);
+      keys.forEach(key => {
+        if (!synonyms.has(key)) synonyms.set(key, keys[0]);
+      });
+    });
+  } catch (error) {
+    console.error(`Ignoring unreadable concept synonyms file ${file}:`, error.message);
+  }
+  return synonyms;
+}
+
+module.exports = {
+  normalizeConceptLabel,
+  isGenericHeading,
+  extractAliases,
+  loadSynonyms
+};
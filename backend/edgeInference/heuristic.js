@@ -0,0 +1,115 @@
+const { normalizeConceptLabel } = require('../concepts/normalize');
+
+// Most inferred edges a concept gets, strongest first, so a concept named in
+// every description doesn't wire itself to the whole graph
+const MAX_INCOMING_EDGES = 3;
+// Labels shorter than this ("Stem", "Tree") show up in too many descriptions by chance
+const MIN_MENTION_LENGTH = 5;
+
+function startOf(node) {
+  return node.intervals?.[0]?.start ?? node.timestamps?.[0] ?? Infinity;
+}
+
+function round(value) {
+  return Math.round(value * 100) / 100;
+}
+
+// Typed edges from the order and categories of the lecture's concepts:
+//   - a concept whose label or description names an earlier concept depends on it (prerequisite)
+//   - an example or application is attached to the nearest definition before it under the same topic
+//   - an introduction is a prerequisite of the topics that follow it under the same parent
+// Parent-child pairs are already connected by the tree and are skipped.
+function inferEdgesHeuristically(nodes, treeEdges) {
+  const parentOf = new Map(treeEdges.map(edge => [edge.target, edge.source]));
+  const treePairs = new Set(treeEdges.flatMap(edge => [`${edge.source}->${edge.target}`, `${edge.target}->${edge.source}`]));
+
+  const isAncestor = (ancestorId, id) => {
+    for (let current = parentOf.get(id); current; current = parentOf.get(current)) {
+      if (current === ancestorId) return true;
+    }
+    return false;
+  };
+
+  // Lecture order: by start time, ties (and untimed concepts) in hierarchy order
+  const ordered = nodes
+    .map((node, index) => ({ node, index, start: startOf(node) }))
+    .sort((a, b) => a.start - b.start || a.index - b.index)
+    .map(entry => entry.node);
+  const position = new Map(ordered.map((node, index) => [node.id, index]));
+  const siblingsBefore = node => ordered.filter(other =>
+    parentOf.get(other.id) === parentOf.get(node.id) && position.get(other.id) < position.get(node.id));
+  const siblingsAfter = node => ordered.filter(other =>
+    parentOf.get(other.id) === parentOf.get(node.id) && position.get(other.id) > position.get(node.id));
+
+  const candidates = new Map();
+  const addEdge = (source, target, type, confidence, reason) => {
+    if (source.id === target.id || treePairs.has(`${source.id}->${target.id}`)) return;
+    if (isAncestor(source.id, target.id) || isAncestor(target.id, source.id)) return;
+
+    const key = `${source.id}->${target.id}`;
+    const reverse = candidates.get(`${target.id}->${source.id}`);
+    if (reverse && reverse.confidence >= confidence) return;
+    if (reverse) candidates.delete(`${target.id}->${source.id}`);
+
+    const existing = candidates.get(key);
+    if (existing && existing.confidence >= confidence) return;
+    candidates.set(key, { source: source.id, target: target.id, type, confidence: round(confidence), reason });
+  };
+
+  // Mentions of an earlier concept
+  const texts = new Map(nodes.map(node => [
+    node.id,
+    ` ${normalizeConceptLabel(`${node.label} ${node.description || ''}`)} `
+  ]));
+  ordered.forEach((earlier, index) => {
+    const key = normalizeConceptLabel(earlier.label);
+    if (key.length < MIN_MENTION_LENGTH) return;
+
+    ordered.slice(index + 1).forEach(later => {
+      if (!texts.get(later.id).includes(` ${key} `)) return;
+      const confidence = 0.55 +
+        (earlier.category === 'definition' ? 0.15 : 0) +
+        (key.includes(' ') ? 0.1 : 0);
+      addEdge(earlier, later, 'prerequisite', confidence, `"${later.label}" refers to "${earlier.label}", covered earlier`);
+    });
+  });
+
+  // Examples and applications of the definition before them
+  nodes
+    .filter(node => node.category === 'example' || node.category === 'application')
+    .forEach(node => {
+      const definition = siblingsBefore(node)
+        .reverse()
+        .find(sibling => sibling.category === 'definition' || sibling.category === 'prerequisite');
+      if (!definition) return;
+      const reason = node.category === 'example'
+        ? `"${node.label}" illustrates "${definition.label}"`
+        : `"${node.label}" applies "${definition.label}"`;
+      addEdge(definition, node, node.category, 0.7, reason);
+    });
+
+  // Introductions lead into the topics after them
+  nodes
+    .filter(node => node.category === 'prerequisite')
+    .forEach(node => {
+      siblingsAfter(node).slice(0, MAX_INCOMING_EDGES).forEach((sibling, index) => {
+        addEdge(node, sibling, 'prerequisite', 0.5 - index * 0.05, `"${node.label}" introduces "${sibling.label}"`);
+      });
+    });
+
+  const incoming = new Map();
+  [...candidates.values()]
+    .sort((a, b) => b.confidence - a.confidence)
+    .forEach(edge => {
+      if (!incoming.has(edge.target)) incoming.set(edge.target, []);
+      const edges = incoming.get(edge.target);
+      if (edges.length < MAX_INCOMING_EDGES) edges.push(edge);
+    });
+
+  return [...incoming.values()].flat();
+}
+
+module.exports = {
+  inferEdgesHeuristically,
+  MAX_INCOMING_EDGES
+};
@@ -0,0 +1,82 @@
+// Edge inference: typed dependency edges (prerequisite, example, application)
+// between the concepts of a lecture, on top of the parent-child tree that
+// convertToGraphData builds. Inferred edges carry a confidence, used as their
+// strength, and a short reason.
+
+const stageCache = require('../stageCache');
+const { hashPrompt } = require('../structuring/providers/replay');
+const { inferEdgesHeuristically } = require('./heuristic');
+const { buildEdgeInferencePrompt, parseInferredEdges } = require('./llm');
+
+// Bump when the heuristic rules change
+const HEURISTIC_VERSION = 'heuristic-1';
+
+const MODES = ['heuristic', 'llm', 'off'];
+
+function toGraphEdge(edge) {
+  return {
+    source: edge.source,
+    target: edge.target,
+    type: edge.type,
+    strength: edge.confidence,
+    confidence: edge.confidence,
+    inferred: true,
+    reason: edge.reason
+  };
+}
+
+// `mode` comes from EDGE_INFERENCE:
+//   heuristic (default) - rules over breakdown order and categories, no API calls
+//   llm                 - ask the structuring model, falling back to the heuristic if that fails
+//   off                 - parent-child edges only
+// `provider` is the structuring provider, used in llm mode.
+function createEdgeInference({ mode = 'heuristic', provider = null } = {}) {
+  if (!MODES.includes(mode)) {
+    throw new Error(`Unknown EDGE_INFERENCE "${mode}" (expected ${MODES.join(', ')})`);
+  }
+
+  const llmVersion = provider
+    ? ['llm', provider.name, provider.model, hashPrompt(buildEdgeInferencePrompt([], [])).slice(0, 12)].join(':')
+    : null;
+
+  async function inferWithModel(nodes, treeEdges, useCache) {
+    const graphHash = stageCache.sha256(JSON.stringify({
+      nodes: nodes.map(node => [node.id, node.label, node.category, node.description]),
+      edges: treeEdges.map(edge => [edge.source, edge.target])
+    }));
+    const cached = useCache ? stageCache.edges.get(graphHash, llmVersion) : undefined;
+    if (cached) return cached;
+
+    const response = await provider.generate(buildEdgeInferencePrompt(nodes, treeEdges));
+    const edges = parseInferredEdges(response, nodes, treeEdges);
+    stageCache.edges.set(graphHash, llmVersion, edges);
+    return edges;
+  }
+
+  return {
+    mode,
+
+    // Returns { edges, method }: the inferred edges in GraphEdge form, and
+    // which method produced them (null when inference is off)
+    async infer(nodes, treeEdges, { useCache = true } = {}) {
+      if (mode === 'off' || nodes.length < 2) {
+        return { edges: [], method: mode === 'off' ? null : HEURISTIC_VERSION };
+      }
+
+      if (mode === 'llm' && provider) {
+        try {
+          const edges = await inferWithModel(nodes, treeEdges, useCache);
+          return { edges: edges.map(toGraphEdge), method: `${provider.name} (${provider.model})` };
+        } catch (error) {
+          console.error('Edge inference with the model failed, using the heuristic:', error.message);
+        }
+      }
+
+      return { edges: inferEdgesHeuristically(nodes, treeEdges).map(toGraphEdge), method: HEURISTIC_VERSION };
+    }
+  };
+}
+
+module.exports = {
+  createEdgeInference
+};
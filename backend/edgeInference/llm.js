@@ -0,0 +1,94 @@
+const { z } = require('zod');
+const { formatTimestamp } = require('../timestamps');
+const { parseStructuredResponse } = require('../structuring/parse');
+
+// Longest description sent per concept; the label and category carry most of the signal
+const MAX_DESCRIPTION_LENGTH = 200;
+
+const inferredEdgeSchema = z.object({
+  source: z.string().min(1),
+  target: z.string().min(1),
+  type: z.enum(['prerequisite', 'example', 'application']),
+  confidence: z.number().min(0).max(1),
+  reason: z.string().optional()
+});
+
+function describeNode(node) {
+  const start = node.intervals?.[0]?.start ?? node.timestamps?.[0];
+  const description = String(node.description || '').replace(/\s+/g, ' ').slice(0, MAX_DESCRIPTION_LENGTH);
+  return `${node.id} | ${node.label} | ${node.category} | ${start !== undefined ? formatTimestamp(start) : '-'} | ${description}`;
+}
+
+// Ask for typed dependency edges between the concepts of one lecture. The
+// parent-child pairs are listed so the model doesn't repeat the hierarchy.
+function buildEdgeInferencePrompt(nodes, treeEdges) {
+  const labels = new Map(nodes.map(node => [node.id, node.label]));
+  const hierarchy = treeEdges
+    .map(edge => `${edge.source} (${labels.get(edge.source)}) -> ${edge.target} (${labels.get(edge.target)})`)
+    .join('\n');
+
+  return `
+You are an expert curriculum designer. Below are the concepts of one lecture, one per line as
+id | label | category | first mentioned at | description
+
+${nodes.map(describeNode).join('\n')}
+
+They are already arranged in this topic hierarchy (parent -> child):
+
+${hierarchy || '(none)'}
+
+Find the dependencies between concepts that the hierarchy does not show:
+- "prerequisite": the source must be understood before the target makes sense
+- "example": the target is a worked example or illustration of the source
+- "application": the target applies the source to a problem or technique
+
+Only include edges you are reasonably sure of, never a parent-child pair from the hierarchy, and at most ${Math.max(4, nodes.length * 2)} edges.
+Give each a confidence between 0 and 1 and a short reason.
+
+Respond with JSON only, in this format:
+
+{
+  "edges": [
+    { "source": "node_1", "target": "node_4", "type": "prerequisite", "confidence": 0.8, "reason": "..." }
+  ]
+}
+`;
+}
+
+// Pull the valid edges out of a model response: known ids, no self-loops, no
+// hierarchy pairs, one edge per pair (the most confident). Invalid entries are
+// dropped rather than failing the whole response.
+function parseInferredEdges(text, nodes, treeEdges) {
+  const data = parseStructuredResponse(text);
+  if (!Array.isArray(data?.edges)) {
+    throw new Error('Edge inference response has no "edges" array');
+  }
+
+  const ids = new Set(nodes.map(node => node.id));
+  const treePairs = new Set(treeEdges.flatMap(edge => [`${edge.source}->${edge.target}`, `${edge.target}->${edge.source}`]));
+  const edges = new Map();
+
+  data.edges.forEach(entry => {
+    const result = inferredEdgeSchema.safeParse(entry);
+    if (!result.success) return;
+    const edge = result.data;
+    const key = `${edge.source}->${edge.target}`;
+    if (!ids.has(edge.source) || !ids.has(edge.target) || edge.source === edge.target || treePairs.has(key)) return;
+    if (edges.has(key) && edges.get(key).confidence >= edge.confidence) return;
+
+    edges.set(key, {
+      source: edge.source,
+      target: edge.target,
+      type: edge.type,
+      confidence: Math.round(edge.confidence * 100) / 100,
+      reason: edge.reason
+    });
+  });
+
+  return [...edges.values()];
+}
+
+module.exports = {
+  buildEdgeInferencePrompt,
+  parseInferredEdges
+};
@@ -0,0 +1,137 @@
+// Compares the knowledge graphs of two versions of a video.
+//
+// Node ids are handed out in traversal order (node_0, node_1, ...), so they
+// aren't stable between processing runs: inserting one topic shifts every id
+// after it. Nodes are paired by label first, then by start time, and only
+// then by id, which is what catches a topic that kept its place but was renamed.
+
+const NODE_FIELDS = ['label', 'description', 'category'];
+const EDGE_FIELDS = ['type', 'strength'];
+
+function normalizeLabel(label) {
+  return String(label || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function startTime(node) {
+  return node.intervals?.[0]?.start ?? node.timestamps?.[0] ?? null;
+}
+
+// Pair each unmatched `from` node with the first unmatched `to` node that has
+// the same key; keys of null never match
+function pairBy(fromNodes, toNodes, pairs, getKey) {
+  const available = new Map();
+  toNodes.forEach(node => {
+    const key = getKey(node);
+    if (key === null || key === '' || pairs.toIds.has(node.id)) return;
+    if (!available.has(key)) available.set(key, []);
+    available.get(key).push(node);
+  });
+
+  fromNodes.forEach(node => {
+    if (pairs.fromIds.has(node.id)) return;
+    const candidates = available.get(getKey(node));
+    const match = candidates?.shift();
+    if (!match) return;
+    pairs.list.push([node, match]);
+    pairs.fromIds.set(node.id, match.id);
+    pairs.toIds.add(match.id);
+  });
+}
+
+function fieldChanges(before, after, fields) {
+  const changes = {};
+  fields.forEach(field => {
+    if ((before[field] ?? null) !== (after[field] ?? null)) {
+      changes[field] = { from: before[field] ?? null, to: after[field] ?? null };
+    }
+  });
+  return changes;
+}
+
+function toNodeEntry(node) {
+  return { id: node.id, label: node.label, category: node.category };
+}
+
+// Diff two graphs ({ nodes, edges }). Nodes that appear in both are reported
+// under `changed` when their label, description or category differ; edges are
+// compared by the nodes they connect after pairing.
+function diffGraphs(from, to) {
+  const fromNodes = from.nodes || [];
+  const toNodes = to.nodes || [];
+  const pairs = { list: [], fromIds: new Map(), toIds: new Set() };
+
+  pairBy(fromNodes, toNodes, pairs, node => normalizeLabel(node.label));
+  pairBy(fromNodes, toNodes, pairs, startTime);
+  pairBy(fromNodes, toNodes, pairs, node => node.id);
+
+  // Listed in the order of the newer graph
+  const order = new Map(toNodes.map((node, index) => [node.id, index]));
+  const changed = pairs.list
+    .sort((a, b) => order.get(a[1].id) - order.get(b[1].id))
+    .map(([before, after]) => ({
+      fromId: before.id,
+      toId: after.id,
+      label: after.label,
+      changes: fieldChanges(before, after, NODE_FIELDS)
+    }))
+    .filter(entry => Object.keys(entry.changes).length > 0);
+
+  const nodes = {
+    added: toNodes.filter(node => !pairs.toIds.has(node.id)).map(toNodeEntry),
+    removed: fromNodes.filter(node => !pairs.fromIds.has(node.id)).map(toNodeEntry),
+    changed
+  };
+
+  // Edges are keyed by `to` node ids; endpoints that only exist in `from` keep their own id
+  const fromLabels = new Map(fromNodes.map(node => [node.id, node.label]));
+  const toLabels = new Map(toNodes.map(node => [node.id, node.label]));
+  const toEdgeEntry = (edge, labels) => ({
+    source: edge.source,
+    target: edge.target,
+    sourceLabel: labels.get(edge.source) ?? null,
+    targetLabel: labels.get(edge.target) ?? null,
+    type: edge.type,
+    strength: edge.strength
+  });
+  const fromKey = id => pairs.fromIds.get(id) || `from:${id}`;
+
+  const beforeEdges = new Map();
+  (from.edges || []).forEach(edge => {
+    beforeEdges.set(`${fromKey(edge.source)}->${fromKey(edge.target)}`, edge);
+  });
+
+  const edges = { added: [], removed: [], changed: [] };
+  (to.edges || []).forEach(edge => {
+    const key = `${edge.source}->${edge.target}`;
+    const before = beforeEdges.get(key);
+    if (!before) {
+      edges.added.push(toEdgeEntry(edge, toLabels));
+      return;
+    }
+    beforeEdges.delete(key);
+    const changes = fieldChanges(before, edge, EDGE_FIELDS);
+    if (Object.keys(changes).length > 0) {
+      edges.changed.push({ ...toEdgeEntry(edge, toLabels), changes });
+    }
+  });
+  // Whatever is left had no counterpart; reported with the old graph's ids and labels
+  beforeEdges.forEach(edge => edges.removed.push(toEdgeEntry(edge, fromLabels)));
+
+  return {
+    summary: {
+      nodesAdded: nodes.added.length,
+      nodesRemoved: nodes.removed.length,
+      nodesRenamed: changed.filter(entry => entry.changes.label).length,
+      nodesChanged: changed.length,
+      edgesAdded: edges.added.length,
+      edgesRemoved: edges.removed.length,
+      edgesChanged: edges.changed.length
+    },
+    nodes,
+    edges
+  };
+}
+
+module.exports = {
+  diffGraphs
+};
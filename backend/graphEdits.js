@@ -0,0 +1,251 @@
+// Manual graph edits: corrections made in the graph's edit mode, stored as a
+// log of small operations per video rather than as a finished graph. Saving
+// applies them to the current graph as a new version; re-structuring or
+// re-transcribing replays the whole log onto the regenerated graph, so the
+// corrections aren't lost when the AI output is redone.
+//
+// Nodes are referred to by { id, label }. Regenerated graphs number their
+// nodes afresh, so an id only counts while it still carries the same
+// (normalized) label; otherwise the label alone decides.
+//
+// Keep in sync with src/lib/graphEdits.ts, which previews edits in the browser;
+// `npm run check:shared` in the project root fails when the two disagree.
+
+const crypto = require('crypto');
+const { z } = require('zod');
+const { normalizeConceptLabel } = require('./concepts/normalize');
+
+const EDGE_TYPES = ['prerequisite', 'related', 'example', 'application'];
+const CATEGORIES = ['definition', 'example', 'application', 'prerequisite'];
+
+const labelSchema = z.string().trim().min(1).max(200);
+const timestampsSchema = z.array(z.number().nonnegative()).max(500);
+const nodeRefSchema = z.object({ id: z.string().min(1), label: z.string() });
+const edgeRefSchema = { source: nodeRefSchema, target: nodeRefSchema };
+// Links drawn by hand get the default strength; imported ones keep the file's
+const strengthSchema = z.number().min(0).max(1).optional();
+
+const graphEditSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('addNode'),
+    node: z.object({
+      id: z.string().min(1).optional(),
+      label: labelSchema,
+      category: z.enum(CATEGORIES).default('definition'),
+      description: z.string().max(2000).default(''),
+      timestamps: timestampsSchema.default([])
+    })
+  }),
+  z.object({
+    op: z.literal('updateNode'),
+    node: nodeRefSchema,
+    changes: z.object({
+      label: labelSchema.optional(),
+      category: z.enum(CATEGORIES).optional(),
+      description: z.string().max(2000).optional(),
+      timestamps: timestampsSchema.optional()
+    })
+  }),
+  z.object({ op: z.literal('deleteNode'), node: nodeRefSchema }),
+  // Folds `source` into `target`
+  z.object({ op: z.literal('mergeNodes'), source: nodeRefSchema, target: nodeRefSchema }),
+  z.object({ op: z.literal('addEdge'), ...edgeRefSchema, type: z.enum(EDGE_TYPES), strength: strengthSchema }),
+  z.object({ op: z.literal('updateEdge'), ...edgeRefSchema, type: z.enum(EDGE_TYPES), strength: strengthSchema }),
+  z.object({ op: z.literal('deleteEdge'), ...edgeRefSchema })
+]);
+
+const MAX_EDITS = 500;
+
+function formatPath(path) {
+  return path.reduce((result, key) => (
+    typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${key}` : key
+  ), 'edits');
+}
+
+// { edits } with defaults filled in, or { problems } listing what's wrong.
+// Edits sent at once are capped at `maxEdits`.
+function parseGraphEdits(edits, { maxEdits = MAX_EDITS } = {}) {
+  const result = z.array(graphEditSchema).min(1).max(maxEdits).safeParse(edits);
+  if (result.success) return { edits: result.data };
+  return { problems: result.error.issues.map(issue => `${formatPath(issue.path)}: ${issue.message}`) };
+}
+
+// Ids for nodes added by hand, kept in the log so replays reuse them
+function createEditNodeId() {
+  return `edit_${crypto.randomUUID().slice(0, 8)}`;
+}
+
+// A stand-in for an id that's already taken: `${id}_2`, `${id}_3`, ... whichever
+// is free first, so replaying the log onto the same graph gives the same ids
+function freeNodeId(nodes, id) {
+  let suffix = 2;
+  while (nodes.some(node => node.id === `${id}_${suffix}`)) suffix++;
+  return `${id}_${suffix}`;
+}
+
+function resolveNode(nodes, ref) {
+  const key = normalizeConceptLabel(ref.label);
+  const byId = nodes.find(node => node.id === ref.id);
+  if (byId && (!key || normalizeConceptLabel(byId.label) === key)) return byId;
+  if (!key) return null;
+  return nodes.find(node => normalizeConceptLabel(node.label) === key) || null;
+}
+
+function uniqueSorted(times) {
+  return [...new Set(times)].sort((a, b) => a - b);
+}
+
+// Spans that still start at one of the timestamps, plus zero-length spans
+// for timestamps attached by hand
+function intervalsFor(node, timestamps) {
+  const kept = (node.intervals || []).filter(interval => timestamps.includes(interval.start));
+  const covered = new Set(kept.map(interval => interval.start));
+  return [
+    ...kept,
+    ...timestamps.filter(time => !covered.has(time)).map(time => ({ start: time, end: time }))
+  ].sort((a, b) => a.start - b.start);
+}
+
+// A hand-set type replaces whatever inference said about the edge
+function withoutInference({ inferred, confidence, reason, ...edge }) {
+  return edge;
+}
+
+// Drop self-loops and repeated source -> target pairs, keeping the first
+function dedupeEdges(edges) {
+  const seen = new Set();
+  return edges.filter(edge => {
+    const key = `${edge.source}->${edge.target}`;
+    if (edge.source === edge.target || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function applyEdit(graph, edit) {
+  let { nodes, edges } = graph;
+  const find = ref => resolveNode(nodes, ref);
+  const missing = ref => `Concept "${ref.label}" not found`;
+  const findEdge = (source, target) => edges.find(edge => edge.source === source.id && edge.target === target.id);
+
+  switch (edit.op) {
+    case 'addNode': {
+      const { node } = edit;
+      if (resolveNode(nodes, { id: node.id || '', label: node.label })) {
+        return { error: `"${node.label}" is already in the graph` };
+      }
+      const timestamps = uniqueSorted(node.timestamps);
+      const id = node.id || 'edit';
+      nodes = [...nodes, {
+        id: nodes.some(existing => existing.id === id) ? freeNodeId(nodes, id) : id,
+        label: node.label,
+        x: Math.random() * 400 + 100,
+        y: Math.random() * 300 + 100,
+        size: 14,
+        color: `hsl(${(nodes.length * 30) % 360}, 70%, 60%)`,
+        timestamps,
+        intervals: intervalsFor({}, timestamps),
+        description: node.description,
+        category: node.category,
+        isActive: false
+      }];
+      return { graph: { nodes, edges } };
+    }
+
+    case 'updateNode': {
+      const target = find(edit.node);
+      if (!target) return { error: missing(edit.node) };
+      const { timestamps, ...changes } = edit.changes;
+      const updated = { ...target, ...changes };
+      if (timestamps) {
+        updated.timestamps = uniqueSorted(timestamps);
+        updated.intervals = intervalsFor(target, updated.timestamps);
+      }
+      nodes = nodes.map(node => node === target ? updated : node);
+      return { graph: { nodes, edges } };
+    }
+
+    case 'deleteNode': {
+      const target = find(edit.node);
+      if (!target) return { error: missing(edit.node) };
+      nodes = nodes.filter(node => node !== target);
+      edges = edges.filter(edge => edge.source !== target.id && edge.target !== target.id);
+      return { graph: { nodes, edges } };
+    }
+
+    case 'mergeNodes': {
+      const source = find(edit.source);
+      const target = find(edit.target);
+      if (!source) return { error: missing(edit.source) };
+      if (!target) return { error: missing(edit.target) };
+      if (source === target) return { error: `"${source.label}" can't be merged into itself` };
+
+      const intervals = [...(target.intervals || []), ...(source.intervals || [])].filter((interval, index, all) =>
+        all.findIndex(other => other.start === interval.start && other.end === interval.end) === index
+      );
+      const merged = {
+        ...target,
+        timestamps: uniqueSorted([...target.timestamps, ...source.timestamps]),
+        intervals: intervals.sort((a, b) => a.start - b.start),
+        description: target.description || source.description
+      };
+      nodes = nodes.filter(node => node !== source).map(node => node === target ? merged : node);
+      const rewire = id => id === source.id ? target.id : id;
+      edges = dedupeEdges(edges.map(edge => ({ ...edge, source: rewire(edge.source), target: rewire(edge.target) })));
+      return { graph: { nodes, edges } };
+    }
+
+    case 'addEdge': {
+      const source = find(edit.source);
+      const target = find(edit.target);
+      if (!source) return { error: missing(edit.source) };
+      if (!target) return { error: missing(edit.target) };
+      if (source === target) return { error: `"${source.label}" can't link to itself` };
+      if (findEdge(source, target)) return { error: `"${source.label}" is already linked to "${target.label}"` };
+      edges = [...edges, { source: source.id, target: target.id, type: edit.type, strength: edit.strength ?? 0.7 }];
+      return { graph: { nodes, edges } };
+    }
+
+    case 'updateEdge':
+    case 'deleteEdge': {
+      const source = find(edit.source);
+      const target = find(edit.target);
+      const existing = source && target && findEdge(source, target);
+      if (!existing) return { error: `No link from "${edit.source.label}" to "${edit.target.label}"` };
+      edges = edit.op === 'deleteEdge'
+        ? edges.filter(edge => edge !== existing)
+        : edges.map(edge => edge === existing
+          ? { ...withoutInference(edge), type: edit.type, strength: edit.strength ?? edge.strength }
+          : edge);
+      return { graph: { nodes, edges } };
+    }
+
+    default:
+      return { error: `Unknown edit "${edit.op}"` };
+  }
+}
+
+// Apply edits in order. One that no longer fits the graph (its concept was
+// renamed away by a re-run, say) is skipped and reported, not fatal.
+// Returns { nodes, edges, skipped: [{ index, op, reason }] }.
+function applyGraphEdits(graph, edits) {
+  let current = { nodes: graph.nodes, edges: graph.edges };
+  const skipped = [];
+
+  edits.forEach((edit, index) => {
+    const result = applyEdit(current, edit);
+    if (result.error) {
+      skipped.push({ index, op: edit.op, reason: result.error });
+    } else {
+      current = result.graph;
+    }
+  });
+
+  return { ...current, skipped };
+}
+
+module.exports = {
+  parseGraphEdits,
+  createEditNodeId,
+  applyGraphEdits
+};
@@ -0,0 +1,404 @@
+// Graph export: a lecture's knowledge graph (or the combined concept graph)
+// written out in formats other tools read. GraphML and GEXF open in Gephi,
+// yEd and Cytoscape; DOT renders with Graphviz; Mermaid embeds in Markdown
+// notes; JSON-LD is for linked-data tooling.
+//
+// Every format carries each node's category and timestamps and each edge's
+// type, plus the confidence and reason of inferred edges.
+
+const { formatTimestamp } = require('./timestamps');
+
+// Same colors as the --concept-* theme variables
+const CATEGORY_COLORS = {
+  definition: { hex: '#3684e2', r: 54, g: 132, b: 226 },
+  example: { hex: '#f97415', r: 249, g: 116, b: 21 },
+  application: { hex: '#16a249', r: 22, g: 162, b: 73 },
+  prerequisite: { hex: '#9234ea', r: 146, g: 52, b: 234 }
+};
+const DEFAULT_COLOR = { hex: '#3f4c5a', r: 63, g: 76, b: 90 };
+
+const VOCAB = 'urn:edugraph:vocab#';
+
+// Strength given to edges that carry none, so every format writes a number
+const DEFAULT_STRENGTH = 0.5;
+
+function colorOf(node) {
+  return CATEGORY_COLORS[node.category] || DEFAULT_COLOR;
+}
+
+function escapeXml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function timestampsOf(node) {
+  return node.timestamps || [];
+}
+
+function intervalsOf(node) {
+  return node.intervals || [];
+}
+
+// Edge fields that only inferred edges have
+function inferredFields(edge) {
+  return edge.inferred
+    ? { inferred: true, confidence: edge.confidence ?? edge.strength, reason: edge.reason || '' }
+    : { inferred: false };
+}
+
+function toGraphML({ title, nodes, edges }) {
+  const keys = [
+    ['label', 'node', 'string'],
+    ['description', 'node', 'string'],
+    ['category', 'node', 'string'],
+    ['timestamps', 'node', 'string'],
+    ['start', 'node', 'double'],
+    ['size', 'node', 'double'],
+    ['color', 'node', 'string'],
+    ['videoIds', 'node', 'string'],
+    ['type', 'edge', 'string'],
+    ['strength', 'edge', 'double'],
+    ['inferred', 'edge', 'boolean'],
+    ['confidence', 'edge', 'double'],
+    ['reason', 'edge', 'string']
+  ];
+  const data = (key, value) => `      <data key="${key}">${escapeXml(value)}</data>`;
+
+  const nodeElements = nodes.map(node => {
+    const lines = [
+      data('label', node.label),
+      data('description', node.description || ''),
+      data('category', node.category || ''),
+      data('timestamps', timestampsOf(node).join(',')),
+      timestampsOf(node).length > 0 && data('start', timestampsOf(node)[0]),
+      data('size', node.size || 12),
+      data('color', colorOf(node).hex),
+      node.videoIds && data('videoIds', node.videoIds.join(','))
+    ].filter(Boolean);
+    return `    <node id="${escapeXml(node.id)}">\n${lines.join('\n')}\n    </node>`;
+  });
+
+  const edgeElements = edges.map((edge, index) => {
+    const extra = inferredFields(edge);
+    const lines = [
+      data('type', edge.type),
+      data('strength', edge.strength),
+      data('inferred', extra.inferred),
+      extra.inferred && data('confidence', extra.confidence),
+      extra.inferred && data('reason', extra.reason)
+    ].filter(Boolean);
+    return `    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">\n${lines.join('\n')}\n    </edge>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+    '         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '         xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...keys.map(([id, target, type]) =>
+      `  <key id="${id}" for="${target}" attr.name="${id}" attr.type="${type}"/>`),
+    `  <graph id="${escapeXml(title)}" edgedefault="directed">`,
+    ...nodeElements,
+    ...edgeElements,
+    '  </graph>',
+    '</graphml>',
+    ''
+  ].join('\n');
+}
+
+// GEXF 1.3. Nodes carry their time spans as spells, so Gephi's timeline can
+// replay the lecture; nodes without timestamps are present throughout.
+function toGEXF({ title, nodes, edges }) {
+  const nodeAttributes = ['category', 'description', 'timestamps', 'videoIds'];
+  const edgeAttributes = [['type', 'string'], ['inferred', 'boolean'], ['confidence', 'double'], ['reason', 'string']];
+  const attvalues = values => {
+    const entries = Object.entries(values).filter(([, value]) => value !== undefined);
+    if (entries.length === 0) return [];
+    return [
+      '        <attvalues>',
+      ...entries.map(([key, value]) => `          <attvalue for="${key}" value="${escapeXml(value)}"/>`),
+      '        </attvalues>'
+    ];
+  };
+
+  const nodeElements = nodes.map(node => {
+    const color = colorOf(node);
+    const spells = intervalsOf(node);
+    return [
+      `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}">`,
+      ...attvalues({
+        category: node.category || '',
+        description: node.description || '',
+        timestamps: timestampsOf(node).join(','),
+        videoIds: node.videoIds ? node.videoIds.join(',') : undefined
+      }),
+      ...(spells.length > 0 ? [
+        '        <spells>',
+        ...spells.map(interval => `          <spell start="${interval.start}" end="${interval.end}"/>`),
+        '        </spells>'
+      ] : []),
+      `        <viz:color r="${color.r}" g="${color.g}" b="${color.b}"/>`,
+      `        <viz:size value="${node.size || 12}"/>`,
+      '      </node>'
+    ].join('\n');
+  });
+
+  const edgeElements = edges.map((edge, index) => {
+    const extra = inferredFields(edge);
+    return [
+      `      <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" weight="${edge.strength}" label="${escapeXml(edge.type)}">`,
+      ...attvalues({
+        type: edge.type,
+        inferred: extra.inferred,
+        confidence: extra.confidence,
+        reason: extra.reason
+      }),
+      '      </edge>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    '    <creator>EduGraph</creator>',
+    `    <description>${escapeXml(title)}</description>`,
+    '  </meta>',
+    '  <graph defaultedgetype="directed" mode="dynamic" timeformat="double">',
+    '    <attributes class="node">',
+    ...nodeAttributes.map(id => `      <attribute id="${id}" title="${id}" type="string"/>`),
+    '    </attributes>',
+    '    <attributes class="edge">',
+    ...edgeAttributes.map(([id, type]) => `      <attribute id="${id}" title="${id}" type="${type}"/>`),
+    '    </attributes>',
+    '    <nodes>',
+    ...nodeElements,
+    '    </nodes>',
+    '    <edges>',
+    ...edgeElements,
+    '    </edges>',
+    '  </graph>',
+    '</gexf>',
+    ''
+  ].join('\n');
+}
+
+function quoteDot(value) {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
+
+function dotAttributes(attributes) {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'number' ? value : quoteDot(value)}`)
+    .join(', ');
+}
+
+// Graphviz DOT. Hierarchy edges are solid; inferred edges are dashed and
+// labelled with their type.
+function toDOT({ title, nodes, edges }) {
+  const nodeLines = nodes.map(node => `  ${quoteDot(node.id)} [${dotAttributes({
+    label: node.label,
+    tooltip: node.description || undefined,
+    fillcolor: colorOf(node).hex,
+    category: node.category || '',
+    timestamps: timestampsOf(node).join(',')
+  })}];`);
+
+  const edgeLines = edges.map(edge => {
+    const extra = inferredFields(edge);
+    return `  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)} [${dotAttributes({
+      type: edge.type,
+      strength: edge.strength,
+      // dot only takes whole-number weights
+      weight: Math.max(1, Math.round(edge.strength * 10)),
+      style: extra.inferred ? 'dashed' : undefined,
+      label: extra.inferred ? edge.type : undefined,
+      confidence: extra.confidence,
+      tooltip: extra.inferred && extra.reason ? extra.reason : undefined
+    })}];`;
+  });
+
+  return [
+    `digraph ${quoteDot(title)} {`,
+    `  graph [label=${quoteDot(title)}, rankdir=LR];`,
+    '  node [shape=box, style="rounded,filled", fontcolor="white"];',
+    ...nodeLines,
+    ...edgeLines,
+    '}',
+    ''
+  ].join('\n');
+}
+
+// Mermaid ids are letters, digits and underscores
+function mermaidId(id) {
+  return String(id).replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+function mermaidLabel(text) {
+  return String(text).replace(/"/g, '#quot;').replace(/\r?\n/g, ' ');
+}
+
+// Mermaid flowchart. Categories become classes; timestamps go in a comment
+// per node, since labels are what readers of the diagram see.
+function toMermaid({ title, nodes, edges }) {
+  const ids = new Map();
+  const used = new Set();
+  nodes.forEach(node => {
+    // "concept:a-b" and "concept:a_b" would otherwise collide
+    let id = mermaidId(node.id);
+    for (let suffix = 2; used.has(id); suffix++) id = `${mermaidId(node.id)}_${suffix}`;
+    used.add(id);
+    ids.set(node.id, id);
+  });
+  const byCategory = new Map();
+  nodes.forEach(node => {
+    const category = node.category || 'definition';
+    if (!byCategory.has(category)) byCategory.set(category, []);
+    byCategory.get(category).push(ids.get(node.id));
+  });
+
+  const nodeLines = nodes.flatMap(node => {
+    const timestamps = timestampsOf(node);
+    return [
+      `  %% ${node.category || 'definition'}${timestamps.length > 0 ? ` @ ${timestamps.map(formatTimestamp).join(', ')}` : ''}`,
+      `  ${ids.get(node.id)}["${mermaidLabel(node.label)}"]`
+    ];
+  });
+
+  const edgeLines = edges
+    .filter(edge => ids.has(edge.source) && ids.has(edge.target))
+    .map(edge => edge.inferred
+      ? `  ${ids.get(edge.source)} -. ${edge.type} .-> ${ids.get(edge.target)}`
+      : `  ${ids.get(edge.source)} --> ${ids.get(edge.target)}`);
+
+  const classLines = [...byCategory].flatMap(([category, members]) => {
+    const color = CATEGORY_COLORS[category] || DEFAULT_COLOR;
+    return [
+      `  classDef ${mermaidId(category)} fill:${color.hex},stroke:${color.hex},color:#fff`,
+      `  class ${members.join(',')} ${mermaidId(category)}`
+    ];
+  });
+
+  return [
+    '---',
+    `title: "${mermaidLabel(title)}"`,
+    '---',
+    'flowchart TD',
+    ...nodeLines,
+    ...edgeLines,
+    ...classLines,
+    ''
+  ].join('\n');
+}
+
+// JSON-LD. Concepts are SKOS concepts; hierarchy edges become skos:narrower,
+// and every edge is also listed as a relation with its type and confidence.
+function toJSONLD({ id, title, nodes, edges }) {
+  const base = `urn:edugraph:graph:${encodeURIComponent(id)}`;
+  const nodeIri = nodeId => `${base}#${encodeURIComponent(nodeId)}`;
+  const narrower = new Map();
+  edges.filter(edge => !edge.inferred && edge.type === 'related').forEach(edge => {
+    if (!narrower.has(edge.source)) narrower.set(edge.source, []);
+    narrower.get(edge.source).push({ '@id': nodeIri(edge.target) });
+  });
+
+  const document = {
+    '@context': {
+      '@vocab': VOCAB,
+      skos: 'http://www.w3.org/2004/02/skos/core#',
+      schema: 'https://schema.org/',
+      xsd: 'http://www.w3.org/2001/XMLSchema#',
+      name: 'schema:name',
+      Concept: 'skos:Concept',
+      label: 'skos:prefLabel',
+      description: 'skos:definition',
+      narrower: { '@id': 'skos:narrower', '@type': '@id' },
+      source: { '@type': '@id' },
+      target: { '@type': '@id' },
+      timestamps: { '@container': '@list', '@type': 'xsd:decimal' },
+      strength: { '@type': 'xsd:decimal' },
+      confidence: { '@type': 'xsd:decimal' }
+    },
+    '@id': base,
+    '@type': 'KnowledgeGraph',
+    name: title,
+    concepts: nodes.map(node => ({
+      '@id': nodeIri(node.id),
+      '@type': 'Concept',
+      identifier: node.id,
+      label: node.label,
+      description: node.description || undefined,
+      category: node.category,
+      timestamps: timestampsOf(node),
+      intervals: intervalsOf(node).length > 0
+        ? intervalsOf(node).map(interval => ({ start: interval.start, end: interval.end }))
+        : undefined,
+      videoIds: node.videoIds,
+      narrower: narrower.get(node.id)
+    })),
+    relations: edges.map(edge => {
+      const extra = inferredFields(edge);
+      return {
+        '@type': 'Relation',
+        source: nodeIri(edge.source),
+        target: nodeIri(edge.target),
+        relationType: edge.type,
+        strength: edge.strength,
+        inferred: extra.inferred,
+        confidence: extra.confidence,
+        reason: extra.reason || undefined
+      };
+    })
+  };
+
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+const GRAPH_EXPORT_FORMATS = {
+  graphml: { extension: 'graphml', contentType: 'application/graphml+xml', serialize: toGraphML },
+  gexf: { extension: 'gexf', contentType: 'application/gexf+xml', serialize: toGEXF },
+  dot: { extension: 'dot', contentType: 'text/vnd.graphviz', serialize: toDOT },
+  mermaid: { extension: 'mmd', contentType: 'text/vnd.mermaid', serialize: toMermaid },
+  jsonld: { extension: 'jsonld', contentType: 'application/ld+json', serialize: toJSONLD }
+};
+
+// A file name from the graph title: "Intro to Algorithms" -> "intro-to-algorithms.graphml"
+function exportFileName(title, format) {
+  const slug = String(title || 'graph')
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, '-')
+    .slice(0, 80) || 'graph';
+  return `${slug}.${GRAPH_EXPORT_FORMATS[format].extension}`;
+}
+
+// Serialize `graph` ({ id, title, nodes, edges }) as `format`, one of the
+// GRAPH_EXPORT_FORMATS keys. Returns { body, contentType, fileName }.
+function exportGraph(graph, format) {
+  const exporter = GRAPH_EXPORT_FORMATS[format];
+  if (!exporter) {
+    throw new Error(`Unknown graph format "${format}" (expected ${Object.keys(GRAPH_EXPORT_FORMATS).join(', ')})`);
+  }
+  const nodeIds = new Set(graph.nodes.map(node => node.id));
+  const edges = graph.edges
+    .filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+    .map(edge => ({ ...edge, strength: edge.strength ?? DEFAULT_STRENGTH }));
+
+  return {
+    body: exporter.serialize({ ...graph, edges }),
+    contentType: exporter.contentType,
+    fileName: exportFileName(graph.title, format)
+  };
+}
+
+module.exports = {
+  GRAPH_EXPORT_FORMATS,
+  exportGraph
+};
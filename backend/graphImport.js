@@ -0,0 +1,611 @@
+// Graph import: concept maps from other tools (GraphML, CSV edge lists and
+// Mermaid flowcharts) turned into GraphNode/GraphEdge lists. An imported map
+// either becomes a library entry of its own (a "curriculum" graph) or is
+// merged into a lecture's graph by matching concept labels; planMerge lists
+// the conflicts so they can be reviewed before the merge is saved.
+
+const { normalizeConceptLabel, extractAliases } = require('./concepts/normalize');
+const { formatTimestamp } = require('./timestamps');
+
+const EDGE_TYPES = ['prerequisite', 'related', 'example', 'application'];
+const CATEGORIES = ['definition', 'example', 'application', 'prerequisite'];
+const GRAPH_IMPORT_FORMATS = ['graphml', 'csv', 'mermaid'];
+
+class GraphImportError extends Error {}
+
+// Format from the file extension, or failing that from the content
+function detectFormat(content, fileName = '') {
+  const extension = (fileName.match(/\.([^.]+)$/)?.[1] || '').toLowerCase();
+  if (['graphml', 'xml'].includes(extension)) return 'graphml';
+  if (['csv', 'tsv'].includes(extension)) return 'csv';
+  if (['mmd', 'mermaid'].includes(extension)) return 'mermaid';
+
+  const text = content.trimStart();
+  if (text.startsWith('<') && /<graphml[\s>]/.test(text)) return 'graphml';
+  if (/^(?:---[\s\S]*?---\s*)?(?:flowchart|graph)\b/.test(text) || /^\s*(?:flowchart|graph)\s+(?:TB|TD|BT|RL|LR)\b/m.test(text)) {
+    return 'mermaid';
+  }
+  return 'csv';
+}
+
+function toEdgeType(value) {
+  const type = String(value || '').trim().toLowerCase();
+  return EDGE_TYPES.includes(type) ? type : 'related';
+}
+
+function toCategory(value) {
+  const category = String(value || '').trim().toLowerCase();
+  return CATEGORIES.includes(category) ? category : undefined;
+}
+
+function toStrength(value, fallback = 0.7) {
+  const strength = parseFloat(value);
+  if (!Number.isFinite(strength)) return fallback;
+  // Weights from other tools aren't always 0..1
+  return Math.min(1, Math.max(0.1, strength > 1 ? strength / 10 : strength));
+}
+
+// Collects nodes by key (the file's node id, or the label in an edge list),
+// so a concept named on several lines is one node
+function createGraphBuilder() {
+  const nodes = new Map();
+  const edges = new Map();
+  const warnings = [];
+
+  const addNode = (key, fields = {}) => {
+    if (!nodes.has(key)) {
+      nodes.set(key, { id: `imported_${nodes.size}`, label: fields.label || key });
+    }
+    const node = nodes.get(key);
+    Object.entries(fields).forEach(([field, value]) => {
+      if (value !== undefined && value !== '') node[field] = value;
+    });
+    return node;
+  };
+
+  const addEdge = (sourceKey, targetKey, fields = {}) => {
+    const source = addNode(sourceKey);
+    const target = addNode(targetKey);
+    if (source === target) {
+      warnings.push(`Skipped a link from "${source.label}" to itself`);
+      return;
+    }
+    edges.set(`${source.id}->${target.id}`, {
+      source: source.id,
+      target: target.id,
+      type: toEdgeType(fields.type),
+      strength: toStrength(fields.strength)
+    });
+  };
+
+  return {
+    addNode,
+    addEdge,
+    warnings,
+    build: () => ({ nodes: [...nodes.values()], edges: [...edges.values()], warnings })
+  };
+}
+
+function unescapeXml(text) {
+  return String(text)
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (match, code) => String.fromCodePoint(parseInt(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (match, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+function xmlAttributes(tag) {
+  const attributes = {};
+  for (const match of tag.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = unescapeXml(match[3] ?? match[4]);
+  }
+  return attributes;
+}
+
+// <data key="...">value</data> inside an element, by the key's attr.name.
+// yEd keeps labels in <y:NodeLabel> inside the data element. Entities are
+// decoded before tags are stripped, so escaped markup doesn't come out live.
+function graphMLData(body, keyNames) {
+  const data = {};
+  for (const match of body.matchAll(/<data\b([^>]*)>([\s\S]*?)<\/data>/g)) {
+    const { key } = xmlAttributes(match[1]);
+    const name = (keyNames.get(key) || key || '').toLowerCase();
+    const yedLabel = match[2].match(/<y:(?:Node|Edge)Label\b[^>]*>([\s\S]*?)<\/y:(?:Node|Edge)Label>/);
+    const value = unescapeXml(yedLabel ? yedLabel[1] : match[2]).replace(/<[^>]+>/g, '').trim();
+    if (value) data[name] = value;
+  }
+  return data;
+}
+
+function parseGraphML(content) {
+  if (!/<graphml[\s>]/.test(content)) {
+    throw new GraphImportError('Not a GraphML document (no <graphml> element)');
+  }
+  const keyNames = new Map();
+  for (const match of content.matchAll(/<key\b([^>]*?)\/?>/g)) {
+    const attributes = xmlAttributes(match[1]);
+    if (attributes.id) keyNames.set(attributes.id, attributes['attr.name'] || attributes['yfiles.type'] || attributes.id);
+  }
+
+  const builder = createGraphBuilder();
+  for (const match of content.matchAll(/<node\b([^>]*?)(?:\/>|>([\s\S]*?)<\/node>)/g)) {
+    const { id } = xmlAttributes(match[1]);
+    if (!id) continue;
+    const data = graphMLData(match[2] || '', keyNames);
+    builder.addNode(id, {
+      label: data.label || data.name || data.title || data.nodegraphics || id,
+      description: data.description,
+      category: toCategory(data.category),
+      timestamps: data.timestamps
+        ? data.timestamps.split(',').map(Number).filter(Number.isFinite)
+        : undefined
+    });
+  }
+
+  for (const match of content.matchAll(/<edge\b([^>]*?)(?:\/>|>([\s\S]*?)<\/edge>)/g)) {
+    const { source, target } = xmlAttributes(match[1]);
+    if (!source || !target) continue;
+    const data = graphMLData(match[2] || '', keyNames);
+    builder.addEdge(source, target, { type: data.type || data.relation, strength: data.strength ?? data.weight });
+  }
+
+  return builder.build();
+}
+
+// One CSV line into fields, with "quoted, fields" and "" escapes
+function splitCsvLine(line, delimiter) {
+  const fields = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+// Edge list: one "source,target[,type][,strength]" row per link, with an
+// optional header naming those columns (from/to and relation/weight also work).
+// A row with only a source adds a concept without links.
+function parseEdgeList(content) {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() && !line.trim().startsWith('#'));
+  if (lines.length === 0) {
+    throw new GraphImportError('The edge list is empty');
+  }
+  const delimiter = ['\t', ';', ','].find(candidate => lines[0].includes(candidate)) || ',';
+
+  let columns = { source: 0, target: 1, type: 2, strength: 3 };
+  const header = splitCsvLine(lines[0], delimiter).map(name => name.toLowerCase());
+  const hasHeader = header.some(name => ['source', 'from'].includes(name)) && header.some(name => ['target', 'to'].includes(name));
+  if (hasHeader) {
+    const find = (...names) => header.findIndex(name => names.includes(name));
+    columns = {
+      source: find('source', 'from'),
+      target: find('target', 'to'),
+      type: find('type', 'relation', 'relationship'),
+      strength: find('strength', 'weight')
+    };
+  }
+
+  const builder = createGraphBuilder();
+  lines.slice(hasHeader ? 1 : 0).forEach((line, index) => {
+    const fields = splitCsvLine(line, delimiter);
+    const source = fields[columns.source];
+    const target = fields[columns.target];
+    if (!source) {
+      builder.warnings.push(`Skipped row ${index + (hasHeader ? 2 : 1)}: no source concept`);
+      return;
+    }
+    if (!target) {
+      builder.addNode(source);
+      return;
+    }
+    builder.addEdge(source, target, {
+      type: columns.type >= 0 ? fields[columns.type] : undefined,
+      strength: columns.strength >= 0 ? fields[columns.strength] : undefined
+    });
+  });
+  return builder.build();
+}
+
+// id["label"], id(label), id((label)), id{label}, id([label]), id[[label]], ...
+const MERMAID_NODE = /([A-Za-z0-9_]+)\s*(\(\(|\(\[|\[\[|\[\(|\{\{|\[\/|\[\\|\[|\(|\{|>)\s*(?:"([^"]*)"|([^\]\)\}]*?))\s*(?:\)\)|\]\)|\]\]|\)\]|\}\}|\/\]|\\\]|\]|\)|\})((?::::[\w-]+)?)/g;
+// -->, ---, -.->, ==>, "-- text -->", "-. text .->", "== text ==>", each optionally followed by |text|
+const MERMAID_LINK = /\s*(?:--\s+(.+?)\s+-->|-\.\s+(.+?)\s+\.->|==\s+(.+?)\s+==>|-\.->|-\.-|-->|---|==>|===)(?:\|([^|]*)\|)?\s*/g;
+
+function unescapeMermaid(text) {
+  return String(text).replace(/#quot;/g, '"').replace(/#amp;/g, '&').replace(/<br\s*\/?>/gi, ' ').trim();
+}
+
+// Mermaid flowchart: node shapes give labels, link text that names an edge
+// type ("prerequisite", "example", ...) gives the type, and classes named
+// after a category ("class a,b example", "a:::definition") give the category.
+function parseMermaid(content) {
+  const body = content.replace(/^\s*---[\s\S]*?---\s*/, '');
+  const lines = body.split(/\r?\n/).map(line => line.replace(/%%.*$/, '').trim()).filter(Boolean);
+  if (!lines.length || !/^(?:flowchart|graph)\b/.test(lines[0])) {
+    throw new GraphImportError('Not a Mermaid flowchart (expected "flowchart" or "graph" on the first line)');
+  }
+
+  const builder = createGraphBuilder();
+  const applyClass = (id, className) => {
+    const category = toCategory(className);
+    if (category) builder.addNode(id, { category });
+  };
+
+  lines.slice(1).flatMap(line => line.split(';')).map(line => line.trim()).filter(Boolean).forEach(statement => {
+    if (/^(?:subgraph|end$|style|classDef|linkStyle|click|direction)\b/.test(statement)) return;
+
+    const classMatch = statement.match(/^class\s+([\w,\s]+?)\s+([\w-]+)$/);
+    if (classMatch) {
+      classMatch[1].split(',').map(id => id.trim()).filter(Boolean).forEach(id => applyClass(id, classMatch[2]));
+      return;
+    }
+
+    // Define shaped nodes, then treat the statement as bare ids and links
+    const bare = statement.replace(MERMAID_NODE, (match, id, open, quoted, plain, className) => {
+      builder.addNode(id, { label: unescapeMermaid(quoted ?? plain) || id });
+      if (className) applyClass(id, className.slice(3));
+      return id;
+    });
+
+    const groups = [];
+    const linkTexts = [];
+    let last = 0;
+    for (const match of bare.matchAll(MERMAID_LINK)) {
+      groups.push(bare.slice(last, match.index));
+      linkTexts.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+      last = match.index + match[0].length;
+    }
+    groups.push(bare.slice(last));
+
+    const ids = groups.map(group => group.split('&').map(part => {
+      const [id, className] = part.trim().split(':::');
+      if (id && className) applyClass(id, className);
+      return id;
+    }).filter(id => /^[A-Za-z0-9_]+$/.test(id || '')));
+
+    if (ids.length === 1) {
+      ids[0].forEach(id => builder.addNode(id));
+      return;
+    }
+    for (let i = 0; i < linkTexts.length; i++) {
+      ids[i].forEach(source => ids[i + 1]?.forEach(target => {
+        builder.addEdge(source, target, { type: linkTexts[i] });
+      }));
+    }
+  });
+
+  return builder.build();
+}
+
+// Hierarchy depth from the links (roots have no incoming edge), for sizing
+// imported nodes the way convertToGraphData sizes lecture nodes
+function depthsOf(nodes, edges) {
+  const incoming = new Set(edges.map(edge => edge.target));
+  const children = new Map();
+  edges.forEach(edge => {
+    if (!children.has(edge.source)) children.set(edge.source, []);
+    children.get(edge.source).push(edge.target);
+  });
+
+  const depths = new Map();
+  const queue = nodes.filter(node => !incoming.has(node.id)).map(node => [node.id, 0]);
+  while (queue.length > 0) {
+    const [id, depth] = queue.shift();
+    if (depths.has(id)) continue;
+    depths.set(id, depth);
+    (children.get(id) || []).forEach(child => queue.push([child, depth + 1]));
+  }
+  return depths;
+}
+
+function toGraphNode(node, depth, index) {
+  return {
+    id: node.id,
+    label: node.label,
+    x: Math.random() * 400 + 100,
+    y: Math.random() * 300 + 100,
+    size: Math.max(12, 20 - depth * 3),
+    color: `hsl(${depth * 60 + index * 30}, 70%, 60%)`,
+    timestamps: node.timestamps || [],
+    intervals: [],
+    description: node.description || 'No description available',
+    category: node.category || 'definition',
+    isActive: false
+  };
+}
+
+// Parse `content` as `format` (detected when omitted). Returns
+// { format, nodes, edges, warnings }; nodes have an id and label, and a
+// description, category and timestamps when the file gives them.
+function parseGraph(content, { format, fileName } = {}) {
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new GraphImportError('The file is empty');
+  }
+  const resolved = format || detectFormat(content, fileName);
+  if (!GRAPH_IMPORT_FORMATS.includes(resolved)) {
+    throw new GraphImportError(`Unknown graph format "${resolved}" (expected ${GRAPH_IMPORT_FORMATS.join(', ')})`);
+  }
+
+  const parsed = resolved === 'graphml' ? parseGraphML(content)
+    : resolved === 'mermaid' ? parseMermaid(content)
+      : parseEdgeList(content);
+  if (parsed.nodes.length === 0) {
+    throw new GraphImportError('No concepts found in the file');
+  }
+  return { format: resolved, ...parsed };
+}
+
+// A parsed graph as a graph of its own, in GraphNode form
+function toCurriculumGraph(parsed) {
+  const depths = depthsOf(parsed.nodes, parsed.edges);
+  return {
+    nodes: parsed.nodes.map((node, index) => toGraphNode(node, depths.get(node.id) ?? 0, index)),
+    edges: parsed.edges
+  };
+}
+
+function matchKeys(label) {
+  return [normalizeConceptLabel(label), ...extractAliases(label)].filter(Boolean);
+}
+
+function startOf(node) {
+  return node.timestamps?.[0] ?? Infinity;
+}
+
+// "a definition", "an example"; nodes without a category read "uncategorized"
+function withArticle(word) {
+  if (!word) return 'uncategorized';
+  return `${/^[aeiou]/.test(word) ? 'an' : 'a'} ${word}`;
+}
+
+function hasDescription(node) {
+  return Boolean(node.description) && node.description !== 'No description available';
+}
+
+// Work out how `imported` (from parseGraph) merges into `existing` ({ nodes, edges }).
+// A file that doesn't give a category or description leaves the lecture's alone.
+// Concepts match by normalized label or acronym. Returns the merged graph
+// and what the merge does: matched and added concepts, added edges, and the
+// conflicts, each with options and the choice in effect. `resolutions` maps
+// conflict ids to chosen options; anything unresolved takes its default.
+function planMerge(existing, imported, resolutions = {}) {
+  const conflicts = [];
+  const choose = (conflict) => {
+    const choice = conflict.options.some(option => option.value === resolutions[conflict.id])
+      ? resolutions[conflict.id]
+      : conflict.default;
+    conflicts.push({ ...conflict, choice });
+    return choice;
+  };
+
+  // Copies, so resolving a conflict changes the merged graph, not `existing`
+  const nodes = existing.nodes.map(node => ({ ...node }));
+  const byKey = new Map();
+  nodes.forEach(node => {
+    matchKeys(node.label).forEach(key => {
+      if (!byKey.has(key)) byKey.set(key, []);
+      if (!byKey.get(key).includes(node)) byKey.get(key).push(node);
+    });
+  });
+
+  const depths = depthsOf(imported.nodes, imported.edges);
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  let nextId = Math.max(-1, ...existing.nodes.map(node => parseInt(node.id.match(/^node_(\d+)$/)?.[1] ?? '-1'))) + 1;
+  const idFor = new Map();
+  const matched = [];
+  const added = [];
+
+  imported.nodes.forEach((node, index) => {
+    const candidates = [...new Set(matchKeys(node.label).flatMap(key => byKey.get(key) || []))]
+      .sort((a, b) => startOf(a) - startOf(b));
+
+    let target = candidates[0] || null;
+    if (candidates.length > 1) {
+      const choice = choose({
+        id: `match:${node.id}`,
+        kind: 'match',
+        message: `"${node.label}" matches ${candidates.length} concepts in the lecture`,
+        options: [
+          ...candidates.map(candidate => ({
+            value: candidate.id,
+            label: `Merge with "${candidate.label}"${candidate.timestamps?.length ? ` at ${formatTimestamp(candidate.timestamps[0])}` : ''}`
+          })),
+          { value: 'new', label: 'Add as a new concept' }
+        ],
+        default: candidates[0].id
+      });
+      target = choice === 'new' ? null : nodesById.get(choice);
+    }
+
+    if (!target) {
+      const id = `node_${nextId++}`;
+      const addedNode = { ...toGraphNode(node, depths.get(node.id) ?? 0, index), id };
+      nodes.push(addedNode);
+      nodesById.set(id, addedNode);
+      idFor.set(node.id, id);
+      added.push({ id, label: node.label });
+      return;
+    }
+
+    idFor.set(node.id, target.id);
+    matched.push({ importedLabel: node.label, id: target.id, label: target.label });
+
+    if (node.category && node.category !== target.category) {
+      const choice = choose({
+        id: `category:${node.id}`,
+        kind: 'category',
+        message: `"${target.label}" is ${withArticle(target.category)} in the lecture and ${withArticle(node.category)} in the file`,
+        options: [
+          { value: 'existing', label: target.category ? `Keep ${target.category}` : 'Keep uncategorized' },
+          { value: 'imported', label: `Use ${node.category}` }
+        ],
+        default: 'existing'
+      });
+      if (choice === 'imported') target.category = node.category;
+    }
+
+    if (hasDescription(node) && node.description !== target.description) {
+      if (!hasDescription(target)) {
+        target.description = node.description;
+      } else {
+        const choice = choose({
+          id: `description:${node.id}`,
+          kind: 'description',
+          message: `"${target.label}" has a different description in the file`,
+          existing: target.description,
+          imported: node.description,
+          options: [
+            { value: 'existing', label: 'Keep the lecture\'s description' },
+            { value: 'imported', label: 'Use the file\'s description' }
+          ],
+          default: 'existing'
+        });
+        if (choice === 'imported') target.description = node.description;
+      }
+    }
+  });
+
+  let edges = existing.edges.map(edge => ({ ...edge }));
+  const labelOf = id => nodesById.get(id)?.label ?? id;
+  const addedEdges = [];
+  let duplicates = 0;
+
+  imported.edges.forEach(edge => {
+    const source = idFor.get(edge.source);
+    const target = idFor.get(edge.target);
+    // Both ends matched the same lecture concept
+    if (!source || !target || source === target) return;
+
+    const same = edges.find(other => other.source === source && other.target === target);
+    const reverse = edges.find(other => other.source === target && other.target === source);
+    const newEdge = { source, target, type: edge.type, strength: edge.strength };
+
+    if (same) {
+      if (same.type === edge.type || edge.type === 'related') {
+        duplicates++;
+        return;
+      }
+      const choice = choose({
+        id: `type:${edge.source}->${edge.target}`,
+        kind: 'edge-type',
+        message: `"${labelOf(source)}" → "${labelOf(target)}" is ${same.type} in the lecture and ${edge.type} in the file`,
+        options: [
+          { value: 'existing', label: `Keep ${same.type}` },
+          { value: 'imported', label: `Use ${edge.type}` }
+        ],
+        default: 'existing'
+      });
+      if (choice === 'imported') {
+        const { inferred, confidence, reason, ...rest } = same;
+        edges = edges.map(other => other === same ? { ...rest, type: edge.type, strength: edge.strength } : other);
+      }
+      return;
+    }
+
+    if (reverse) {
+      const choice = choose({
+        id: `direction:${edge.source}->${edge.target}`,
+        kind: 'edge-direction',
+        message: `The file links "${labelOf(source)}" → "${labelOf(target)}", the lecture links them the other way`,
+        options: [
+          { value: 'existing', label: 'Keep the lecture\'s direction' },
+          { value: 'imported', label: 'Use the file\'s direction' },
+          { value: 'both', label: 'Keep both links' }
+        ],
+        default: 'existing'
+      });
+      if (choice === 'existing') return;
+      if (choice === 'imported') edges = edges.filter(other => other !== reverse);
+    }
+
+    edges.push(newEdge);
+    addedEdges.push({ ...newEdge, sourceLabel: labelOf(source), targetLabel: labelOf(target) });
+  });
+
+  return {
+    nodes,
+    edges,
+    summary: {
+      matched,
+      added,
+      addedEdges,
+      duplicateEdges: duplicates,
+      conflicts
+    }
+  };
+}
+
+// The manual graph edits (see graphEdits.js) that turn `existing` into
+// `merged` (planMerge's result), so a merge is replayed like any other
+// correction when the lecture is re-structured. planMerge only adds
+// concepts, changes their details and adds, retypes or drops links.
+function toMergeEdits(existing, merged) {
+  const existingById = new Map(existing.nodes.map(node => [node.id, node]));
+  const mergedById = new Map(merged.nodes.map(node => [node.id, node]));
+  const refOf = id => ({ id, label: (mergedById.get(id) || existingById.get(id)).label });
+  const edgeKey = edge => `${edge.source}->${edge.target}`;
+  const edits = [];
+
+  merged.nodes.forEach(node => {
+    const before = existingById.get(node.id);
+    if (!before) {
+      edits.push({
+        op: 'addNode',
+        node: { id: node.id, label: node.label, category: node.category, description: node.description, timestamps: node.timestamps }
+      });
+      return;
+    }
+    const changes = {};
+    ['label', 'category', 'description'].forEach(field => {
+      if (node[field] !== before[field]) changes[field] = node[field];
+    });
+    if (Object.keys(changes).length > 0) {
+      edits.push({ op: 'updateNode', node: { id: node.id, label: before.label }, changes });
+    }
+  });
+
+  const existingEdges = new Map(existing.edges.map(edge => [edgeKey(edge), edge]));
+  const mergedEdges = new Map(merged.edges.map(edge => [edgeKey(edge), edge]));
+  existing.edges.forEach(edge => {
+    if (!mergedEdges.has(edgeKey(edge))) {
+      edits.push({ op: 'deleteEdge', source: refOf(edge.source), target: refOf(edge.target) });
+    }
+  });
+  merged.edges.forEach(edge => {
+    const before = existingEdges.get(edgeKey(edge));
+    if (!before) {
+      edits.push({ op: 'addEdge', source: refOf(edge.source), target: refOf(edge.target), type: edge.type, strength: edge.strength });
+    } else if (before.type !== edge.type || before.strength !== edge.strength) {
+      edits.push({ op: 'updateEdge', source: refOf(edge.source), target: refOf(edge.target), type: edge.type, strength: edge.strength });
+    }
+  });
+
+  return edits;
+}
+
+module.exports = {
+  GRAPH_IMPORT_FORMATS,
+  GraphImportError,
+  parseGraph,
+  toCurriculumGraph,
+  planMerge,
+  toMergeEdits
+};
@@ -0,0 +1,216 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { EventEmitter } = require('events');
+
+// Jobs are persisted to disk so that a server restart or a browser refresh
+// doesn't lose track of videos that are still being processed.
+const DATA_DIR = path.join(__dirname, 'data');
+const JOBS_FILE = path.join(DATA_DIR, 'jobs.json');
+// Finished jobs are only kept for a while, and only the most recent ones
+const FINISHED_JOB_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_FINISHED_JOBS = 50;
+// Progress ticks arrive several times a second; they're written out at most this often
+const SAVE_INTERVAL_MS = 2000;
+
+const jobs = new Map();
+// Emits 'update' with the job whenever it changes (used for the SSE progress stream)
+const events = new EventEmitter();
+events.setMaxListeners(0);
+const pending = [];
+let handler = null;
+let running = false;
+let saveTimer = null;
+
+function loadJobs() {
+  try {
+    if (!fs.existsSync(JOBS_FILE)) return;
+    const saved = JSON.parse(fs.readFileSync(JOBS_FILE, 'utf8'));
+    saved.forEach(job => {
+      // Older job files kept the whole transcript and graph; the video is in the library
+      if (job.result?.videoId) {
+        const { videoId, version, duplicate } = job.result;
+        job.result = { videoId, version, duplicate };
+      }
+      jobs.set(job.id, job);
+    });
+    console.log(`Loaded ${saved.length} jobs from ${JOBS_FILE}`);
+    pruneJobs();
+  } catch (error) {
+    console.error('Error loading jobs:', error.message);
+  }
+}
+
+function saveJobs() {
+  clearTimeout(saveTimer);
+  saveTimer = null;
+  try {
+    if (!fs.existsSync(DATA_DIR)) {
+      fs.mkdirSync(DATA_DIR, { recursive: true });
+    }
+    // Write to a temp file first so a crash mid-write can't corrupt the job list
+    const tempFile = JOBS_FILE + '.tmp';
+    fs.writeFileSync(tempFile, JSON.stringify([...jobs.values()], null, 2));
+    fs.renameSync(tempFile, JOBS_FILE);
+  } catch (error) {
+    console.error('Error saving jobs:', error.message);
+  }
+}
+
+function scheduleSave() {
+  if (saveTimer) return;
+  saveTimer = setTimeout(saveJobs, SAVE_INTERVAL_MS);
+  saveTimer.unref();
+}
+
+// Forget finished jobs older than FINISHED_JOB_MAX_AGE_MS, and all but the
+// MAX_FINISHED_JOBS most recent ones. Returns how many were dropped.
+function pruneJobs() {
+  const cutoff = new Date(Date.now() - FINISHED_JOB_MAX_AGE_MS).toISOString();
+  const expired = listJobs()
+    .filter(isFinished)
+    .filter((job, index) => index >= MAX_FINISHED_JOBS || job.updatedAt < cutoff);
+  expired.forEach(job => jobs.delete(job.id));
+  return expired.length;
+}
+
+// Forget the finished jobs that produced or re-ran a video, once it's deleted
+function forgetVideo(videoId) {
+  const finished = listJobs()
+    .filter(isFinished)
+    .filter(job => job.result?.videoId === videoId || job.input?.videoId === videoId);
+  finished.forEach(job => jobs.delete(job.id));
+  if (finished.length > 0) saveJobs();
+}
+
+// Public view of a job - the input payload holds server-side file paths
+function toJobSummary(job, includeResult = true) {
+  const { input, result, ...summary } = job;
+  return includeResult ? { ...summary, result } : summary;
+}
+
+function createJob(input) {
+  const now = new Date().toISOString();
+  const job = {
+    id: crypto.randomUUID(),
+    status: 'queued',
+    stage: 'queued',
+    progress: 0,
+    stages: {},
+    eta: null,
+    message: 'Waiting to be processed...',
+    logs: [],
+    error: null,
+    originalFilename: input.originalFilename,
+    createdAt: now,
+    updatedAt: now,
+    input,
+    result: null
+  };
+
+  jobs.set(job.id, job);
+  pending.push(job.id);
+  saveJobs();
+  processNext();
+
+  return job;
+}
+
+function updateJob(id, changes) {
+  const job = jobs.get(id);
+  if (!job) return null;
+
+  Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  // Status changes are written straight away, progress in batches
+  if (changes.status) {
+    saveJobs();
+  } else {
+    scheduleSave();
+  }
+  events.emit('update', job);
+  return job;
+}
+
+function getJob(id) {
+  return jobs.get(id) || null;
+}
+
+function listJobs() {
+  return [...jobs.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Run jobs one at a time - ffmpeg and the Gemini calls are too heavy to run side by side
+async function processNext() {
+  if (running || !handler || pending.length === 0) return;
+
+  const id = pending.shift();
+  const job = jobs.get(id);
+  if (!job) return processNext();
+
+  running = true;
+  updateJob(id, { status: 'running', message: 'Processing started' });
+
+  try {
+    const result = await handler(job, (changes) => updateJob(id, changes));
+    updateJob(id, {
+      status: 'completed',
+      stage: 'complete',
+      progress: 100,
+      eta: 0,
+      message: 'Processing complete!',
+      result
+    });
+  } catch (error) {
+    console.error(`Job ${id} failed:`, error);
+    updateJob(id, {
+      status: 'failed',
+      eta: null,
+      message: 'Video processing failed',
+      error: error.message
+    });
+  } finally {
+    running = false;
+    if (pruneJobs() > 0) saveJobs();
+    processNext();
+  }
+}
+
+// Register the pipeline and resume any jobs that were interrupted by a restart
+function startWorker(jobHandler) {
+  handler = jobHandler;
+  loadJobs();
+
+  listJobs()
+    .filter(job => job.status === 'queued' || job.status === 'running')
+    .reverse()
+    .forEach(job => {
+      console.log(`Resuming job ${job.id} (${job.originalFilename})`);
+      updateJob(job.id, {
+        status: 'queued',
+        stage: 'queued',
+        progress: 0,
+        stages: {},
+        eta: null,
+        message: 'Resumed after server restart'
+      });
+      pending.push(job.id);
+    });
+
+  processNext();
+}
+
+function isFinished(job) {
+  return job.status === 'completed' || job.status === 'failed';
+}
+
+module.exports = {
+  events,
+  createJob,
+  updateJob,
+  getJob,
+  listJobs,
+  forgetVideo,
+  toJobSummary,
+  isFinished,
+  startWorker
+};
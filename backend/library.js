@@ -0,0 +1,650 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const initSqlJs = require('sql.js');
+const { buildSearchDocuments, toMatchQuery, scoreMatch, parseSnippet, MATCH_START, MATCH_END } = require('./search');
+
+// The video library: every processed video with its transcript, structured
+// data and knowledge graph, keyed by a stable UUID. Stored in an embedded
+// SQLite database (sql.js) that is written back to disk after each change.
+//
+// Transcript, structured data and graph are kept as immutable versions.
+// Re-running part of the pipeline (or editing lecture info) adds a version
+// and points the video at it; rolling back just moves the pointer.
+const DATA_DIR = path.join(__dirname, 'data');
+const LIBRARY_FILE = path.join(DATA_DIR, 'library.sqlite');
+// Source videos are kept after processing so they can be played back
+const MEDIA_DIR = path.join(DATA_DIR, 'media');
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS videos (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    original_filename TEXT,
+    duration REAL,
+    source TEXT NOT NULL,
+    media_file TEXT,
+    current_version INTEGER,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS video_versions (
+    video_id TEXT NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    reason TEXT NOT NULL,
+    transcript TEXT,
+    transcript_segments TEXT NOT NULL,
+    structured_data TEXT NOT NULL,
+    nodes TEXT NOT NULL,
+    edges TEXT NOT NULL,
+    details TEXT,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (video_id, version)
+  );
+  CREATE TABLE IF NOT EXISTS concept_overrides (
+    video_id TEXT NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+    label_key TEXT NOT NULL,
+    label TEXT NOT NULL,
+    concept_id TEXT,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (video_id, label_key)
+  );
+  CREATE TABLE IF NOT EXISTS graph_edits (
+    video_id TEXT NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    edit TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (video_id, seq)
+  );
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT
+  );
+  CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts4(
+    content, video_id, kind, start_time, concept_id, concept_label,
+    notindexed=video_id, notindexed=kind, notindexed=start_time, notindexed=concept_id, notindexed=concept_label,
+    tokenize=porter
+  );
+`;
+
+// Bump when buildSearchDocuments changes; the index is rebuilt on the next start
+const SEARCH_INDEX_VERSION = '1';
+
+let db = null;
+let libraryFile = LIBRARY_FILE;
+
+async function init(file = LIBRARY_FILE) {
+  const SQL = await initSqlJs();
+  libraryFile = file;
+  db = fs.existsSync(file) ? new SQL.Database(fs.readFileSync(file)) : new SQL.Database();
+  db.run('PRAGMA foreign_keys = ON');
+  db.exec(SCHEMA);
+  addColumnIfMissing('videos', 'media_file', 'TEXT');
+  addColumnIfMissing('videos', 'current_version', 'INTEGER');
+  addColumnIfMissing('videos', 'content_hash', 'TEXT');
+  db.run('CREATE INDEX IF NOT EXISTS videos_content_hash ON videos (content_hash)');
+  migrateToVersions();
+  if (getMeta('search_index_version') !== SEARCH_INDEX_VERSION) {
+    rebuildSearchIndex();
+  }
+  persist();
+}
+
+// Libraries created before versioning kept one transcript, structured
+// transcript and graph per video; turn each into version 1
+function migrateToVersions() {
+  const tables = query("SELECT name FROM sqlite_master WHERE type = 'table'").map(row => row.name);
+  if (!tables.includes('graphs')) return;
+
+  db.run(`
+    INSERT OR IGNORE INTO video_versions
+      (video_id, version, reason, transcript, transcript_segments, structured_data, nodes, edges, created_at)
+    SELECT v.id, 1, v.source, t.text, COALESCE(t.segments, '[]'), COALESCE(s.data, 'null'), g.nodes, g.edges, v.created_at
+    FROM videos v
+    JOIN graphs g ON g.video_id = v.id
+    LEFT JOIN transcripts t ON t.video_id = v.id
+    LEFT JOIN structured_transcripts s ON s.video_id = v.id
+  `);
+  db.run('UPDATE videos SET current_version = 1 WHERE current_version IS NULL');
+  db.exec('DROP TABLE transcripts; DROP TABLE structured_transcripts; DROP TABLE graphs;');
+}
+
+// CREATE TABLE IF NOT EXISTS won't touch tables from an older schema
+function addColumnIfMissing(table, column, type) {
+  const columns = query(`PRAGMA table_info(${table})`).map(row => row.name);
+  if (!columns.includes(column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+// Move an uploaded file into the media directory under the video's id
+function storeMedia(id, sourcePath) {
+  fs.mkdirSync(MEDIA_DIR, { recursive: true });
+  const mediaFile = id + path.extname(sourcePath).toLowerCase();
+  const target = path.join(MEDIA_DIR, mediaFile);
+  try {
+    fs.renameSync(sourcePath, target);
+  } catch (error) {
+    if (error.code !== 'EXDEV') throw error;
+    // Uploads on a different filesystem can't be renamed into place
+    fs.copyFileSync(sourcePath, target);
+    fs.unlinkSync(sourcePath);
+  }
+  return mediaFile;
+}
+
+// sql.js keeps the database in memory, so write it out after every change.
+// Same temp-file-then-rename approach as the job queue.
+function persist() {
+  fs.mkdirSync(path.dirname(libraryFile), { recursive: true });
+  const tempFile = libraryFile + '.tmp';
+  fs.writeFileSync(tempFile, Buffer.from(db.export()));
+  fs.renameSync(tempFile, libraryFile);
+  // export() reopens the database, which resets connection settings
+  db.run('PRAGMA foreign_keys = ON');
+}
+
+function query(sql, params = []) {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    const rows = [];
+    while (statement.step()) rows.push(statement.getAsObject());
+    return rows;
+  } finally {
+    statement.free();
+  }
+}
+
+function transaction(work) {
+  db.run('BEGIN');
+  try {
+    const result = work();
+    db.run('COMMIT');
+    persist();
+    return result;
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  }
+}
+
+function parseJson(text, fallback) {
+  return text ? JSON.parse(text) : fallback;
+}
+
+function toVideoSummary(row) {
+  return {
+    id: row.id,
+    title: row.title,
+    originalFilename: row.original_filename,
+    duration: row.duration,
+    source: row.source,
+    hasMedia: Boolean(row.media_file),
+    contentHash: row.content_hash,
+    version: row.current_version,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function toVersion(row) {
+  return {
+    version: row.version,
+    reason: row.reason,
+    details: parseJson(row.details, null),
+    createdAt: row.version_created_at || row.created_at,
+    transcript: row.transcript,
+    transcriptSegments: parseJson(row.transcript_segments, []),
+    structuredData: parseJson(row.structured_data, null),
+    nodes: parseJson(row.nodes, []),
+    edges: parseJson(row.edges, [])
+  };
+}
+
+function insertVersion(id, version, { reason, transcript = null, transcriptSegments = [], structuredData, nodes, edges, details = null }, createdAt) {
+  db.run(`
+    INSERT INTO video_versions
+      (video_id, version, reason, transcript, transcript_segments, structured_data, nodes, edges, details, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, [
+    id, version, reason, transcript, JSON.stringify(transcriptSegments), JSON.stringify(structuredData),
+    JSON.stringify(nodes), JSON.stringify(edges), details ? JSON.stringify(details) : null, createdAt
+  ]);
+}
+
+// Add a processed video and everything derived from it as version 1; returns
+// the new video. `mediaPath` is the uploaded source file, which is moved into
+// the library and `contentHash` its SHA-256, used to spot duplicate uploads.
+// `details` records how the version was produced (providers etc).
+function saveVideo({
+  title,
+  originalFilename = null,
+  duration = null,
+  transcript = null,
+  transcriptSegments = [],
+  structuredData,
+  nodes,
+  edges,
+  details = null,
+  source = 'upload',
+  mediaPath = null,
+  contentHash = null,
+  createdAt = new Date().toISOString()
+}) {
+  const id = crypto.randomUUID();
+
+  transaction(() => {
+    db.run(
+      'INSERT INTO videos (id, title, original_filename, duration, source, content_hash, current_version, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?)',
+      [id, title, originalFilename, duration, source, contentHash, createdAt, createdAt]
+    );
+    insertVersion(id, 1, { reason: source, transcript, transcriptSegments, structuredData, nodes, edges, details }, createdAt);
+    indexVideo(id);
+    // Last, so a failed move rolls back the inserts above
+    if (mediaPath) {
+      db.run('UPDATE videos SET media_file = ? WHERE id = ?', [storeMedia(id, mediaPath), id]);
+    }
+  });
+
+  return getVideo(id);
+}
+
+// Add a new version and make it current. `reason` is restructure, retranscribe or edit.
+// Returns the updated video, or null if it doesn't exist.
+function addVersion(id, content) {
+  const version = nextVersion(id);
+  if (version === null) return null;
+
+  transaction(() => insertCurrentVersion(id, version, content));
+  return getVideo(id);
+}
+
+function nextVersion(id) {
+  const [row] = query('SELECT MAX(version) AS latest FROM video_versions WHERE video_id = ?', [id]);
+  return !row || row.latest === null ? null : row.latest + 1;
+}
+
+// Must run inside a transaction
+function insertCurrentVersion(id, version, { reason, transcript, transcriptSegments, structuredData, nodes, edges, details }) {
+  const now = new Date().toISOString();
+  insertVersion(id, version, { reason, transcript, transcriptSegments, structuredData, nodes, edges, details }, now);
+  db.run('UPDATE videos SET current_version = ?, updated_at = ? WHERE id = ?', [version, now, id]);
+  indexVideo(id);
+}
+
+// Full bundle for one video at its current version, or null if it doesn't exist
+function getVideo(id) {
+  const [row] = query(`
+    SELECT v.*, vv.reason, vv.transcript, vv.transcript_segments, vv.structured_data, vv.nodes, vv.edges,
+      vv.details, vv.created_at AS version_created_at
+    FROM videos v
+    LEFT JOIN video_versions vv ON vv.video_id = v.id AND vv.version = v.current_version
+    WHERE v.id = ?
+  `, [id]);
+  if (!row) return null;
+
+  const { version, ...current } = toVersion(row);
+  return {
+    ...toVideoSummary(row),
+    ...current,
+    // createdAt is when the video was added, not when this version was made
+    createdAt: row.created_at,
+    versionCreatedAt: row.version_created_at
+  };
+}
+
+// The video an identical file was uploaded as, or null
+function findVideoByContentHash(contentHash) {
+  const [row] = query('SELECT id FROM videos WHERE content_hash = ? ORDER BY created_at LIMIT 1', [contentHash]);
+  return row ? getVideo(row.id) : null;
+}
+
+// Every version of a video, newest first, without the heavy payloads
+function listVersions(id) {
+  return query(`
+    SELECT vv.version, vv.reason, vv.details, vv.created_at,
+      vv.transcript IS NOT NULL AS has_transcript,
+      json_array_length(vv.nodes) AS node_count,
+      json_array_length(vv.edges) AS edge_count,
+      vv.version = v.current_version AS is_current
+    FROM video_versions vv
+    JOIN videos v ON v.id = vv.video_id
+    WHERE vv.video_id = ?
+    ORDER BY vv.version DESC
+  `, [id]).map(row => ({
+    version: row.version,
+    reason: row.reason,
+    details: parseJson(row.details, null),
+    createdAt: row.created_at,
+    hasTranscript: Boolean(row.has_transcript),
+    nodeCount: row.node_count || 0,
+    edgeCount: row.edge_count || 0,
+    isCurrent: Boolean(row.is_current)
+  }));
+}
+
+// One complete version, or null if it doesn't exist
+function getVersion(id, version) {
+  const [row] = query('SELECT * FROM video_versions WHERE video_id = ? AND version = ?', [id, version]);
+  return row ? toVersion(row) : null;
+}
+
+// Roll back (or forward) to an existing version. Returns the updated video, or
+// null if the video or version doesn't exist.
+function setCurrentVersion(id, version) {
+  if (!getVersion(id, version)) return null;
+  transaction(() => {
+    db.run('UPDATE videos SET current_version = ?, updated_at = ? WHERE id = ?', [version, new Date().toISOString(), id]);
+    indexVideo(id);
+  });
+  return getVideo(id);
+}
+
+// One page of video summaries, newest first, with the total count for paging
+function listVideos({ limit = 20, offset = 0 } = {}) {
+  const [{ total }] = query('SELECT COUNT(*) AS total FROM videos');
+  const videos = query(`
+    SELECT v.*,
+      json_extract(vv.structured_data, '$.lecture_info') AS lecture_info,
+      json_array_length(vv.nodes) AS node_count,
+      json_array_length(vv.edges) AS edge_count
+    FROM videos v
+    LEFT JOIN video_versions vv ON vv.video_id = v.id AND vv.version = v.current_version
+    ORDER BY v.created_at DESC
+    LIMIT ? OFFSET ?
+  `, [limit, offset]).map(row => ({
+    ...toVideoSummary(row),
+    lectureInfo: parseJson(row.lecture_info, null),
+    nodeCount: row.node_count || 0,
+    edgeCount: row.edge_count || 0
+  }));
+
+  return { videos, total };
+}
+
+// Current graph of each video ({ id, title, nodes, edges }), for the combined
+// graph. Limited to `ids` when given, in that order; otherwise newest first.
+function listGraphs(ids = null) {
+  const rows = query(`
+    SELECT v.id, v.title, vv.nodes, vv.edges
+    FROM videos v
+    JOIN video_versions vv ON vv.video_id = v.id AND vv.version = v.current_version
+    ORDER BY v.created_at DESC
+  `);
+  const graphs = rows.map(row => ({
+    id: row.id,
+    title: row.title,
+    nodes: parseJson(row.nodes, []),
+    edges: parseJson(row.edges, [])
+  }));
+  if (!ids) return graphs;
+
+  const byId = new Map(graphs.map(graph => [graph.id, graph]));
+  return ids.map(id => byId.get(id)).filter(Boolean);
+}
+
+// Manual concept resolution: each override pins one concept occurrence
+// (a video and a normalized label) to a concept id, or splits it out on its
+// own when conceptId is null
+function listConceptOverrides() {
+  return query('SELECT * FROM concept_overrides ORDER BY created_at').map(row => ({
+    videoId: row.video_id,
+    labelKey: row.label_key,
+    label: row.label,
+    conceptId: row.concept_id,
+    createdAt: row.created_at
+  }));
+}
+
+// Add or replace overrides ([{ videoId, labelKey, label, conceptId }]) together
+function setConceptOverrides(overrides) {
+  const now = new Date().toISOString();
+  transaction(() => {
+    overrides.forEach(({ videoId, labelKey, label, conceptId }) => {
+      db.run(
+        'INSERT OR REPLACE INTO concept_overrides (video_id, label_key, label, concept_id, created_at) VALUES (?, ?, ?, ?, ?)',
+        [videoId, labelKey, label, conceptId, now]
+      );
+    });
+  });
+}
+
+// Back to automatic resolution for one occurrence. Returns false if it had no override.
+function deleteConceptOverride(videoId, labelKey) {
+  const [row] = query('SELECT 1 FROM concept_overrides WHERE video_id = ? AND label_key = ?', [videoId, labelKey]);
+  if (!row) return false;
+  transaction(() => db.run('DELETE FROM concept_overrides WHERE video_id = ? AND label_key = ?', [videoId, labelKey]));
+  return true;
+}
+
+// Manual graph edits (see graphEdits.js), oldest first. They are kept apart
+// from the versions so re-runs of the pipeline can apply them again.
+function listGraphEdits(id) {
+  return query('SELECT edit FROM graph_edits WHERE video_id = ? ORDER BY seq', [id]).map(row => JSON.parse(row.edit));
+}
+
+// Append `edits` to the log and save `graph` (the current graph with them
+// applied) as a new version, together: an edit version unless `reason` says
+// otherwise, with `details` added to the version's own. Returns the updated
+// video, or null if it doesn't exist.
+function saveGraphEdits(id, edits, { nodes, edges }, { reason = 'edit', details = {} } = {}) {
+  const video = getVideo(id);
+  if (!video) return null;
+
+  const [row] = query('SELECT MAX(seq) AS latest FROM graph_edits WHERE video_id = ?', [id]);
+  const firstSeq = row.latest === null ? 1 : row.latest + 1;
+  const now = new Date().toISOString();
+  transaction(() => {
+    edits.forEach((edit, index) => {
+      db.run('INSERT INTO graph_edits (video_id, seq, edit, created_at) VALUES (?, ?, ?, ?)', [id, firstSeq + index, JSON.stringify(edit), now]);
+    });
+    insertCurrentVersion(id, nextVersion(id), {
+      ...video,
+      reason,
+      details: { fields: ['graph'], edits: edits.length, ...details, basedOn: video.version },
+      nodes,
+      edges
+    });
+  });
+
+  return getVideo(id);
+}
+
+// Forget the edit log so re-runs start from the AI output again. The current
+// graph keeps the edits. Returns false if there was nothing to clear.
+function clearGraphEdits(id) {
+  const [row] = query('SELECT COUNT(*) AS count FROM graph_edits WHERE video_id = ?', [id]);
+  if (!row.count) return false;
+  transaction(() => db.run('DELETE FROM graph_edits WHERE video_id = ?', [id]));
+  return true;
+}
+
+// Edit a video's title and/or lecture_info. The title lives on the video; a
+// lecture_info change is merged into the structured transcript as a new version.
+// Returns the updated video, or null if it doesn't exist.
+function updateVideo(id, { title, lectureInfo }) {
+  const video = getVideo(id);
+  if (!video) return null;
+
+  if (title !== undefined) {
+    transaction(() => {
+      db.run('UPDATE videos SET title = ?, updated_at = ? WHERE id = ?', [title, new Date().toISOString(), id]);
+    });
+  }
+  if (lectureInfo !== undefined) {
+    addVersion(id, {
+      ...video,
+      reason: 'edit',
+      details: { fields: Object.keys(lectureInfo).map(key => `lecture_info.${key}`) },
+      structuredData: {
+        ...(video.structuredData || {}),
+        lecture_info: { ...(video.structuredData?.lecture_info || {}), ...lectureInfo }
+      }
+    });
+  }
+
+  return getVideo(id);
+}
+
+// Remove a video, everything derived from it and its source file.
+// Returns false if it doesn't exist.
+function deleteVideo(id) {
+  const [row] = query('SELECT media_file FROM videos WHERE id = ?', [id]);
+  if (!row) return false;
+
+  // Versions go with it through ON DELETE CASCADE; virtual tables have no foreign keys
+  transaction(() => {
+    db.run('DELETE FROM videos WHERE id = ?', [id]);
+    db.run('DELETE FROM search_index WHERE video_id = ?', [id]);
+  });
+
+  if (row.media_file) {
+    fs.rmSync(path.join(MEDIA_DIR, row.media_file), { force: true });
+  }
+  return true;
+}
+
+// Absolute path of a video's source file, or null if it wasn't kept
+function getMediaPath(id) {
+  const [row] = query('SELECT media_file FROM videos WHERE id = ?', [id]);
+  if (!row || !row.media_file) return null;
+  const mediaPath = path.join(MEDIA_DIR, row.media_file);
+  return fs.existsSync(mediaPath) ? mediaPath : null;
+}
+
+// Replace a video's search documents with those of its current version.
+// Called inside the transaction that changes the version.
+function indexVideo(id) {
+  db.run('DELETE FROM search_index WHERE video_id = ?', [id]);
+  const video = getVideo(id);
+  if (!video) return;
+
+  buildSearchDocuments(video).forEach(document => {
+    db.run(
+      'INSERT INTO search_index (content, video_id, kind, start_time, concept_id, concept_label) VALUES (?, ?, ?, ?, ?, ?)',
+      [document.content, id, document.kind, document.start, document.conceptId, document.conceptLabel]
+    );
+  });
+}
+
+function rebuildSearchIndex() {
+  db.run('BEGIN');
+  try {
+    db.run('DELETE FROM search_index');
+    query('SELECT id FROM videos').forEach(row => indexVideo(row.id));
+    db.run('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', ['search_index_version', SEARCH_INDEX_VERSION]);
+    db.run('COMMIT');
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  }
+}
+
+// Ranked full-text matches across every video's current version. Returns
+// { hits, total }, or null when the query has nothing to search for.
+function search(text, { limit = 20, offset = 0 } = {}) {
+  const match = toMatchQuery(text);
+  if (!match) return null;
+
+  // FTS can't order by relevance on its own, so score every match here
+  const rows = query(`
+    SELECT search_index.video_id, search_index.kind, search_index.start_time,
+      search_index.concept_id, search_index.concept_label, v.title,
+      snippet(search_index, ?, ?, '…', 0, 16) AS snippet,
+      matchinfo(search_index, 'pcnx') AS info
+    FROM search_index
+    JOIN videos v ON v.id = search_index.video_id
+    WHERE search_index MATCH ?
+  `, [MATCH_START, MATCH_END, match]);
+
+  const hits = rows
+    .map(row => {
+      const { text: snippet, highlights } = parseSnippet(row.snippet);
+      return {
+        videoId: row.video_id,
+        videoTitle: row.title,
+        kind: row.kind,
+        timestamp: row.start_time,
+        snippet,
+        highlights,
+        concept: row.concept_id ? { id: row.concept_id, label: row.concept_label } : null,
+        score: Math.round(scoreMatch(row.info, row.kind) * 1000) / 1000
+      };
+    })
+    .sort((a, b) => b.score - a.score || (a.timestamp ?? 0) - (b.timestamp ?? 0));
+
+  return { hits: hits.slice(offset, offset + limit), total: hits.length };
+}
+
+function getMeta(key) {
+  const [row] = query('SELECT value FROM meta WHERE key = ?', [key]);
+  return row ? row.value : null;
+}
+
+function setMeta(key, value) {
+  db.run('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', [key, value]);
+  persist();
+}
+
+// One-time import of the "<name>_graph_data.json" / "<name>_structured_transcript.json"
+// pairs the pipeline used to write to the repo root. Later runs are no-ops.
+function importLegacyFiles(directory) {
+  if (getMeta('legacy_import_completed_at')) return 0;
+
+  let imported = 0;
+  fs.readdirSync(directory)
+    .filter(file => file.endsWith('_graph_data.json'))
+    .forEach(file => {
+      try {
+        const graph = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8'));
+        const structuredFile = path.join(directory, file.replace('_graph_data.json', '_structured_transcript.json'));
+        const structured = fs.existsSync(structuredFile)
+          ? JSON.parse(fs.readFileSync(structuredFile, 'utf8'))
+          : null;
+        const { metadata, ...structuredData } = structured || {};
+        const sourceVideo = graph.metadata?.source_video || file.replace('_graph_data.json', '');
+
+        saveVideo({
+          title: sourceVideo.replace(/\.[^/.]+$/, ''),
+          originalFilename: sourceVideo,
+          structuredData: structured ? structuredData : null,
+          nodes: graph.nodes || [],
+          edges: graph.edges || [],
+          source: 'import',
+          createdAt: graph.metadata?.generated_on || new Date().toISOString()
+        });
+        imported++;
+        console.log(`Imported ${file} into the video library`);
+      } catch (error) {
+        console.error(`Error importing ${file}:`, error.message);
+      }
+    });
+
+  setMeta('legacy_import_completed_at', new Date().toISOString());
+  return imported;
+}
+
+module.exports = {
+  init,
+  saveVideo,
+  addVersion,
+  getVideo,
+  findVideoByContentHash,
+  listVersions,
+  getVersion,
+  setCurrentVersion,
+  listVideos,
+  updateVideo,
+  deleteVideo,
+  getMediaPath,
+  listGraphs,
+  listConceptOverrides,
+  setConceptOverrides,
+  deleteConceptOverride,
+  listGraphEdits,
+  saveGraphEdits,
+  clearGraphEdits,
+  search,
+  importLegacyFiles
+};
@@ -0,0 +1,99 @@
+// Pipeline stages in the order they run. Weights are rough shares of total
+// processing time and are used to turn per-stage percentages into an overall one.
+const PIPELINE_STAGES = [
+  { id: 'probe', label: 'Reading video metadata', weight: 5 },
+  { id: 'convert', label: 'Converting video to audio', weight: 15 },
+  { id: 'transcribe', label: 'Transcribing audio', weight: 40 },
+  { id: 'structure', label: 'Structuring transcript', weight: 30 },
+  { id: 'graph', label: 'Building knowledge graph', weight: 5 },
+  { id: 'save', label: 'Saving results', weight: 5 }
+];
+
+const MAX_LOG_LINES = 200;
+
+// Tracks per-stage progress for one job and reports snapshots
+// ({ stage, stages, progress, eta, message, logs }) through onUpdate.
+// `previousLogs` is the log of an earlier run of the job (one resumed after a
+// restart); it is kept and numbering carries on from it.
+function createProgressTracker(onUpdate, stages = PIPELINE_STAGES, previousLogs = []) {
+  const startedAt = Date.now();
+  const totalWeight = stages.reduce((sum, stage) => sum + stage.weight, 0);
+  const stageProgress = Object.fromEntries(stages.map(stage => [stage.id, 0]));
+  const logs = previousLogs.slice(-MAX_LOG_LINES);
+  // Numbers log lines so the SSE stream can send only the new ones
+  let logCount = logs.reduce((latest, entry) => Math.max(latest, entry.seq || 0), 0);
+  let currentStage = stages[0].id;
+  let message = '';
+
+  const overallProgress = () => {
+    const done = stages.reduce((sum, stage) => sum + stage.weight * stageProgress[stage.id] / 100, 0);
+    return Math.round(done / totalWeight * 1000) / 10;
+  };
+
+  // Extrapolate from the elapsed time; not meaningful until some work is done
+  const estimateRemaining = (progress) => {
+    if (progress < 2) return null;
+    const elapsed = (Date.now() - startedAt) / 1000;
+    return Math.round(elapsed * (100 - progress) / progress);
+  };
+
+  const emit = () => {
+    const progress = overallProgress();
+    onUpdate({
+      stage: currentStage,
+      stages: { ...stageProgress },
+      progress,
+      eta: estimateRemaining(progress),
+      message,
+      logs: [...logs]
+    });
+  };
+
+  const log = (text, level = 'info') => {
+    logs.push({ seq: ++logCount, time: new Date().toISOString(), level, message: text });
+    if (logs.length > MAX_LOG_LINES) logs.shift();
+    if (level === 'error') {
+      console.error(text);
+    } else {
+      console.log(text);
+    }
+  };
+
+  return {
+    start(stageId, text) {
+      const stage = stages.find(s => s.id === stageId);
+      currentStage = stageId;
+      message = text || stage?.label || stageId;
+      log(message);
+      emit();
+    },
+
+    update(stageId, percent, text) {
+      const rounded = Math.min(100, Math.max(0, Math.round(percent)));
+      // Skip no-op updates so ffmpeg's frequent progress events don't flood listeners
+      if (rounded === stageProgress[stageId] && (!text || text === message)) return;
+      stageProgress[stageId] = rounded;
+      if (text) message = text;
+      emit();
+    },
+
+    complete(stageId, text) {
+      stageProgress[stageId] = 100;
+      if (text) {
+        message = text;
+        log(text);
+      }
+      emit();
+    },
+
+    log(text, level) {
+      log(text, level);
+      emit();
+    }
+  };
+}
+
+module.exports = {
+  PIPELINE_STAGES,
+  createProgressTracker
+};
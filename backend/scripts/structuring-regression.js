@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+
+// Regression check for the structuring prompt and response parsing.
+//
+// Runs every case in fixtures/structuring-cases.json through the structuring
+// service and compares the result with the case's sample structured
+// transcript in the repo root: the lecture title, the main topics, the
+// hierarchy ids and the number of breakdown segments. It also checks the
+// case's expectations, which were written by hand from the transcript: words
+// the title must contain, concepts the hierarchy must name, and a breakdown
+// that covers the lecture. Uses the replay provider unless
+// STRUCTURING_PROVIDER is set, so it runs offline against recorded responses.
+//
+//   node scripts/structuring-regression.js
+//   STRUCTURING_PROVIDER=gemini STRUCTURING_RECORD=1 node scripts/structuring-regression.js
+
+require('dotenv').config();
+const fs = require('fs');
+const path = require('path');
+const { createStructuringProvider, createStructuringService } = require('../structuring');
+const { getTranscriptLength } = require('../structuring/chunking');
+const { parseTimestampRange } = require('../timestamps');
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+const CASES_FILE = path.join(FIXTURES_DIR, 'structuring-cases.json');
+
+// How far the breakdown may start after the transcript does, or run past its last line
+const COVERAGE_SLACK_SECONDS = 60;
+
+function loadCases() {
+  return JSON.parse(fs.readFileSync(CASES_FILE, 'utf8')).map(testCase => ({
+    ...testCase,
+    transcript: fs.readFileSync(path.join(FIXTURES_DIR, testCase.transcript), 'utf8'),
+    expected: JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, testCase.expected), 'utf8'))
+  }));
+}
+
+function collectIds(items = [], depth = 1, ids = []) {
+  items.forEach(item => {
+    ids.push(item.id);
+    collectIds(item[`layer_${depth + 1}`], depth + 1, ids);
+  });
+  return ids;
+}
+
+// Describe how a structured transcript differs from the sample
+function compareWithSample(actual, expected) {
+  const differences = [];
+
+  if (actual.lecture_info?.title !== expected.lecture_info?.title) {
+    differences.push(`title: "${expected.lecture_info?.title}" -> "${actual.lecture_info?.title}"`);
+  }
+
+  const actualTopics = (actual.hierarchical_structure?.layer_1 || []).map(item => item.title);
+  const expectedTopics = (expected.hierarchical_structure?.layer_1 || []).map(item => item.title);
+  if (actualTopics.join('|') !== expectedTopics.join('|')) {
+    differences.push(`main topics: [${expectedTopics.join(', ')}] -> [${actualTopics.join(', ')}]`);
+  }
+
+  const actualIds = new Set(collectIds(actual.hierarchical_structure?.layer_1));
+  const expectedIds = new Set(collectIds(expected.hierarchical_structure?.layer_1));
+  const added = [...actualIds].filter(id => !expectedIds.has(id));
+  const removed = [...expectedIds].filter(id => !actualIds.has(id));
+  if (added.length) differences.push(`hierarchy ids added: ${added.join(', ')}`);
+  if (removed.length) differences.push(`hierarchy ids removed: ${removed.join(', ')}`);
+
+  const actualSegments = actual.detailed_breakdown?.length || 0;
+  const expectedSegments = expected.detailed_breakdown?.length || 0;
+  if (actualSegments !== expectedSegments) {
+    differences.push(`breakdown segments: ${expectedSegments} -> ${actualSegments}`);
+  }
+
+  return differences;
+}
+
+function collectTitles(items = [], depth = 1, titles = []) {
+  items.forEach(item => {
+    titles.push(item.title);
+    collectTitles(item[`layer_${depth + 1}`], depth + 1, titles);
+  });
+  return titles;
+}
+
+// Describe how a structured transcript falls short of the case's expectations
+function checkExpectations(actual, { titleIncludes = [], concepts = [], minSegments = 1 }, transcript) {
+  const problems = [];
+
+  const title = (actual.lecture_info?.title || '').toLowerCase();
+  titleIncludes
+    .filter(word => !title.includes(word.toLowerCase()))
+    .forEach(word => problems.push(`title "${actual.lecture_info?.title}" doesn't mention "${word}"`));
+
+  const titles = collectTitles(actual.hierarchical_structure?.layer_1).map(text => text.toLowerCase());
+  concepts
+    .filter(concept => !titles.some(text => text.includes(concept.toLowerCase())))
+    .forEach(concept => problems.push(`no topic in the hierarchy names "${concept}"`));
+
+  const segments = actual.detailed_breakdown || [];
+  if (segments.length < minSegments) {
+    problems.push(`breakdown has ${segments.length} segments, expected at least ${minSegments}`);
+  }
+
+  const intervals = segments.map(segment => parseTimestampRange(segment.timestamp));
+  const unreadable = segments.filter((segment, index) => !intervals[index]);
+  if (unreadable.length > 0) {
+    problems.push(`unreadable breakdown timestamps: ${unreadable.map(segment => `"${segment.timestamp}"`).join(', ')}`);
+  }
+
+  const timed = intervals.filter(Boolean);
+  const length = getTranscriptLength(transcript);
+  if (timed.length > 0) {
+    const start = Math.min(...timed.map(interval => interval.start));
+    const end = Math.max(...timed.map(interval => interval.end));
+    if (start > COVERAGE_SLACK_SECONDS) {
+      problems.push(`breakdown starts at ${start}s, not at the beginning of the lecture`);
+    }
+    if (end < length) {
+      problems.push(`breakdown ends at ${end}s, before the transcript's last line at ${length}s`);
+    }
+    if (end > length + COVERAGE_SLACK_SECONDS) {
+      problems.push(`breakdown runs to ${end}s, past the end of the transcript at ${length}s`);
+    }
+  }
+
+  return problems;
+}
+
+async function main() {
+  const cases = loadCases();
+  const provider = createStructuringProvider({
+    ...process.env,
+    STRUCTURING_PROVIDER: process.env.STRUCTURING_PROVIDER || 'replay'
+  });
+  const service = createStructuringService(provider);
+  let failures = 0;
+
+  for (const testCase of cases) {
+    try {
+      const actual = await service.structureTranscript(testCase.transcript);
+      const differences = compareWithSample(actual, testCase.expected);
+      const problems = checkExpectations(actual, testCase.expectations, testCase.transcript);
+
+      if (differences.length === 0 && problems.length === 0) {
+        console.log(`PASS ${testCase.name}`);
+      } else {
+        failures++;
+        console.log(`${differences.length > 0 ? 'DIFF' : 'MISS'} ${testCase.name}`);
+        differences.forEach(difference => console.log(`  - sample ${difference}`));
+        problems.forEach(problem => console.log(`  - ${problem}`));
+      }
+    } catch (error) {
+      failures++;
+      console.log(`FAIL ${testCase.name}: ${error.message}`);
+    }
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} cases match their samples and expectations`);
+  process.exitCode = failures > 0 ? 1 : 0;
+}
+
+main();
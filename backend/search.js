@@ -0,0 +1,131 @@
+// Full-text search over the video library.
+//
+// Each video's current version is split into search documents: one per
+// transcript segment, one per detailed_breakdown entry and one per concept.
+// The library keeps them in an SQLite FTS4 table; this module builds the
+// documents, turns user input into an FTS query and ranks the matches.
+
+const { parseTimestampRange } = require('./timestamps');
+
+// Concept names and the breakdown written about them are denser than what
+// was said, so a match there counts for more than one in the transcript
+const KIND_WEIGHTS = {
+  concept: 3,
+  breakdown: 2,
+  transcript: 1
+};
+
+function getNodeIntervals(node) {
+  if (node.intervals && node.intervals.length > 0) return node.intervals;
+  return (node.timestamps || []).map(start => ({ start, end: start }));
+}
+
+// The concept being covered at a moment: the narrowest interval containing it
+function findConceptAt(nodes, time) {
+  let best = null;
+  nodes.forEach(node => {
+    getNodeIntervals(node).forEach(interval => {
+      if (time < interval.start || time > interval.end) return;
+      const length = interval.end - interval.start;
+      if (!best || length < best.length) best = { node, length };
+    });
+  });
+  return best ? best.node : null;
+}
+
+// Search documents ({ kind, start, conceptId, conceptLabel, content }) for
+// one video's current version
+function buildSearchDocuments({ transcriptSegments = [], structuredData, nodes = [] }) {
+  const documents = [];
+  const addDocument = (kind, start, content, concept) => {
+    if (!content || !String(content).trim()) return;
+    documents.push({
+      kind,
+      start,
+      conceptId: concept ? concept.id : null,
+      conceptLabel: concept ? concept.label : null,
+      content: String(content)
+    });
+  };
+
+  transcriptSegments.forEach(segment => {
+    addDocument('transcript', segment.start, segment.text, findConceptAt(nodes, segment.start));
+  });
+
+  (structuredData?.detailed_breakdown || []).forEach(segment => {
+    const interval = parseTimestampRange(segment.timestamp);
+    const start = interval ? interval.start : null;
+    const concept = start !== null ? findConceptAt(nodes, start) : null;
+    addDocument('breakdown', start, segment.detail, concept);
+  });
+
+  nodes.forEach(node => {
+    const [first] = getNodeIntervals(node);
+    addDocument('concept', first ? first.start : null, [node.label, node.description].filter(Boolean).join('. '), node);
+  });
+
+  return documents;
+}
+
+// Turn free text into an FTS4 query: every word must appear, and the last one
+// may be a prefix so results show up while typing. Words are lowercased because
+// FTS reads AND / OR / NOT / NEAR as operators. Returns null if nothing is searchable.
+function toMatchQuery(text) {
+  const words = String(text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!words) return null;
+  return words.map((word, index) => index === words.length - 1 ? `${word}*` : word).join(' ');
+}
+
+// Score a row from matchinfo(..., 'pcnx'): a BM25-style sum over the query
+// words of term frequency (saturated) times inverse document frequency.
+// sql.js hands the blob over as a Uint8Array of native-endian 32-bit ints.
+function scoreMatch(matchinfo, kind) {
+  const info = new Uint32Array(matchinfo.buffer, matchinfo.byteOffset, matchinfo.byteLength / 4);
+  const [phraseCount, columnCount, rowCount] = info;
+  let score = 0;
+
+  for (let phrase = 0; phrase < phraseCount; phrase++) {
+    for (let column = 0; column < columnCount; column++) {
+      const offset = 3 + (phrase * columnCount + column) * 3;
+      const hitsInRow = info[offset];
+      const rowsWithHits = info[offset + 2];
+      if (hitsInRow === 0) continue;
+
+      const idf = Math.log(1 + (rowCount - rowsWithHits + 0.5) / (rowsWithHits + 0.5));
+      score += idf * (hitsInRow * 2.2) / (hitsInRow + 1.2);
+    }
+  }
+
+  return score * (KIND_WEIGHTS[kind] || 1);
+}
+
+// Markers snippet() puts around matched words; control characters can't
+// clash with transcript text
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+// "a \u0002merge\u0003 step" -> { text: "a merge step", highlights: [{ start: 2, length: 5 }] }
+function parseSnippet(snippet) {
+  const highlights = [];
+  let text = '';
+  String(snippet || '').split(MATCH_START).forEach((part, index) => {
+    if (index === 0) {
+      text += part;
+      return;
+    }
+    const end = part.indexOf(MATCH_END);
+    const matched = end === -1 ? part : part.slice(0, end);
+    highlights.push({ start: text.length, length: matched.length });
+    text += matched + (end === -1 ? '' : part.slice(end + 1));
+  });
+  return { text, highlights };
+}
+
+module.exports = {
+  buildSearchDocuments,
+  toMatchQuery,
+  scoreMatch,
+  parseSnippet,
+  MATCH_START,
+  MATCH_END
+};
@@ -3,25 +3,57 @@ const express = require('express');
 const multer = require('multer');
 const ffmpeg = require('fluent-ffmpeg');
 const ffmpegStatic = require('ffmpeg-static');
-const { GoogleGenerativeAI } = require('@google/generative-ai');
 const fs = require('fs');
 const path = require('path');
 const cors = require('cors');
+const jobQueue = require('./jobQueue');
+const library = require('./library');
+const stageCache = require('./stageCache');
+const {
+  SUBTITLE_EXTENSIONS,
+  parseSubtitles,
+  cuesToTranscript,
+  isTextSubtitleCodec,
+  toWebVTT,
+  buildCaptionCues,
+  buildChapterCues
+} = require('./subtitles');
+const { PIPELINE_STAGES, createProgressTracker } = require('./progress');
+const { createTranscriptSegments, parseTimestampRange } = require('./timestamps');
+const { diffGraphs } = require('./graphDiff');
+const { GRAPH_EXPORT_FORMATS, exportGraph } = require('./graphExport');
+const { GraphImportError, parseGraph, toCurriculumGraph, planMerge, toMergeEdits } = require('./graphImport');
+const { parseGraphEdits, createEditNodeId, applyGraphEdits } = require('./graphEdits');
+const { createTranscriptionProvider } = require('./transcription');
+const { createStructuringProvider, createStructuringService } = require('./structuring');
+const { createEdgeInference } = require('./edgeInference');
+const { resolveConcepts, createEmbeddingProvider, normalizeConceptLabel, DEFAULT_SIMILARITY_THRESHOLD } = require('./concepts');
 
 // Set ffmpeg path
 ffmpeg.setFfmpegPath(ffmpegStatic);
 
 // Configuration
-const GEMINI_API_KEY = process.env.GEMINI_API;
-const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
+const transcriptionProvider = createTranscriptionProvider();
+const structuringService = createStructuringService(createStructuringProvider(), {
+  repairAttempts: parseInt(process.env.STRUCTURING_REPAIR_ATTEMPTS || '2'),
+  chunking: {
+    mode: (process.env.STRUCTURING_CHUNKING || 'auto').toLowerCase(),
+    windowSeconds: parseInt(process.env.STRUCTURING_CHUNK_MINUTES || '10') * 60
+  }
+});
+const edgeInference = createEdgeInference({
+  mode: (process.env.EDGE_INFERENCE || 'heuristic').toLowerCase(),
+  provider: structuringService.provider
+});
+const conceptEmbedder = createEmbeddingProvider();
+const conceptSimilarityThreshold = parseFloat(process.env.CONCEPT_SIMILARITY_THRESHOLD || String(DEFAULT_SIMILARITY_THRESHOLD));
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '10mb' }));
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
@@ -45,13 +77,21 @@ const upload = multer({
   }
 });
 
+// Bump when the ffmpeg settings below change so cached audio isn't reused
+const AUDIO_VERSION = 'mp3-128k';
+
 // Convert video to audio
-function convertVideoToAudio(inputPath, outputPath) {
+function convertVideoToAudio(inputPath, outputPath, onProgress) {
   return new Promise((resolve, reject) => {
     ffmpeg(inputPath)
       .toFormat('mp3')
       .audioCodec('libmp3lame')
       .audioBitrate(128)
+      .on('progress', (progress) => {
+        if (onProgress && typeof progress.percent === 'number') {
+          onProgress(progress.percent);
+        }
+      })
       .on('end', () => {
         console.log('Audio conversion completed');
         resolve(outputPath);
@@ -64,239 +104,36 @@ function convertVideoToAudio(inputPath, outputPath) {
   });
 }
 
-// Transcribe audio using Gemini
-async function transcribeAudio(audioPath) {
+// Cache version for transcripts: the provider, model and (for Gemini) prompt
+function transcriptionVersion() {
+  return [transcriptionProvider.name, transcriptionProvider.model, transcriptionProvider.promptVersion]
+    .filter(Boolean)
+    .join(':');
+}
+
+// Transcribe audio with the configured provider
+async function transcribeAudio(audioPath, context) {
   try {
-    const audioBuffer = fs.readFileSync(audioPath);
-    const base64Audio = audioBuffer.toString('base64');
-    
-    const prompt = `
-      Please transcribe this audio file. The audio contains a lecture or educational content.
-      Provide a clean, accurate transcript with proper punctuation and formatting.
-      Include timestamps in the format [MM:SS] at the beginning of each major segment or topic change.
-      Focus on accuracy and clarity for educational content.
-    `;
-    
-    const result = await model.generateContent([
-      prompt,
-      {
-        inlineData: {
-          data: base64Audio,
-          mimeType: 'audio/mp3'
-        }
-      }
-    ]);
-    
-    const response = await result.response;
-    return response.text();
-    
+    return await transcriptionProvider.transcribe(audioPath, context);
   } catch (error) {
     console.error('Transcription error:', error);
     throw error;
   }
 }
 
-// Structure transcript using Gemini
-async function structureTranscript(transcript) {
+// Structure transcript with the configured LLM provider
+async function structureTranscript(transcript, onProgress) {
   try {
-    const prompt = `
-You are an expert educational content analyst. I need you to convert a lecture transcript into a detailed structured JSON format that captures the hierarchical organization of educational content.
-
-Here is the transcript:
-
-${transcript}
-
-Please analyze this transcript and create a structured JSON with the following format:
-
-{
-  "lecture_info": {
-    "course": "Educational Content",
-    "lecture_number": 1,
-    "instructor": "Unknown", 
-    "title": "Generated from Video"
-  },
-  "hierarchical_structure": {
-    "layer_1": [
-      {
-        "id": "1",
-        "title": "Main Topic Title",
-        "layer_2": [
-          {
-            "id": "1.1", 
-            "title": "Sub-topic",
-            "layer_3": [
-              {"id": "1.1.1", "title": "Specific concept"},
-              {"id": "1.1.2", "title": "Another specific concept"}
-            ]
-          },
-          {"id": "1.2", "title": "Another sub-topic"}
-        ]
-      }
-    ]
-  },
-  "detailed_breakdown": [
-    {
-      "id": "1.1",
-      "timestamp": "0:00-0:30",
-      "category": "introduction|definition|example|method|solution|visualization|extension|transition",
-      "subcategory": "specific_subcategory_name",
-      "detail": "Detailed description of what happens in this segment, including specific concepts, equations, and examples mentioned"
-    }
-  ]
-}
-
-CRITICAL REQUIREMENTS:
-1. Create a DEEP hierarchical structure with 3+ layers that reflects the educational flow
-2. Use EXACT timestamps from the transcript (format: "start:end")
-3. Assign appropriate categories: introduction, definition, example, method, solution, visualization, extension, transition
-4. Create meaningful subcategories that describe the specific content
-5. Provide DETAILED descriptions that capture:
-   - Specific concepts and examples
-   - Key transitions and emphasis points
-   - Important details mentioned
-6. Ensure the hierarchical structure has at least 3 layers deep (layer_1, layer_2, layer_3)
-7. Make sure all IDs are unique and follow the pattern (1, 1.1, 1.1.1, etc.)
-8. Focus on educational concepts and pedagogical structure
-9. Include important transitions and emphasis points
-10. Create MANY detailed breakdown segments (aim for 20+ segments)
-11. Each segment should be 30-60 seconds of content
-12. Include specific details and examples in the descriptions
-13. Do not include any escape characters in the JSON. Make sure the JSON is valid.
-
-Return ONLY the JSON object, no additional text or formatting.
-    `;
-    
-    console.log('Sending request to AI model for transcript structuring...');
-    
-    // Retry mechanism for AI calls
-    let result, response, text;
-    let retryCount = 0;
-    const maxRetries = 2;
-    
-    while (retryCount <= maxRetries) {
-      try {
-        result = await model.generateContent(prompt);
-        response = await result.response;
-        text = response.text();
-        console.log('Received AI response, length:', text.length);
-        break;
-      } catch (aiError) {
-        retryCount++;
-        console.error(`AI call attempt ${retryCount} failed:`, aiError.message);
-        if (retryCount > maxRetries) {
-          throw new Error(`AI model failed after ${maxRetries + 1} attempts: ${aiError.message}`);
-        }
-        // Wait before retry
-        await new Promise(resolve => setTimeout(resolve, 1000 * retryCount));
-      }
-    }
-    
-    // Clean up the response to extract just the JSON
-    let jsonText = text.trim();
-    
-    // Remove any markdown code blocks if present
-    if (jsonText.startsWith('```json')) {
-      jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-    } else if (jsonText.startsWith('```')) {
-      jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-    }
-    
-    // Additional JSON cleaning to handle common AI response issues
-    jsonText = jsonText
-      // Remove any leading/trailing non-JSON text
-      .replace(/^[^{]*/, '')
-      .replace(/[^}]*$/, '')
-      // Remove control characters that break JSON parsing
-      .replace(/[\x00-\x1F\x7F]/g, '')
-      // Fix common escaping issues
-      .replace(/\\n/g, '\\n')
-      .replace(/\\t/g, '\\t')
-      .replace(/\\r/g, '\\r')
-      .replace(/\\0/g, '\\\\0')  // Fix null character escapes
-      // Fix unescaped quotes in strings
-      .replace(/"([^"\\]*(\\.[^"\\]*)*)"/g, (match, content) => {
-        // Clean up the content by properly escaping quotes and backslashes
-        const cleaned = content
-          .replace(/\\/g, '\\\\')  // Escape backslashes first
-          .replace(/"/g, '\\"')    // Then escape quotes
-          .replace(/\n/g, '\\n')   // Convert actual newlines to escaped
-          .replace(/\t/g, '\\t')   // Convert actual tabs to escaped
-          .replace(/\r/g, '\\r')   // Convert actual carriage returns to escaped
-          .replace(/\0/g, '\\\\0'); // Convert null characters to escaped
-        return '"' + cleaned + '"';
-      });
-    
-    try {
-      return JSON.parse(jsonText);
-    } catch (parseError) {
-      console.error('JSON parse error:', parseError.message);
-      const position = parseError.message.match(/position (\d+)/)?.[1];
-      if (position) {
-        const start = Math.max(0, parseInt(position) - 100);
-        const end = parseInt(position) + 100;
-        console.error('Problematic JSON text around position', position, ':', jsonText.substring(start, end));
-        console.error('Character at position', position, ':', jsonText[parseInt(position)]);
-      }
-      
-      // Try to fix common JSON issues
-      let fixedJson = jsonText;
-      
-      // Fix trailing commas
-      fixedJson = fixedJson.replace(/,(\s*[}\]])/g, '$1');
-      
-      // Fix missing quotes around keys
-      fixedJson = fixedJson.replace(/([{,]\s*)([a-zA-Z_][a-zA-Z0-9_]*)\s*:/g, '$1"$2":');
-      
-      // Try parsing again
-      try {
-        return JSON.parse(fixedJson);
-      } catch (secondError) {
-        console.error('Second JSON parse attempt failed:', secondError.message);
-        
-        // Last resort: create a basic fallback structure
-        console.log('Creating fallback structure due to JSON parsing failure');
-        return {
-          metadata: {
-            source_video: "Unknown",
-            generated_on: new Date().toISOString(),
-            type: "structured_transcript",
-            fallback: true
-          },
-          lecture_info: {
-            course: "Unknown Course",
-            lecture_number: 1,
-            instructor: "Unknown",
-            title: "Lecture Content"
-          },
-          hierarchical_structure: {
-            layer_1: [{
-              id: "1",
-              title: "Main Topic",
-              layer_2: [{
-                id: "1.1",
-                title: "Sub-topic",
-                layer_3: [{
-                  id: "1.1.1",
-                  title: "Key Concept",
-                  timestamps: "0:60",
-                  description: "Content could not be properly parsed from AI response",
-                  category: "definition"
-                }]
-              }]
-            }]
-          }
-        };
-      }
-    }
-    
+    return await structuringService.structureTranscript(transcript, { onProgress });
   } catch (error) {
     console.error('Structuring error:', error);
     throw error;
   }
 }
 
-// Convert structured data to graph nodes and edges
-function convertToGraphData(structuredData, duration) {
+// Convert structured data to graph nodes and edges. The only implementation:
+// the browser fallback gets its graph from POST /api/structure-transcript.
+function convertToGraphData(structuredData) {
   const nodes = [];
   const edges = [];
   let nodeId = 0;
@@ -305,6 +142,7 @@ function convertToGraphData(structuredData, duration) {
   const processLayer = (layer, parentId, depth = 0) => {
     layer.forEach((item, index) => {
       const id = `node_${nodeId++}`;
+      const intervals = extractIntervalsFromBreakdown(structuredData.detailed_breakdown, item.id);
       const node = {
         id,
         label: item.title,
@@ -312,7 +150,8 @@ function convertToGraphData(structuredData, duration) {
         y: Math.random() * 300 + 100,
         size: Math.max(12, 20 - depth * 3),
         color: `hsl(${depth * 60 + index * 30}, 70%, 60%)`,
-        timestamps: extractTimestampsFromBreakdown(structuredData.detailed_breakdown, item.id),
+        timestamps: intervals.map(interval => interval.start),
+        intervals,
         description: getDescriptionFromBreakdown(structuredData.detailed_breakdown, item.id),
         category: getCategoryFromBreakdown(structuredData.detailed_breakdown, item.id),
         isActive: false
@@ -347,19 +186,18 @@ function convertToGraphData(structuredData, duration) {
   return { nodes, edges };
 }
 
-function extractTimestampsFromBreakdown(breakdown, itemId) {
-  const timestamps = [];
+// Time spans ({ start, end } in seconds) of the breakdown segments for an item and its children
+function extractIntervalsFromBreakdown(breakdown, itemId) {
+  const intervals = [];
   breakdown.forEach(segment => {
     if (segment.id === itemId || segment.id.startsWith(itemId + '.')) {
-      const timeMatch = segment.timestamp?.match(/(\d+):(\d+)/);
-      if (timeMatch) {
-        const minutes = parseInt(timeMatch[1]);
-        const seconds = parseInt(timeMatch[2]);
-        timestamps.push(minutes * 60 + seconds);
+      const interval = parseTimestampRange(segment.timestamp);
+      if (interval) {
+        intervals.push(interval);
       }
     }
   });
-  return timestamps;
+  return intervals;
 }
 
 function getDescriptionFromBreakdown(breakdown, itemId) {
@@ -379,31 +217,8 @@ function getCategoryFromBreakdown(breakdown, itemId) {
   }
 }
 
-function createTranscriptSegments(transcript, duration) {
-  const segments = [];
-  const lines = transcript.split('\n').filter(line => line.trim());
-  
-  let currentTime = 0;
-  const segmentDuration = duration / lines.length;
-  
-  lines.forEach((line, index) => {
-    const start = currentTime;
-    const end = Math.min(currentTime + segmentDuration, duration);
-    
-    segments.push({
-      start,
-      end,
-      text: line.replace(/\[\d+:\d+\]/g, '').trim()
-    });
-    
-    currentTime = end;
-  });
-  
-  return segments;
-}
-
-// Get video duration
-function getVideoDuration(videoPath) {
+// Get video duration and the embedded subtitle streams that hold text
+function probeVideo(videoPath) {
   return new Promise((resolve, reject) => {
     // Use ffprobe-static for better compatibility
     const ffprobe = require('ffprobe-static');
@@ -413,210 +228,583 @@ function getVideoDuration(videoPath) {
       if (err) {
         console.error('FFprobe error:', err);
         // Fallback to a default duration if ffprobe fails
-        resolve(180); // 3 minutes default
+        resolve({ duration: 180, subtitleStreams: [] }); // 3 minutes default
       } else {
-        resolve(metadata.format.duration);
+        const subtitleStreams = (metadata.streams || [])
+          .filter(stream => stream.codec_type === 'subtitle' && isTextSubtitleCodec(stream.codec_name))
+          .map(stream => ({
+            index: stream.index,
+            codec: stream.codec_name,
+            language: stream.tags?.language || null,
+            isDefault: stream.disposition?.default === 1
+          }));
+        resolve({ duration: metadata.format.duration, subtitleStreams });
       }
     });
   });
 }
 
-// Save transcript to transcript.txt with backup
-async function saveTranscriptToFile(transcript, originalFilename) {
+// Write one embedded subtitle stream out as WebVTT
+function extractSubtitleStream(videoPath, streamIndex, outputPath) {
+  return new Promise((resolve, reject) => {
+    ffmpeg(videoPath)
+      .outputOptions(['-map', `0:${streamIndex}`])
+      .toFormat('webvtt')
+      .on('end', () => resolve(outputPath))
+      .on('error', reject)
+      .save(outputPath);
+  });
+}
+
+// Captions to use instead of transcribing: the subtitle file uploaded with the
+// video, or else the default (or first) text subtitle stream in the video.
+// Returns { cues, source } or null when there are none.
+async function loadCaptions(videoPath, subtitlesPath, subtitleStreams, progress) {
+  if (subtitlesPath) {
+    const cues = parseSubtitles(fs.readFileSync(subtitlesPath, 'utf8'));
+    if (cues.length === 0) {
+      throw new Error('The uploaded subtitle file has no cues');
+    }
+    return { cues, source: 'uploaded file' };
+  }
+
+  const stream = subtitleStreams.find(candidate => candidate.isDefault) || subtitleStreams[0];
+  if (!stream) return null;
+
+  const outputPath = videoPath.replace(path.extname(videoPath), `.${stream.index}.vtt`);
   try {
-    const transcriptPath = path.join(__dirname, '..', 'transcript.txt');
-    const backupPath = path.join(__dirname, '..', 'transcript_backup.txt');
-    
-    // Create backup of existing transcript if it exists
-    if (fs.existsSync(transcriptPath)) {
-      const existingContent = fs.readFileSync(transcriptPath, 'utf8');
-      fs.writeFileSync(backupPath, existingContent);
-      console.log('Backed up existing transcript to transcript_backup.txt');
+    await extractSubtitleStream(videoPath, stream.index, outputPath);
+    const cues = parseSubtitles(fs.readFileSync(outputPath, 'utf8'));
+    if (cues.length === 0) return null;
+    return { cues, source: `embedded ${stream.codec} stream${stream.language ? ` (${stream.language})` : ''}` };
+  } catch (error) {
+    // Not fatal: the audio can still be transcribed
+    progress.log(`Could not read embedded subtitles: ${error.message}`, 'error');
+    return null;
+  } finally {
+    if (fs.existsSync(outputPath)) {
+      fs.unlinkSync(outputPath);
     }
-    
-    // Add header with video information
-    const timestamp = new Date().toISOString();
-    const header = `# Transcript from: ${originalFilename}\n# Generated on: ${timestamp}\n# ============================================\n\n`;
-    
-    // Write new transcript
-    fs.writeFileSync(transcriptPath, header + transcript);
-    console.log('Transcript saved to transcript.txt');
-    
+  }
+}
+
+// Which providers produced a version, kept with it so versions can be told apart
+// `transcribed` is false for restructures; `captions` names the subtitles used instead of transcribing.
+function describeProviders({ transcribed = true, captions = null, edgeInference = null } = {}) {
+  const details = {
+    structuring: `${structuringService.provider.name} (${structuringService.provider.model})`
+  };
+  if (captions) {
+    details.transcription = `subtitles (${captions})`;
+  } else if (transcribed) {
+    details.transcription = `${transcriptionProvider.name} (${transcriptionProvider.model})`;
+  }
+  if (edgeInference) {
+    details.edgeInference = edgeInference;
+  }
+  return details;
+}
+
+// Steps shared by every pipeline: structure the transcript, then build the graph
+// and segments. Re-runs pass `useCache: false` to get a fresh result, which
+// then replaces the cached one. Subtitle imports pass their cues as
+// `transcriptSegments`, which have better times than the markers give.
+async function buildVideoData(transcript, duration, progress, { useCache = true, transcriptSegments = null } = {}) {
+  const transcriptHash = stageCache.sha256(transcript);
+  progress.start('structure', 'Structuring transcript...');
+  let structuredData = useCache ? stageCache.structured.get(transcriptHash, structuringService.version) : undefined;
+  if (structuredData) {
+    progress.log('Reusing cached structured transcript');
+  } else {
+    structuredData = await structureTranscript(transcript, (percent, text) => {
+      progress.update('structure', percent, text);
+      progress.log(text);
+    });
+    stageCache.structured.set(transcriptHash, structuringService.version, structuredData);
+  }
+  progress.complete('structure', `Structured into ${structuredData.hierarchical_structure?.layer_1?.length || 0} main topics`);
+
+  progress.start('graph', 'Generating knowledge graph...');
+  const { nodes, edges } = convertToGraphData(structuredData);
+  const inferred = await edgeInference.infer(nodes, edges, { useCache });
+  const segments = transcriptSegments || createTranscriptSegments(transcript, duration);
+  progress.complete('graph', `Generated ${nodes.length} concepts and ${edges.length + inferred.edges.length} connections (${inferred.edges.length} inferred)`);
+
+  return {
+    structuredData,
+    nodes,
+    edges: [...edges, ...inferred.edges],
+    transcriptSegments: segments,
+    edgeInference: inferred.method
+  };
+}
+
+// Response shape shared by all pipelines (the job's result). `duplicate` is
+// set when an upload turned out to be a video that's already in the library.
+function toJobResult(video, duplicate = false) {
+  return {
+    videoId: video.id,
+    duplicate,
+    version: video.version,
+    title: video.title,
+    duration: video.duration,
+    mediaUrl: getMediaUrl(video),
+    transcript: video.transcriptSegments,
+    structuredData: video.structuredData,
+    nodes: video.nodes,
+    edges: video.edges
+  };
+}
+
+// What a finished job keeps: the video it produced, which toJobDetails reads
+// back from the library. The transcript and graph aren't copied into jobs.json.
+function toJobReference(video, duplicate = false) {
+  return { videoId: video.id, version: video.version, duplicate };
+}
+
+// A job with its result filled in from the library. The result is null if
+// the video has been deleted since.
+function toJobDetails(job) {
+  const summary = jobQueue.toJobSummary(job);
+  const video = summary.result ? library.getVideo(summary.result.videoId) : null;
+  return { ...summary, result: video ? toJobResult(video, summary.result.duplicate) : null };
+}
+
+// Extract the audio track, or reuse the one cached for the same file.
+// Returns { audioPath, extracted }; only an extracted file needs cleaning up.
+async function extractAudio(videoPath, audioPath, contentHash, progress) {
+  progress.start('convert', 'Converting video to audio...');
+  const cached = contentHash ? stageCache.audio.get(contentHash, AUDIO_VERSION) : null;
+  if (cached) {
+    progress.complete('convert', 'Reusing cached audio track');
+    return { audioPath: cached, extracted: false };
+  }
+
+  await convertVideoToAudio(videoPath, audioPath, (percent) => progress.update('convert', percent));
+  if (contentHash) {
+    stageCache.audio.set(contentHash, AUDIO_VERSION, audioPath);
+  }
+  progress.complete('convert', 'Audio track extracted');
+  return { audioPath, extracted: true };
+}
+
+// Transcribe the audio and cache the transcript for the file it came from
+async function transcribeAndCache(audioPath, contentHash, originalFilename, progress) {
+  progress.start('transcribe', `Transcribing audio with ${transcriptionProvider.name} (${transcriptionProvider.model})...`);
+  const transcript = await transcribeAudio(audioPath, { originalFilename });
+  if (contentHash) {
+    stageCache.transcripts.set(contentHash, transcriptionVersion(), transcript);
+  }
+  progress.complete('transcribe', `Transcript received (${transcript.length} characters)`);
+  return transcript;
+}
+
+// Run the full pipeline for an uploaded video. Identical files are found by
+// content hash: one already in the library is returned as is, and cached
+// stages from an earlier upload are reused. Videos with captions (an uploaded
+// .srt/.vtt file or an embedded text subtitle stream) skip audio transcription.
+async function processUploadJob(job, report) {
+  const { videoPath, originalFilename, subtitlesPath } = job.input;
+  const progress = createProgressTracker(report, PIPELINE_STAGES, job.logs);
+
+  if (!fs.existsSync(videoPath)) {
+    throw new Error('Uploaded video is no longer available');
+  }
+  if (subtitlesPath && !fs.existsSync(subtitlesPath)) {
+    throw new Error('Uploaded subtitle file is no longer available');
+  }
+
+  progress.log(`Processing video: ${originalFilename}`);
+
+  // Jobs queued before uploads were hashed don't carry the hash
+  const contentHash = job.input.contentHash || await stageCache.hashFile(videoPath);
+
+  // An identical upload may have finished while this one was queued
+  const existing = library.findVideoByContentHash(contentHash);
+  if (existing) {
+    fs.unlinkSync(videoPath);
+    if (subtitlesPath) fs.unlinkSync(subtitlesPath);
+    progress.log(`Same file as library video ${existing.id}; nothing to process`);
+    return toJobReference(existing, true);
+  }
+
+  let audio = null;
+  try {
+    // Step 1: Get video duration and look for subtitles
+    progress.start('probe', 'Reading video metadata...');
+    const { duration, subtitleStreams } = await probeVideo(videoPath);
+    const captions = await loadCaptions(videoPath, subtitlesPath, subtitleStreams, progress);
+    progress.complete('probe', `Video duration: ${Math.round(duration)}s` +
+      (captions ? `, ${captions.cues.length} subtitle cues from the ${captions.source}` : ''));
+
+    // Step 2: Convert video to audio, unless there are captions or a cached transcript
+    const cachedTranscript = captions ? undefined : stageCache.transcripts.get(contentHash, transcriptionVersion());
+    if (captions || cachedTranscript) {
+      progress.start('convert');
+      progress.complete('convert', `Skipped: ${captions ? 'using subtitles' : 'transcript is cached'}`);
+    } else {
+      audio = await extractAudio(videoPath, videoPath.replace(path.extname(videoPath), '.mp3'), contentHash, progress);
+    }
+
+    // Step 3: Transcribe audio
+    let transcript = cachedTranscript;
+    if (captions) {
+      transcript = cuesToTranscript(captions.cues);
+      progress.start('transcribe');
+      progress.complete('transcribe', `Using subtitles from the ${captions.source} (${transcript.length} characters)`);
+    } else if (transcript) {
+      progress.start('transcribe');
+      progress.complete('transcribe', `Reusing cached transcript (${transcript.length} characters)`);
+    } else {
+      transcript = await transcribeAndCache(audio.audioPath, contentHash, originalFilename, progress);
+    }
+
+    // Steps 4-5: Structure transcript, build the graph and transcript segments
+    const data = await buildVideoData(transcript, duration, progress, {
+      transcriptSegments: captions ? captions.cues : null
+    });
+
+    // Step 6: Save everything to the video library
+    progress.start('save', 'Saving results...');
+    const video = library.saveVideo({
+      title: originalFilename.replace(/\.[^/.]+$/, ""),
+      originalFilename,
+      duration,
+      transcript,
+      ...data,
+      details: describeProviders({ captions: captions?.source, edgeInference: data.edgeInference }),
+      mediaPath: videoPath,
+      contentHash
+    });
+    progress.log(`Saved to the video library as ${video.id}`);
+    progress.complete('save', 'Results saved');
+
+    return toJobReference(video);
   } catch (error) {
-    console.error('Error saving transcript:', error);
-    // Don't throw error - transcript saving is not critical for the main functionality
+    progress.log(`Processing failed: ${error.message}`, 'error');
+    throw error;
+  } finally {
+    // Clean up the extracted audio (a copy is cached) and the subtitle upload;
+    // the source video now lives in the library
+    if (audio?.extracted && fs.existsSync(audio.audioPath)) {
+      fs.unlinkSync(audio.audioPath);
+    }
+    if (subtitlesPath && fs.existsSync(subtitlesPath)) {
+      fs.unlinkSync(subtitlesPath);
+    }
   }
 }
 
-// Save structured data and graph data to JSON files
-async function saveStructuredData(structuredData, nodes, edges, originalFilename) {
+// Re-run part of the pipeline for a library video and store the output as a
+// new version. 'restructure' reuses the current transcript; 'retranscribe'
+// starts again from the stored source video.
+async function reprocessVideoJob(job, report) {
+  const { type, videoId } = job.input;
+  const retranscribe = type === 'retranscribe';
+  const stageIds = retranscribe ? ['convert', 'transcribe', 'structure', 'graph', 'save'] : ['structure', 'graph', 'save'];
+  const progress = createProgressTracker(report, PIPELINE_STAGES.filter(stage => stageIds.includes(stage.id)), job.logs);
+
+  const video = library.getVideo(videoId);
+  if (!video) {
+    throw new Error('Video is no longer in the library');
+  }
+
+  progress.log(`${retranscribe ? 'Re-transcribing' : 'Re-structuring'} video: ${video.title}`);
+
+  let audio = null;
   try {
-    const timestamp = new Date().toISOString();
-    const baseFilename = originalFilename.replace(/\.[^/.]+$/, "").replace(/[^a-zA-Z0-9]/g, '_');
-    
-    // Save structured transcript data
-    const structuredPath = path.join(__dirname, '..', `${baseFilename}_structured_transcript.json`);
-    const structuredWithMetadata = {
-      metadata: {
-        source_video: originalFilename,
-        generated_on: timestamp,
-        type: "structured_transcript"
-      },
-      ...structuredData
-    };
-    fs.writeFileSync(structuredPath, JSON.stringify(structuredWithMetadata, null, 2));
-    console.log(`Structured transcript saved to ${baseFilename}_structured_transcript.json`);
-    
-    // Save graph data (nodes and edges)
-    const graphPath = path.join(__dirname, '..', `${baseFilename}_graph_data.json`);
-    const graphData = {
-      metadata: {
-        source_video: originalFilename,
-        generated_on: timestamp,
-        type: "knowledge_graph",
-        node_count: nodes.length,
-        edge_count: edges.length
-      },
-      nodes: nodes,
-      edges: edges
-    };
-    fs.writeFileSync(graphPath, JSON.stringify(graphData, null, 2));
-    console.log(`Graph data saved to ${baseFilename}_graph_data.json`);
-    
+    let transcript = video.transcript;
+    if (retranscribe) {
+      const mediaPath = library.getMediaPath(videoId);
+      if (!mediaPath) {
+        throw new Error('Source video is no longer available');
+      }
+      const audioPath = path.resolve('uploads', `${job.id}.mp3`);
+      fs.mkdirSync(path.dirname(audioPath), { recursive: true });
+
+      // The audio track doesn't change between runs, but the transcript is redone
+      audio = await extractAudio(mediaPath, audioPath, video.contentHash, progress);
+      transcript = await transcribeAndCache(audio.audioPath, video.contentHash, video.originalFilename || video.title, progress);
+    } else if (!transcript) {
+      throw new Error('Video has no transcript to re-structure');
+    }
+
+    const data = await buildVideoData(transcript, video.duration, progress, { useCache: false });
+
+    progress.start('save', 'Saving new version...');
+    // Corrections made by hand outlive the AI output they were made on
+    const edits = library.listGraphEdits(videoId);
+    const edited = edits.length > 0 ? applyGraphEdits(data, edits) : null;
+    if (edited?.skipped.length > 0) {
+      progress.log(`${edited.skipped.length} manual edit(s) no longer apply: ${edited.skipped.map(entry => entry.reason).join('; ')}`);
+    }
+    const updated = library.addVersion(videoId, {
+      reason: type,
+      transcript,
+      ...data,
+      ...(edited && { nodes: edited.nodes, edges: edited.edges }),
+      details: {
+        ...describeProviders({ transcribed: retranscribe, edgeInference: data.edgeInference }),
+        ...(edited && { manualEdits: { applied: edits.length - edited.skipped.length, skipped: edited.skipped.length } }),
+        basedOn: video.version
+      }
+    });
+    if (!updated) {
+      throw new Error('Video was deleted while it was being processed');
+    }
+    progress.complete('save', edited
+      ? `Saved as version ${updated.version} with ${edits.length - edited.skipped.length} manual edit(s)`
+      : `Saved as version ${updated.version}`);
+
+    return toJobReference(updated);
   } catch (error) {
-    console.error('Error saving structured data:', error);
-    // Don't throw error - data saving is not critical for the main functionality
+    progress.log(`Processing failed: ${error.message}`, 'error');
+    throw error;
+  } finally {
+    if (audio?.extracted && fs.existsSync(audio.audioPath)) {
+      fs.unlinkSync(audio.audioPath);
+    }
+  }
+}
+
+// Queue entry point - uploads carry no type, re-runs say which part to redo
+function processVideoJob(job, report) {
+  return job.input.type ? reprocessVideoJob(job, report) : processUploadJob(job, report);
+}
+
+// Check an optional subtitle upload; returns a problem, or null when it's usable
+function validateSubtitleFile(file) {
+  const extension = path.extname(file.originalname).toLowerCase();
+  if (!SUBTITLE_EXTENSIONS.includes(extension)) {
+    return `Subtitles must be a ${SUBTITLE_EXTENSIONS.join(' or ')} file, got "${file.originalname}"`;
+  }
+  if (parseSubtitles(fs.readFileSync(file.path, 'utf8')).length === 0) {
+    return `No subtitle cues found in "${file.originalname}"`;
   }
+  return null;
 }
 
-// Main processing endpoint
-app.post('/api/process-video', upload.single('video'), async (req, res) => {
+// Main processing endpoint - enqueues a job and returns immediately. A file
+// that's already in the library resolves to that video without queueing.
+// An optional `subtitles` file (.srt or .vtt) is used instead of transcribing.
+app.post('/api/process-video', upload.fields([
+  { name: 'video', maxCount: 1 },
+  { name: 'subtitles', maxCount: 1 }
+]), async (req, res) => {
+  const videoFile = req.files?.video?.[0];
+  const subtitleFile = req.files?.subtitles?.[0];
+  const discardUploads = () => [videoFile, subtitleFile]
+    .filter(file => file && fs.existsSync(file.path))
+    .forEach(file => fs.unlinkSync(file.path));
+
   try {
-    if (!req.file) {
+    if (!videoFile) {
+      discardUploads();
       return res.status(400).json({ error: 'No video file uploaded' });
     }
+    const subtitleProblem = subtitleFile && validateSubtitleFile(subtitleFile);
+    if (subtitleProblem) {
+      discardUploads();
+      return res.status(400).json({ error: 'Invalid subtitle file', details: subtitleProblem });
+    }
 
-    const videoPath = req.file.path;
-    const audioPath = videoPath.replace(path.extname(videoPath), '.mp3');
-    
-    console.log('Processing video:', req.file.originalname);
-    
-    // Step 1: Convert video to audio
-    console.log('Converting video to audio...');
-    await convertVideoToAudio(videoPath, audioPath);
-    
-    // Step 2: Get video duration
-    const duration = await getVideoDuration(videoPath);
-    
-    // Step 3: Transcribe audio
-    console.log('Transcribing audio...');
-    const transcript = await transcribeAudio(audioPath);
-    
-    // Step 4: Structure transcript
-    console.log('Structuring transcript...');
-    const structuredData = await structureTranscript(transcript);
-    
-    // Step 5: Convert to graph data
-    const { nodes, edges } = convertToGraphData(structuredData, duration);
-    
-    // Step 6: Create transcript segments
-    const transcriptSegments = createTranscriptSegments(transcript, duration);
-    
-    // Step 7: Save transcript to transcript.txt (with backup)
-    console.log('Saving transcript to transcript.txt...');
-    await saveTranscriptToFile(transcript, req.file.originalname);
-    
-    // Step 8: Save structured data and graph data to JSON files
-    console.log('Saving structured data and graph data...');
-    await saveStructuredData(structuredData, nodes, edges, req.file.originalname);
-    
-    // Clean up temporary files
-    fs.unlinkSync(videoPath);
-    fs.unlinkSync(audioPath);
-    
-    // Return processed data
-    res.json({
+    const videoPath = path.resolve(videoFile.path);
+    const contentHash = await stageCache.hashFile(videoPath);
+    const existing = library.findVideoByContentHash(contentHash);
+    if (existing) {
+      discardUploads();
+      console.log(`${videoFile.originalname} is already in the library as ${existing.id}`);
+      return res.json({
+        success: true,
+        duplicate: true,
+        videoId: existing.id,
+        result: toJobResult(existing, true)
+      });
+    }
+
+    const job = jobQueue.createJob({
+      videoPath,
+      originalFilename: videoFile.originalname,
+      subtitlesPath: subtitleFile ? path.resolve(subtitleFile.path) : null,
+      contentHash
+    });
+
+    console.log(`Queued job ${job.id} for ${videoFile.originalname}${subtitleFile ? ` with subtitles ${subtitleFile.originalname}` : ''}`);
+
+    res.status(202).json({
       success: true,
-      data: {
-        title: req.file.originalname.replace(/\.[^/.]+$/, ""),
-        duration,
-        transcript: transcriptSegments,
-        structuredData,
-        nodes,
-        edges
-      }
+      jobId: job.id,
+      job: jobQueue.toJobSummary(job)
     });
-    
+
   } catch (error) {
-    console.error('Processing error:', error);
+    discardUploads();
+    console.error('Error queuing video:', error);
     res.status(500).json({ 
-      error: 'Video processing failed', 
+      error: 'Failed to queue video for processing', 
       details: error.message 
     });
   }
 });
 
-// Get all videos endpoint
-app.get('/api/videos', (req, res) => {
+// List processing jobs, most recent first
+app.get('/api/jobs', (req, res) => {
+  res.json({
+    success: true,
+    jobs: jobQueue.listJobs().map(job => jobQueue.toJobSummary(job, false))
+  });
+});
+
+// Stream job progress as server-sent events until the job finishes
+app.get('/api/jobs/:id/events', (req, res) => {
+  const job = jobQueue.getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+
+  // The first event carries the whole log, later ones only the lines added
+  // since (`newLogs`)
+  let lastSeq = null;
+  const send = (updated) => {
+    const { logs = [], ...summary } = jobQueue.toJobSummary(updated, false);
+    const event = lastSeq === null
+      ? { ...summary, logs }
+      : { ...summary, newLogs: logs.filter(entry => entry.seq > lastSeq) };
+    lastSeq = logs.length > 0 ? logs[logs.length - 1].seq ?? 0 : 0;
+    res.write(`event: progress\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  const onUpdate = (updated) => {
+    if (updated.id !== job.id) return;
+    send(updated);
+    if (jobQueue.isFinished(updated)) {
+      cleanup();
+      res.end();
+    }
+  };
+
+  // Keep proxies from closing an idle connection during long Gemini calls
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    jobQueue.events.off('update', onUpdate);
+  };
+
+  send(job);
+  if (jobQueue.isFinished(job)) {
+    cleanup();
+    return res.end();
+  }
+
+  jobQueue.events.on('update', onUpdate);
+  req.on('close', cleanup);
+});
+
+// Get the status (and result, once complete) of a single job
+app.get('/api/jobs/:id', (req, res) => {
+  const job = jobQueue.getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.json({
+    success: true,
+    job: toJobDetails(job)
+  });
+});
+
+// Structure a transcript without running the rest of the pipeline
+app.post('/api/structure-transcript', async (req, res) => {
   try {
-    const uploadsDir = path.join(__dirname, 'uploads');
-    const files = fs.readdirSync(uploadsDir);
-    
-    const videos = [];
-    const processedVideos = [];
-    
-    // Get all video files
-    files.forEach(file => {
-      if (file.endsWith('.mp4') || file.endsWith('.webm') || file.endsWith('.mov')) {
-        const videoId = file.split('-')[1]; // Extract ID from filename
-        videos.push({
-          id: videoId,
-          filename: file,
-          path: `/uploads/${file}`,
-          type: 'video'
-        });
-      }
+    const { transcript, lectureInfo } = req.body || {};
+    if (!transcript || typeof transcript !== 'string') {
+      return res.status(400).json({ error: 'Missing transcript' });
+    }
+
+    const structuredData = await structuringService.structureTranscript(transcript, { lectureInfo });
+    const { nodes, edges } = convertToGraphData(structuredData);
+    res.json({ success: true, data: structuredData, nodes, edges });
+
+  } catch (error) {
+    console.error('Structuring error:', error);
+    // Responses that never passed validation are the model's fault, not the server's
+    res.status(error.problems ? 422 : 500).json({ 
+      error: 'Transcript structuring failed', 
+      details: error.message,
+      problems: error.problems
     });
-    
-    // Get all JSON data files from root directory
-    const rootDir = path.join(__dirname, '..');
-    const rootFiles = fs.readdirSync(rootDir);
-    
-    rootFiles.forEach(file => {
-      if (file.includes('_graph_data.json')) {
-        try {
-          const filePath = path.join(rootDir, file);
-          const fileContent = fs.readFileSync(filePath, 'utf8');
-          const data = JSON.parse(fileContent);
-          const videoId = file.split('_')[0] + '_' + file.split('_')[1] + '_' + file.split('_')[2];
-          processedVideos.push({
-            id: videoId,
-            filename: file,
-            title: data.metadata?.source_video || file.replace('_graph_data.json', ''),
-            nodes: data.nodes || [],
-            edges: data.edges || [],
-            metadata: data.metadata || {}
-          });
-        } catch (error) {
-          console.error(`Error reading ${file}:`, error.message);
-          // Add a placeholder entry for corrupted files
-          const videoId = file.split('_')[0] + '_' + file.split('_')[1] + '_' + file.split('_')[2];
-          processedVideos.push({
-            id: videoId,
-            filename: file,
-            title: file.replace('_graph_data.json', ''),
-            nodes: [],
-            edges: [],
-            metadata: { error: 'Corrupted file', source_video: file.replace('_graph_data.json', '') }
-          });
+  }
+});
+
+const LECTURE_INFO_FIELDS = ['course', 'lecture_number', 'instructor', 'title'];
+
+// Streaming URL of a library video's source file, or null if it wasn't kept
+function getMediaUrl(video) {
+  return video.hasMedia ? `/api/videos/${video.id}/media` : null;
+}
+
+// Public view of a library video: adds the streaming URL when the source file
+// was kept, and the WebVTT captions and chapters tracks
+function toVideoResponse(video) {
+  return {
+    ...video,
+    mediaUrl: getMediaUrl(video),
+    captionsUrl: `/api/videos/${video.id}/captions.vtt`,
+    chaptersUrl: `/api/videos/${video.id}/chapters.vtt`
+  };
+}
+
+// Check a PATCH body; returns a list of problems, empty when it's valid
+function validateVideoChanges({ title, lectureInfo }) {
+  const problems = [];
+  const isText = (value) => typeof value === 'string' && value.trim().length > 0;
+
+  if (title === undefined && lectureInfo === undefined) {
+    problems.push('Nothing to update: send "title" and/or "lectureInfo"');
+  }
+  if (title !== undefined && !isText(title)) {
+    problems.push('"title" must be a non-empty string');
+  }
+  if (lectureInfo !== undefined) {
+    if (!lectureInfo || typeof lectureInfo !== 'object' || Array.isArray(lectureInfo)) {
+      problems.push('"lectureInfo" must be an object');
+    } else {
+      Object.entries(lectureInfo).forEach(([key, value]) => {
+        if (!LECTURE_INFO_FIELDS.includes(key)) {
+          problems.push(`"lectureInfo.${key}" is not a lecture_info field (expected ${LECTURE_INFO_FIELDS.join(', ')})`);
+        } else if (key === 'lecture_number' ? !(typeof value === 'number' || isText(value)) : !isText(value)) {
+          problems.push(`"lectureInfo.${key}" must be a non-empty ${key === 'lecture_number' ? 'string or number' : 'string'}`);
         }
-      }
-    });
-    
+      });
+    }
+  }
+
+  return problems;
+}
+
+// List videos - a page of summaries, newest first
+app.get('/api/videos', (req, res) => {
+  try {
+    const page = Math.max(1, parseInt(req.query.page) || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(req.query.pageSize) || 20));
+    const { videos, total } = library.listVideos({ limit: pageSize, offset: (page - 1) * pageSize });
+
     res.json({
       success: true,
-      videos,
-      processedVideos
+      videos: videos.map(toVideoResponse),
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize)
+      }
     });
   } catch (error) {
     console.error('Error fetching videos:', error);
@@ -627,11 +815,659 @@ app.get('/api/videos', (req, res) => {
   }
 });
 
+// Full-text search over the transcripts, breakdown details and concepts of every video
+app.get('/api/search', (req, res) => {
+  try {
+    const page = Math.max(1, parseInt(req.query.page) || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(req.query.pageSize) || 20));
+    const results = library.search(req.query.q, { limit: pageSize, offset: (page - 1) * pageSize });
+    if (!results) {
+      return res.status(400).json({ error: 'Search query must contain at least one letter or number' });
+    }
+
+    res.json({
+      success: true,
+      query: req.query.q,
+      hits: results.hits,
+      pagination: {
+        page,
+        pageSize,
+        total: results.total,
+        totalPages: Math.ceil(results.total / pageSize)
+      }
+    });
+  } catch (error) {
+    console.error('Error searching videos:', error);
+    res.status(500).json({
+      error: 'Failed to search videos',
+      details: error.message
+    });
+  }
+});
+
+// Full bundle for one video: metadata, transcript segments, structured transcript and graph
+app.get('/api/videos/:id', (req, res) => {
+  try {
+    const video = library.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    res.json({ success: true, video: toVideoResponse(video) });
+  } catch (error) {
+    console.error('Error fetching video:', error);
+    res.status(500).json({
+      error: 'Failed to fetch video',
+      details: error.message
+    });
+  }
+});
+
+// Edit the title and/or lecture_info
+app.patch('/api/videos/:id', (req, res) => {
+  try {
+    const { title, lectureInfo } = req.body || {};
+    const problems = validateVideoChanges({ title, lectureInfo });
+    if (problems.length > 0) {
+      return res.status(400).json({ error: 'Invalid video changes', details: problems.join('; ') });
+    }
+
+    const video = library.updateVideo(req.params.id, {
+      title: title?.trim(),
+      lectureInfo
+    });
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    res.json({ success: true, video: toVideoResponse(video) });
+  } catch (error) {
+    console.error('Error updating video:', error);
+    res.status(500).json({
+      error: 'Failed to update video',
+      details: error.message
+    });
+  }
+});
+
+// Stage cache keys of what was derived from a video: its source file (audio,
+// transcript) and the transcript of every version (structured output)
+function cachedInputHashes(video) {
+  const transcripts = library.listVersions(video.id)
+    .filter(version => version.hasTranscript)
+    .map(version => library.getVersion(video.id, version.version).transcript);
+  return [video.contentHash, ...[...new Set(transcripts)].map(transcript => stageCache.sha256(transcript))]
+    .filter(Boolean);
+}
+
+// Remove a video with its source file and everything derived from it
+app.delete('/api/videos/:id', (req, res) => {
+  try {
+    const video = library.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    const inputHashes = cachedInputHashes(video);
+    library.deleteVideo(video.id);
+    stageCache.invalidate(inputHashes);
+    jobQueue.forgetVideo(video.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting video:', error);
+    res.status(500).json({
+      error: 'Failed to delete video',
+      details: error.message
+    });
+  }
+});
+
+// Queue a re-run of part of the pipeline for a library video. The result is
+// stored as a new version; the previous ones stay available for rollback.
+function queueReprocessing(type) {
+  return (req, res) => {
+    try {
+      const video = library.getVideo(req.params.id);
+      if (!video) {
+        return res.status(404).json({ error: 'Video not found' });
+      }
+      if (type === 'restructure' && !video.transcript) {
+        return res.status(409).json({ error: 'Video has no transcript to re-structure' });
+      }
+      if (type === 'retranscribe' && !video.hasMedia) {
+        return res.status(409).json({ error: 'Source video is not available to re-transcribe' });
+      }
+
+      const job = jobQueue.createJob({
+        type,
+        videoId: video.id,
+        originalFilename: video.originalFilename || video.title
+      });
+
+      console.log(`Queued ${type} job ${job.id} for video ${video.id}`);
+
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        job: jobQueue.toJobSummary(job)
+      });
+    } catch (error) {
+      console.error(`Error queuing ${type}:`, error);
+      res.status(500).json({
+        error: `Failed to queue ${type}`,
+        details: error.message
+      });
+    }
+  };
+}
+
+app.post('/api/videos/:id/restructure', queueReprocessing('restructure'));
+app.post('/api/videos/:id/retranscribe', queueReprocessing('retranscribe'));
+
+// Version history, newest first, without the transcript and graph payloads
+app.get('/api/videos/:id/versions', (req, res) => {
+  try {
+    if (!library.getVideo(req.params.id)) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    res.json({ success: true, versions: library.listVersions(req.params.id) });
+  } catch (error) {
+    console.error('Error fetching versions:', error);
+    res.status(500).json({
+      error: 'Failed to fetch versions',
+      details: error.message
+    });
+  }
+});
+
+// One complete version, for comparing with the current one
+app.get('/api/videos/:id/versions/:version', (req, res) => {
+  try {
+    const version = library.getVersion(req.params.id, parseInt(req.params.version));
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+    res.json({ success: true, version });
+  } catch (error) {
+    console.error('Error fetching version:', error);
+    res.status(500).json({
+      error: 'Failed to fetch version',
+      details: error.message
+    });
+  }
+});
+
+// Compare the graphs of two versions. `to` defaults to the current version and
+// `from` to the one before it.
+app.get('/api/videos/:id/diff', (req, res) => {
+  try {
+    const video = library.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+
+    const toVersion = req.query.to !== undefined ? parseInt(req.query.to) : video.version;
+    const fromVersion = req.query.from !== undefined ? parseInt(req.query.from) : toVersion - 1;
+    const from = library.getVersion(video.id, fromVersion);
+    const to = library.getVersion(video.id, toVersion);
+    if (!from || !to) {
+      return res.status(404).json({
+        error: 'Version not found',
+        details: `Version ${from ? toVersion : fromVersion} does not exist`
+      });
+    }
+
+    res.json({
+      success: true,
+      from: { version: from.version, reason: from.reason, createdAt: from.createdAt },
+      to: { version: to.version, reason: to.reason, createdAt: to.createdAt },
+      ...diffGraphs(from, to)
+    });
+  } catch (error) {
+    console.error('Error comparing versions:', error);
+    res.status(500).json({
+      error: 'Failed to compare versions',
+      details: error.message
+    });
+  }
+});
+
+// Roll back to an earlier version (or forward again) by making it current
+app.post('/api/videos/:id/versions/:version/restore', (req, res) => {
+  try {
+    const video = library.setCurrentVersion(req.params.id, parseInt(req.params.version));
+    if (!video) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+    res.json({ success: true, video: toVideoResponse(video) });
+  } catch (error) {
+    console.error('Error restoring version:', error);
+    res.status(500).json({
+      error: 'Failed to restore version',
+      details: error.message
+    });
+  }
+});
+
+// Stream a library video's source file. sendFile handles Range requests
+// (206 Partial Content), so the player can seek without downloading everything.
+app.get('/api/videos/:id/media', (req, res) => {
+  const mediaPath = library.getMediaPath(req.params.id);
+  if (!mediaPath) {
+    return res.status(404).json({ error: 'Video media not found' });
+  }
+
+  res.sendFile(mediaPath, { acceptRanges: true }, (error) => {
+    if (error && !res.headersSent) {
+      console.error('Error streaming video:', error);
+      res.status(error.status || 500).json({
+        error: 'Failed to stream video',
+        details: error.message
+      });
+    }
+  });
+});
+
+// WebVTT tracks for the player, built from the current version: captions from
+// the transcript segments, chapters from the topic hierarchy
+function sendWebVTT(res, cues, name) {
+  res.type('text/vtt');
+  res.set('Content-Disposition', `inline; filename="${name}.vtt"`);
+  res.send(toWebVTT(cues));
+}
+
+app.get('/api/videos/:id/captions.vtt', (req, res) => {
+  try {
+    const video = library.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    sendWebVTT(res, buildCaptionCues(video.transcriptSegments), 'captions');
+  } catch (error) {
+    console.error('Error building captions:', error);
+    res.status(500).json({
+      error: 'Failed to build captions',
+      details: error.message
+    });
+  }
+});
+
+app.get('/api/videos/:id/chapters.vtt', (req, res) => {
+  try {
+    const video = library.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    sendWebVTT(res, buildChapterCues(video.structuredData, video.duration), 'chapters');
+  } catch (error) {
+    console.error('Error building chapters:', error);
+    res.status(500).json({
+      error: 'Failed to build chapters',
+      details: error.message
+    });
+  }
+});
+
+// Send a graph as a download in the ?format= the request names
+function sendGraphExport(req, res, graph) {
+  const format = String(req.query.format || '').toLowerCase();
+  if (!GRAPH_EXPORT_FORMATS[format]) {
+    return res.status(400).json({
+      error: 'Unsupported graph format',
+      details: `Expected ?format= one of ${Object.keys(GRAPH_EXPORT_FORMATS).join(', ')}`
+    });
+  }
+  const { body, contentType, fileName } = exportGraph(graph, format);
+  res.type(contentType);
+  res.set('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(body);
+}
+
+// The current version's graph in another format: graphml, gexf, dot, mermaid or jsonld
+app.get('/api/videos/:id/graph', (req, res) => {
+  try {
+    const video = library.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    sendGraphExport(req, res, { id: video.id, title: video.title, nodes: video.nodes, edges: video.edges });
+  } catch (error) {
+    console.error('Error exporting graph:', error);
+    res.status(500).json({
+      error: 'Failed to export graph',
+      details: error.message
+    });
+  }
+});
+
+// A graph import request: { content, format?, fileName?, videoId?, resolutions? }.
+// Returns the parsed file and, with a videoId, the lecture to merge it into
+// and the merge plan. Throws GraphImportError for an unreadable file.
+function prepareGraphImport(body) {
+  const { content, format, fileName = '', videoId, resolutions } = body || {};
+  const parsed = parseGraph(content, { format, fileName });
+  const describe = `${fileName || 'graph'} (${parsed.format})`;
+  if (!videoId) {
+    return { parsed, describe, video: null, plan: null };
+  }
+  const video = library.getVideo(videoId);
+  const plan = video && planMerge(video, parsed, resolutions && typeof resolutions === 'object' ? resolutions : {});
+  return { parsed, describe, video, plan };
+}
+
+// Unreadable files are the client's fault; anything else is ours
+function handleGraphImportError(res, error, message) {
+  if (error instanceof GraphImportError) {
+    return res.status(400).json({ error: 'Invalid graph file', details: error.message });
+  }
+  console.error('Graph import error:', error);
+  res.status(500).json({
+    error: message,
+    details: error.message
+  });
+}
+
+// What importing a concept map would do: its size and, when merging into a
+// lecture (videoId), the matched and added concepts and the conflicts
+app.post('/api/graph-import/preview', (req, res) => {
+  try {
+    const { parsed, video, plan } = prepareGraphImport(req.body);
+    if (req.body.videoId && !video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    res.json({
+      success: true,
+      format: parsed.format,
+      nodeCount: parsed.nodes.length,
+      edgeCount: parsed.edges.length,
+      warnings: parsed.warnings,
+      merge: plan ? plan.summary : null
+    });
+  } catch (error) {
+    handleGraphImportError(res, error, 'Failed to preview graph import');
+  }
+});
+
+// Import a concept map: as a new curriculum graph, or with a videoId merged
+// into that lecture's graph as a new version, applying `resolutions` to the
+// conflicts the preview listed. A merge is saved as manual graph edits, so
+// re-structuring or re-transcribing the lecture applies it again.
+app.post('/api/graph-import', (req, res) => {
+  try {
+    const { parsed, describe, video, plan } = prepareGraphImport(req.body);
+    const { title, fileName } = req.body;
+
+    if (req.body.videoId) {
+      if (!video) {
+        return res.status(404).json({ error: 'Video not found' });
+      }
+      const mergeEdits = toMergeEdits(video, plan);
+      if (mergeEdits.length === 0) {
+        console.log(`Nothing in ${describe} to merge into ${video.id}`);
+        return res.json({ success: true, video: toVideoResponse(video), skipped: [] });
+      }
+      const { edits, problems } = parseGraphEdits(mergeEdits, { maxEdits: Infinity });
+      if (problems) {
+        return res.status(400).json({ error: 'Invalid graph file', details: problems.join('; ') });
+      }
+      const { nodes, edges, skipped } = applyGraphEdits(video, edits);
+      const applied = edits.filter((_, index) => !skipped.some(entry => entry.index === index));
+      const updated = library.saveGraphEdits(video.id, applied, { nodes, edges }, {
+        reason: 'import',
+        details: { imported: describe }
+      });
+      console.log(`Merged ${describe} into ${video.id} as version ${updated.version} (${applied.length} graph edit(s))`);
+      return res.json({ success: true, video: toVideoResponse(updated), skipped });
+    }
+
+    const { nodes, edges } = toCurriculumGraph(parsed);
+    const created = library.saveVideo({
+      title: (typeof title === 'string' && title.trim()) || (fileName || '').replace(/\.[^/.]+$/, '') || 'Curriculum',
+      originalFilename: fileName || null,
+      structuredData: null,
+      nodes,
+      edges,
+      source: 'curriculum',
+      details: { imported: describe }
+    });
+    console.log(`Imported ${describe} as curriculum graph ${created.id}`);
+    res.status(201).json({ success: true, video: toVideoResponse(created) });
+  } catch (error) {
+    handleGraphImportError(res, error, 'Failed to import graph');
+  }
+});
+
+// The manual edits made to a video's graph, oldest first
+app.get('/api/videos/:id/edits', (req, res) => {
+  try {
+    if (!library.getVideo(req.params.id)) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    res.json({ success: true, edits: library.listGraphEdits(req.params.id) });
+  } catch (error) {
+    console.error('Error fetching graph edits:', error);
+    res.status(500).json({
+      error: 'Failed to fetch graph edits',
+      details: error.message
+    });
+  }
+});
+
+// Apply manual edits ({ edits, baseVersion }) to the current graph and save
+// the result as a new version. The edits are also logged, so re-structuring
+// or re-transcribing applies them again. baseVersion is the version they were
+// made on; if the video has moved on since, nothing is saved (409).
+app.post('/api/videos/:id/edits', (req, res) => {
+  try {
+    const { edits: body, baseVersion } = req.body || {};
+    const { edits, problems } = parseGraphEdits(body);
+    if (problems) {
+      return res.status(400).json({ error: 'Invalid graph edits', details: problems.join('; ') });
+    }
+
+    const video = library.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    if (baseVersion !== undefined && baseVersion !== video.version) {
+      return res.status(409).json({
+        error: 'Video has changed',
+        details: `The edits were made on version ${baseVersion}, but the video is now at version ${video.version}`
+      });
+    }
+
+    // Hand-added nodes keep the same id whenever the log is replayed
+    edits.forEach(edit => {
+      if (edit.op === 'addNode' && !edit.node.id) edit.node.id = createEditNodeId();
+    });
+    const { nodes, edges, skipped } = applyGraphEdits(video, edits);
+    const applied = edits.filter((_, index) => !skipped.some(entry => entry.index === index));
+    if (applied.length === 0) {
+      return res.status(400).json({ error: 'Invalid graph edits', details: skipped.map(entry => entry.reason).join('; ') });
+    }
+
+    const updated = library.saveGraphEdits(video.id, applied, { nodes, edges });
+    console.log(`Saved ${applied.length} graph edit(s) to ${video.id} as version ${updated.version}`);
+    res.json({ success: true, video: toVideoResponse(updated), skipped });
+  } catch (error) {
+    console.error('Error saving graph edits:', error);
+    res.status(500).json({
+      error: 'Failed to save graph edits',
+      details: error.message
+    });
+  }
+});
+
+// Forget the edit log; the current graph is unchanged, but later re-runs
+// start from the AI output again
+app.delete('/api/videos/:id/edits', (req, res) => {
+  try {
+    if (!library.getVideo(req.params.id)) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    library.clearGraphEdits(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error clearing graph edits:', error);
+    res.status(500).json({
+      error: 'Failed to clear graph edits',
+      details: error.message
+    });
+  }
+});
+
+// Combined concept graph of the library (or of `videoIds`), with the user's overrides applied
+function resolveLibraryConcepts(videoIds = null) {
+  return resolveConcepts(library.listGraphs(videoIds), {
+    overrides: library.listConceptOverrides(),
+    embedder: conceptEmbedder,
+    threshold: conceptSimilarityThreshold
+  });
+}
+
+// One node per concept across videos; ?videoIds=a,b limits it to those videos
+app.get('/api/concepts', async (req, res) => {
+  try {
+    const videoIds = req.query.videoIds ? String(req.query.videoIds).split(',').filter(Boolean) : null;
+    const { nodes, edges, embeddings } = await resolveLibraryConcepts(videoIds);
+    res.json({ success: true, nodes, edges, embeddings });
+  } catch (error) {
+    console.error('Error resolving concepts:', error);
+    res.status(500).json({
+      error: 'Failed to resolve concepts',
+      details: error.message
+    });
+  }
+});
+
+// The combined concept graph in another format; takes ?videoIds= like /api/concepts
+app.get('/api/concepts/graph', async (req, res) => {
+  try {
+    const videoIds = req.query.videoIds ? String(req.query.videoIds).split(',').filter(Boolean) : null;
+    const { nodes, edges } = await resolveLibraryConcepts(videoIds);
+    sendGraphExport(req, res, { id: 'concepts', title: 'Concept map', nodes, edges });
+  } catch (error) {
+    console.error('Error exporting concept graph:', error);
+    res.status(500).json({
+      error: 'Failed to export concept graph',
+      details: error.message
+    });
+  }
+});
+
+// Merge one concept into another: every occurrence of `source` is pinned to
+// `target`, and so are target's own occurrences so the merge survives
+// later changes to the automatic matching
+app.post('/api/concepts/merge', async (req, res) => {
+  try {
+    const { source, target } = req.body || {};
+    if (typeof source !== 'string' || typeof target !== 'string' || source === target) {
+      return res.status(400).json({ error: 'Invalid merge', details: 'source and target must be two different concept ids' });
+    }
+
+    const { nodes } = await resolveLibraryConcepts();
+    const sourceNode = nodes.find(node => node.id === source);
+    const targetNode = nodes.find(node => node.id === target);
+    if (!sourceNode || !targetNode) {
+      return res.status(404).json({ error: 'Concept not found' });
+    }
+
+    library.setConceptOverrides([...sourceNode.occurrences, ...targetNode.occurrences].map(occurrence => ({
+      videoId: occurrence.videoId,
+      labelKey: occurrence.labelKey,
+      label: occurrence.label,
+      conceptId: target
+    })));
+    res.json({ success: true, concept: target });
+  } catch (error) {
+    console.error('Error merging concepts:', error);
+    res.status(500).json({
+      error: 'Failed to merge concepts',
+      details: error.message
+    });
+  }
+});
+
+// Split one video's occurrence of a concept out into a concept of its own
+app.post('/api/concepts/split', (req, res) => {
+  try {
+    const { videoId, labelKey } = req.body || {};
+    if (typeof videoId !== 'string' || typeof labelKey !== 'string') {
+      return res.status(400).json({ error: 'Invalid split', details: 'videoId and labelKey are required' });
+    }
+
+    const [graph] = library.listGraphs([videoId]);
+    const node = graph?.nodes.find(candidate => normalizeConceptLabel(candidate.label) === labelKey);
+    if (!node) {
+      return res.status(404).json({ error: 'Concept occurrence not found' });
+    }
+
+    library.setConceptOverrides([{ videoId, labelKey, label: node.label, conceptId: null }]);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error splitting concept:', error);
+    res.status(500).json({
+      error: 'Failed to split concept',
+      details: error.message
+    });
+  }
+});
+
+app.get('/api/concepts/overrides', (req, res) => {
+  try {
+    res.json({ success: true, overrides: library.listConceptOverrides() });
+  } catch (error) {
+    console.error('Error fetching concept overrides:', error);
+    res.status(500).json({
+      error: 'Failed to fetch concept overrides',
+      details: error.message
+    });
+  }
+});
+
+// Hand an occurrence back to automatic matching
+app.delete('/api/concepts/overrides/:videoId/:labelKey', (req, res) => {
+  try {
+    if (!library.deleteConceptOverride(req.params.videoId, req.params.labelKey)) {
+      return res.status(404).json({ error: 'Override not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting concept override:', error);
+    res.status(500).json({
+      error: 'Failed to delete concept override',
+      details: error.message
+    });
+  }
+});
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() });
 });
 
-app.listen(PORT, () => {
-  console.log(`Video processing server running on port ${PORT}`);
+// Open the video library before accepting jobs or requests
+async function start() {
+  await library.init();
+  const imported = library.importLegacyFiles(path.join(__dirname, '..'));
+  if (imported > 0) {
+    console.log(`Imported ${imported} existing videos into the library`);
+  }
+
+  const evicted = stageCache.prune();
+  if (evicted > 0) {
+    console.log(`Evicted ${evicted} unused pipeline cache entries`);
+  }
+
+  jobQueue.startWorker(processVideoJob);
+
+  app.listen(PORT, () => {
+    console.log(`Video processing server running on port ${PORT}`);
+    console.log(`Transcription provider: ${transcriptionProvider.name} (${transcriptionProvider.model})`);
+    console.log(`Structuring provider: ${structuringService.provider.name} (${structuringService.provider.model})`);
+    console.log(`Edge inference: ${edgeInference.mode}`);
+    console.log(`Concept embeddings: ${conceptEmbedder ? `${conceptEmbedder.name} (${conceptEmbedder.model})` : 'off'}`);
+  });
+}
+
+start().catch(error => {
+  console.error('Failed to start server:', error);
+  process.exit(1);
 });
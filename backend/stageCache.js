@@ -0,0 +1,155 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+// Caches the output of the expensive pipeline stages on disk so that
+// re-processing the same lecture doesn't re-run ffmpeg or the LLM calls.
+// Inferred edges and concept label embeddings are cached the same way.
+// Entries are keyed by the SHA-256 of their input (the uploaded file or the
+// transcript) plus a version string for whatever else shapes the output
+// (provider, model, prompt), so changing any of those misses the cache.
+// Entries live in a directory per input, so everything derived from one file
+// or transcript can be dropped together (see invalidate), and entries that
+// haven't been used for PIPELINE_CACHE_MAX_AGE_DAYS are evicted (see prune).
+const CACHE_DIR = path.join(__dirname, 'data', 'cache');
+const STAGES = ['audio', 'transcripts', 'structured', 'edges', 'embeddings'];
+
+// Set PIPELINE_CACHE=0 to always run every stage
+const enabled = process.env.PIPELINE_CACHE !== '0';
+const maxAgeDays = Number(process.env.PIPELINE_CACHE_MAX_AGE_DAYS) || 30;
+
+function sha256(text) {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+// SHA-256 of a file's contents, streamed so large uploads aren't read into memory
+function hashFile(filePath) {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+function entryPath(stage, inputHash, version, extension) {
+  return path.join(CACHE_DIR, stage, inputHash, `${sha256(version)}${extension}`);
+}
+
+// Mark an entry as used, so prune() keeps it
+function touch(file) {
+  const now = new Date();
+  fs.utimesSync(file, now, now);
+}
+
+// Write to a temp file first so a crash mid-write can't leave a truncated entry
+function writeEntry(file, write) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.${process.pid}.tmp`;
+  write(tempFile);
+  fs.renameSync(tempFile, file);
+}
+
+// Stage with a JSON-serializable result. get() returns undefined on a miss.
+function createJsonStage(stage) {
+  return {
+    get(inputHash, version) {
+      if (!enabled) return undefined;
+      const file = entryPath(stage, inputHash, version, '.json');
+      try {
+        if (!fs.existsSync(file)) return undefined;
+        touch(file);
+        return JSON.parse(fs.readFileSync(file, 'utf8')).value;
+      } catch (error) {
+        console.error(`Ignoring unreadable ${stage} cache entry:`, error.message);
+        return undefined;
+      }
+    },
+
+    set(inputHash, version, value) {
+      if (!enabled) return;
+      try {
+        writeEntry(entryPath(stage, inputHash, version, '.json'), tempFile => {
+          fs.writeFileSync(tempFile, JSON.stringify({ version, cachedAt: new Date().toISOString(), value }));
+        });
+      } catch (error) {
+        console.error(`Error caching ${stage}:`, error.message);
+      }
+    }
+  };
+}
+
+// Stage whose result is a file (the extracted audio)
+function createFileStage(stage, extension) {
+  return {
+    // Path of the cached file, or null on a miss
+    get(inputHash, version) {
+      if (!enabled) return null;
+      const file = entryPath(stage, inputHash, version, extension);
+      if (!fs.existsSync(file)) return null;
+      touch(file);
+      return file;
+    },
+
+    // Copy a freshly produced file into the cache
+    set(inputHash, version, sourcePath) {
+      if (!enabled) return;
+      try {
+        writeEntry(entryPath(stage, inputHash, version, extension), tempFile => {
+          fs.copyFileSync(sourcePath, tempFile);
+        });
+      } catch (error) {
+        console.error(`Error caching ${stage}:`, error.message);
+      }
+    }
+  };
+}
+
+// Drop every stage's entries for these inputs (file or transcript hashes)
+function invalidate(inputHashes) {
+  inputHashes.filter(Boolean).forEach(inputHash => {
+    STAGES.forEach(stage => fs.rmSync(path.join(CACHE_DIR, stage, inputHash), { recursive: true, force: true }));
+  });
+}
+
+// Evict entries that haven't been used for maxAgeDays. Returns how many went.
+function prune() {
+  const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+  let removed = 0;
+  STAGES.forEach(stage => {
+    const stageDir = path.join(CACHE_DIR, stage);
+    if (!fs.existsSync(stageDir)) return;
+    fs.readdirSync(stageDir, { withFileTypes: true }).forEach(entry => {
+      const inputDir = path.join(stageDir, entry.name);
+      // Files from before the per-input layout can't be looked up any more
+      if (!entry.isDirectory()) {
+        fs.rmSync(inputDir, { force: true });
+        removed++;
+        return;
+      }
+      fs.readdirSync(inputDir)
+        .map(name => path.join(inputDir, name))
+        .filter(file => fs.statSync(file).mtimeMs < cutoff)
+        .forEach(file => {
+          fs.rmSync(file, { force: true });
+          removed++;
+        });
+      if (fs.readdirSync(inputDir).length === 0) fs.rmdirSync(inputDir);
+    });
+  });
+  return removed;
+}
+
+module.exports = {
+  enabled,
+  invalidate,
+  prune,
+  sha256,
+  hashFile,
+  audio: createFileStage('audio', '.mp3'),
+  transcripts: createJsonStage('transcripts'),
+  structured: createJsonStage('structured'),
+  edges: createJsonStage('edges'),
+  embeddings: createJsonStage('embeddings')
+};
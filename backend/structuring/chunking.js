@@ -0,0 +1,129 @@
+// Map-reduce helpers for structuring lectures that are too long for one prompt:
+// split the transcript into time windows, structure each window separately,
+// then merge the partial hierarchies back into one.
+
+const { parseLeadingTimestamp } = require('../timestamps');
+
+// Time of the last timestamp marker in the transcript, or 0 if there are none
+function getTranscriptLength(transcript) {
+  return transcript.split('\n').reduce((latest, line) => {
+    const time = parseLeadingTimestamp(line);
+    return time !== null && time > latest ? time : latest;
+  }, 0);
+}
+
+// Split on timestamp boundaries into windows of roughly `windowSeconds`.
+// Lines without a marker stay with the block before them, so no sentence is cut in half.
+function splitTranscriptIntoChunks(transcript, windowSeconds) {
+  const chunks = [];
+  let current = null;
+
+  transcript.split('\n').forEach(line => {
+    const time = parseLeadingTimestamp(line);
+    if (time !== null && (!current || time >= current.start + windowSeconds)) {
+      if (current) current.end = time;
+      current = { start: time, end: time, lines: [] };
+      chunks.push(current);
+    }
+    if (!current) {
+      // Text before the first timestamp belongs to the first window
+      current = { start: 0, end: 0, lines: [] };
+      chunks.push(current);
+    }
+    current.lines.push(line);
+  });
+
+  if (current) current.end = Math.max(current.end, getTranscriptLength(transcript));
+
+  // A short tail isn't worth its own prompt - fold it into the previous window
+  const last = chunks[chunks.length - 1];
+  if (chunks.length > 1 && last.end - last.start < windowSeconds / 4) {
+    const previous = chunks[chunks.length - 2];
+    previous.lines.push(...last.lines);
+    previous.end = last.end;
+    chunks.pop();
+  }
+
+  return chunks
+    .map(chunk => ({ start: chunk.start, end: chunk.end, text: chunk.lines.join('\n').trim() }))
+    .filter(chunk => chunk.text);
+}
+
+function normalizeTitle(title) {
+  return String(title || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Copy an item with fresh ids (newId, newId.1, newId.1.1, ...), recording old -> new in idMap
+function renumberItem(item, newId, depth, idMap, childOffset = 0) {
+  idMap.set(item.id, newId);
+  const childKey = `layer_${depth + 1}`;
+  const copy = { ...item, id: newId };
+  if (Array.isArray(item[childKey])) {
+    copy[childKey] = item[childKey].map((child, index) =>
+      renumberItem(child, `${newId}.${childOffset + index + 1}`, depth + 1, idMap)
+    );
+  }
+  return copy;
+}
+
+// Breakdown segments may point at ids deeper than the hierarchy ("1.2.1.1"),
+// so map them through the longest renumbered prefix. Returns null for an id
+// the window's hierarchy doesn't know, whose number may be another window's.
+function remapId(id, idMap) {
+  if (idMap.has(id)) return idMap.get(id);
+  const parts = String(id).split('.');
+  for (let length = parts.length - 1; length > 0; length--) {
+    const prefix = parts.slice(0, length).join('.');
+    if (idMap.has(prefix)) {
+      return [idMap.get(prefix), ...parts.slice(length)].join('.');
+    }
+  }
+  return null;
+}
+
+// Merge per-window results into one structured transcript. Main topics are
+// numbered across windows (1, 2, 3, ...), and a topic that continues over a
+// window boundary under the same title is folded into the previous one.
+function mergeChunkStructures(results) {
+  const layer1 = [];
+  const breakdown = [];
+
+  results.forEach((data, chunkIndex) => {
+    const idMap = new Map();
+
+    data.hierarchical_structure.layer_1.forEach((item, index) => {
+      const previous = layer1[layer1.length - 1];
+      const continuesPrevious = chunkIndex > 0 && index === 0 && previous &&
+        normalizeTitle(previous.title) === normalizeTitle(item.title);
+
+      if (continuesPrevious) {
+        const existingChildren = previous.layer_2 || [];
+        const continued = renumberItem(item, previous.id, 1, idMap, existingChildren.length);
+        previous.layer_2 = [...existingChildren, ...(continued.layer_2 || [])];
+      } else {
+        layer1.push(renumberItem(item, String(layer1.length + 1), 1, idMap));
+      }
+    });
+
+    (data.detailed_breakdown || []).forEach(segment => {
+      const id = remapId(segment.id, idMap);
+      if (id === null) {
+        console.warn(`Dropping breakdown segment "${segment.id}" of window ${chunkIndex + 1}: not in its hierarchy`);
+        return;
+      }
+      breakdown.push({ ...segment, id });
+    });
+  });
+
+  return {
+    lecture_info: results[0].lecture_info,
+    hierarchical_structure: { layer_1: layer1 },
+    detailed_breakdown: breakdown
+  };
+}
+
+module.exports = {
+  getTranscriptLength,
+  splitTranscriptIntoChunks,
+  mergeChunkStructures
+};
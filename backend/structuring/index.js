@@ -0,0 +1,175 @@
+const { buildStructuringPrompt, buildRepairPrompt } = require('./prompt');
+const { parseStructuredResponse } = require('./parse');
+const { validateStructuredTranscript } = require('./schema');
+const { getTranscriptLength, splitTranscriptIntoChunks, mergeChunkStructures } = require('./chunking');
+const { createGeminiProvider } = require('./providers/gemini');
+const { createOpenAIProvider } = require('./providers/openai');
+const { createReplayProvider, withRecording, saveRecording, hashPrompt } = require('./providers/replay');
+
+// Picks the LLM used for structuring from the environment:
+//   STRUCTURING_PROVIDER = gemini (default) | openai | replay
+//   STRUCTURING_RECORD=1 saves every live response for the replay provider
+function createStructuringProvider(env = process.env) {
+  const name = (env.STRUCTURING_PROVIDER || 'gemini').toLowerCase();
+  const recordingsDir = env.STRUCTURING_RECORDINGS_DIR || undefined;
+  let provider;
+
+  switch (name) {
+    case 'gemini':
+      provider = createGeminiProvider({
+        apiKey: env.GEMINI_API,
+        model: env.GEMINI_STRUCTURING_MODEL || undefined
+      });
+      break;
+    case 'openai':
+      provider = createOpenAIProvider({
+        baseUrl: env.OPENAI_BASE_URL || undefined,
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL || undefined
+      });
+      break;
+    case 'replay':
+      return createReplayProvider({ directory: recordingsDir });
+    default:
+      throw new Error(`Unknown STRUCTURING_PROVIDER "${name}" (expected gemini, openai or replay)`);
+  }
+
+  return env.STRUCTURING_RECORD === '1'
+    ? withRecording(provider, { directory: recordingsDir })
+    : provider;
+}
+
+// Parse and validate a raw response; returns { data } or { problems }
+function checkResponse(text) {
+  let data;
+  try {
+    data = parseStructuredResponse(text);
+  } catch (error) {
+    return { problems: [error.message] };
+  }
+
+  const problems = validateStructuredTranscript(data);
+  return problems.length > 0 ? { problems } : { data };
+}
+
+function validationError(message, problems) {
+  const error = new Error(
+    `${message}: ` +
+    problems.slice(0, 5).join('; ') +
+    (problems.length > 5 ? ` (and ${problems.length - 5} more)` : '')
+  );
+  error.problems = problems;
+  return error;
+}
+
+// chunking: { mode, windowSeconds }
+//   mode = auto (chunk when the transcript is longer than 1.5 windows) | always | never
+function createStructuringService(provider, {
+  maxRetries = 2,
+  repairAttempts = 2,
+  chunking = {}
+} = {}) {
+  const chunkMode = chunking.mode || 'auto';
+  const windowSeconds = chunking.windowSeconds || 600;
+
+  // Retry mechanism for AI calls
+  async function generateWithRetry(prompt) {
+    let retryCount = 0;
+
+    while (true) {
+      try {
+        const text = await provider.generate(prompt);
+        console.log('Received AI response, length:', text.length);
+        return text;
+      } catch (aiError) {
+        retryCount++;
+        console.error(`AI call attempt ${retryCount} failed:`, aiError.message);
+        // A missing recording won't appear on retry
+        if (retryCount > maxRetries || provider.name === 'replay') {
+          throw new Error(`AI model failed after ${retryCount} attempts: ${aiError.message}`);
+        }
+        // Wait before retry
+        await new Promise(resolve => setTimeout(resolve, 1000 * retryCount));
+      }
+    }
+  }
+
+  // Every response is validated against the schema. Invalid responses are
+  // sent back to the model with the problems found, up to `repairAttempts`
+  // times, after which structuring fails rather than returning bad data.
+  async function generateValidated(prompt) {
+    let text = await generateWithRetry(prompt);
+    let result = checkResponse(text);
+
+    for (let attempt = 1; result.problems && attempt <= repairAttempts; attempt++) {
+      console.warn(`Structured transcript failed validation (${result.problems.length} problems), repair attempt ${attempt}/${repairAttempts}`);
+      text = await generateWithRetry(buildRepairPrompt(text, result.problems));
+      result = checkResponse(text);
+    }
+
+    if (result.problems) {
+      throw validationError(`Structured transcript failed validation after ${repairAttempts} repair attempts`, result.problems);
+    }
+
+    return result.data;
+  }
+
+  function shouldChunk(transcript) {
+    if (chunkMode === 'never') return false;
+    if (chunkMode === 'always') return true;
+    return getTranscriptLength(transcript) > windowSeconds * 1.5;
+  }
+
+  return {
+    provider,
+
+    // Everything besides the transcript that shapes the output, for caching
+    // results: provider, model, prompt template and chunking
+    version: [
+      provider.name,
+      provider.model,
+      hashPrompt(buildStructuringPrompt('')).slice(0, 12),
+      chunkMode,
+      windowSeconds
+    ].join(':'),
+
+    // Long lectures are structured window by window and merged afterwards, so
+    // each prompt stays well within the model's context and output limits.
+    // `onProgress(percent, message)` is called as windows finish.
+    async structureTranscript(transcript, { lectureInfo, onProgress } = {}) {
+      const chunks = shouldChunk(transcript) ? splitTranscriptIntoChunks(transcript, windowSeconds) : [];
+
+      if (chunks.length <= 1) {
+        console.log(`Sending transcript to ${provider.name} (${provider.model}) for structuring...`);
+        return generateValidated(buildStructuringPrompt(transcript, lectureInfo));
+      }
+
+      console.log(`Structuring transcript in ${chunks.length} windows of ~${Math.round(windowSeconds / 60)} minutes with ${provider.name} (${provider.model})...`);
+      const results = [];
+      for (const [index, chunk] of chunks.entries()) {
+        onProgress?.(index / chunks.length * 100, `Structuring part ${index + 1} of ${chunks.length}...`);
+        const part = { index, count: chunks.length, start: chunk.start, end: chunk.end };
+        results.push(await generateValidated(buildStructuringPrompt(chunk.text, lectureInfo, part)));
+      }
+
+      const merged = mergeChunkStructures(results);
+      const problems = validateStructuredTranscript(merged);
+      if (problems.length > 0) {
+        throw validationError('Merged structured transcript failed validation', problems);
+      }
+      return merged;
+    }
+  };
+}
+
+module.exports = {
+  buildStructuringPrompt,
+  parseStructuredResponse,
+  validateStructuredTranscript,
+  createStructuringProvider,
+  createStructuringService,
+  splitTranscriptIntoChunks,
+  mergeChunkStructures,
+  saveRecording,
+  hashPrompt
+};
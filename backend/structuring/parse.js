@@ -0,0 +1,69 @@
+// Extract the structured transcript JSON from a raw model response
+function parseStructuredResponse(text) {
+  // Clean up the response to extract just the JSON
+  let jsonText = text.trim();
+  
+  // Remove any markdown code blocks if present
+  if (jsonText.startsWith('```json')) {
+    jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  } else if (jsonText.startsWith('```')) {
+    jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
+  }
+  
+  // Additional JSON cleaning to handle common AI response issues
+  jsonText = jsonText
+    // Remove any leading/trailing non-JSON text
+    .replace(/^[^{]*/, '')
+    .replace(/[^}]*$/, '')
+    // Remove control characters that break JSON parsing
+    .replace(/[\x00-\x1F\x7F]/g, '')
+    // Fix common escaping issues
+    .replace(/\\n/g, '\\n')
+    .replace(/\\t/g, '\\t')
+    .replace(/\\r/g, '\\r')
+    .replace(/\\0/g, '\\\\0')  // Fix null character escapes
+    // Fix unescaped quotes in strings
+    .replace(/"([^"\\]*(\\.[^"\\]*)*)"/g, (match, content) => {
+      // Clean up the content by properly escaping quotes and backslashes
+      const cleaned = content
+        .replace(/\\/g, '\\\\')  // Escape backslashes first
+        .replace(/"/g, '\\"')    // Then escape quotes
+        .replace(/\n/g, '\\n')   // Convert actual newlines to escaped
+        .replace(/\t/g, '\\t')   // Convert actual tabs to escaped
+        .replace(/\r/g, '\\r')   // Convert actual carriage returns to escaped
+        .replace(/\0/g, '\\\\0'); // Convert null characters to escaped
+      return '"' + cleaned + '"';
+    });
+  
+  try {
+    return JSON.parse(jsonText);
+  } catch (parseError) {
+    console.error('JSON parse error:', parseError.message);
+    const position = parseError.message.match(/position (\d+)/)?.[1];
+    if (position) {
+      const start = Math.max(0, parseInt(position) - 100);
+      const end = parseInt(position) + 100;
+      console.error('Problematic JSON text around position', position, ':', jsonText.substring(start, end));
+      console.error('Character at position', position, ':', jsonText[parseInt(position)]);
+    }
+    
+    // Try to fix common JSON issues
+    let fixedJson = jsonText;
+    
+    // Fix trailing commas
+    fixedJson = fixedJson.replace(/,(\s*[}\]])/g, '$1');
+    
+    // Fix missing quotes around keys
+    fixedJson = fixedJson.replace(/([{,]\s*)([a-zA-Z_][a-zA-Z0-9_]*)\s*:/g, '$1"$2":');
+    
+    // Try parsing again
+    try {
+      return JSON.parse(fixedJson);
+    } catch (secondError) {
+      console.error('Second JSON parse attempt failed:', secondError.message);
+      throw new Error(`Response is not valid JSON: ${secondError.message}`);
+    }
+  }
+}
+
+module.exports = { parseStructuredResponse };
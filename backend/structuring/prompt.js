@@ -0,0 +1,116 @@
+const { formatTimestamp } = require('../timestamps');
+
+const DEFAULT_LECTURE_INFO = {
+  course: 'Educational Content',
+  lecture_number: 1,
+  instructor: 'Unknown',
+  title: 'Generated from Video'
+};
+
+// Build the structuring prompt. `lectureInfo` pre-fills fields that are
+// already known (e.g. course and instructor for a lecture series). `part`
+// ({ index, count, start, end }) marks the transcript as one window of a
+// longer lecture when structuring in chunks.
+function buildStructuringPrompt(transcript, lectureInfo = {}, part = null) {
+  const info = { ...DEFAULT_LECTURE_INFO, ...lectureInfo };
+  const partNote = part
+    ? `\nThis is part ${part.index + 1} of ${part.count} of a longer lecture, covering ${formatTimestamp(part.start)} to ${formatTimestamp(part.end)}. Structure only this part, number its topics starting from 1, and keep the timestamps exactly as they appear in the transcript.\n`
+    : '';
+
+  return `
+You are an expert educational content analyst. I need you to convert a lecture transcript into a detailed structured JSON format that captures the hierarchical organization of educational content.
+
+Here is the transcript:
+
+${transcript}
+${partNote}
+Please analyze this transcript and create a structured JSON with the following format:
+
+{
+  "lecture_info": {
+    "course": ${JSON.stringify(info.course)},
+    "lecture_number": ${JSON.stringify(info.lecture_number)},
+    "instructor": ${JSON.stringify(info.instructor)}, 
+    "title": ${JSON.stringify(info.title)}
+  },
+  "hierarchical_structure": {
+    "layer_1": [
+      {
+        "id": "1",
+        "title": "Main Topic Title",
+        "layer_2": [
+          {
+            "id": "1.1", 
+            "title": "Sub-topic",
+            "layer_3": [
+              {"id": "1.1.1", "title": "Specific concept"},
+              {"id": "1.1.2", "title": "Another specific concept"}
+            ]
+          },
+          {"id": "1.2", "title": "Another sub-topic"}
+        ]
+      }
+    ]
+  },
+  "detailed_breakdown": [
+    {
+      "id": "1.1",
+      "timestamp": "0:00-0:30",
+      "category": "introduction|definition|example|method|solution|visualization|extension|transition",
+      "subcategory": "specific_subcategory_name",
+      "detail": "Detailed description of what happens in this segment, including specific concepts, equations, and examples mentioned"
+    }
+  ]
+}
+
+CRITICAL REQUIREMENTS:
+1. Create a DEEP hierarchical structure with 3+ layers that reflects the educational flow
+2. Use EXACT timestamps from the transcript (format: "start:end")
+3. Assign appropriate categories: introduction, definition, example, method, solution, visualization, extension, transition
+4. Create meaningful subcategories that describe the specific content
+5. Provide DETAILED descriptions that capture:
+   - Specific concepts and examples
+   - Key transitions and emphasis points
+   - Important details mentioned
+6. Ensure the hierarchical structure has at least 3 layers deep (layer_1, layer_2, layer_3)
+7. Make sure all IDs are unique and follow the pattern (1, 1.1, 1.1.1, etc.)
+8. Focus on educational concepts and pedagogical structure
+9. Include important transitions and emphasis points
+10. Create MANY detailed breakdown segments (aim for 20+ segments)
+11. Each segment should be 30-60 seconds of content
+12. Include specific details and examples in the descriptions
+13. Do not include any escape characters in the JSON. Make sure the JSON is valid.
+
+Return ONLY the JSON object, no additional text or formatting.
+    `;
+}
+
+// Ask the model to fix its previous response. The transcript is left out to
+// keep the prompt small - the problems are structural, not about content.
+function buildRepairPrompt(previousResponse, problems) {
+  return `
+Your previous response was supposed to be a structured lecture transcript in JSON, but it failed validation.
+
+Problems found:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Here is your previous response:
+
+${previousResponse}
+
+Return a corrected version of the same JSON that fixes every problem listed above. Keep the content the same and follow these rules:
+1. The top-level keys are "lecture_info", "hierarchical_structure" and "detailed_breakdown"
+2. "lecture_info" has string "course", "instructor" and "title" fields and a "lecture_number"
+3. "hierarchical_structure.layer_1" is a non-empty array; each item has a string "id" and "title" and may nest items in "layer_2", which may nest "layer_3", and so on
+4. IDs are unique dotted numbers that match their depth and parent: "1" in layer_1, "1.2" in layer_2 under "1", "1.2.3" in layer_3 under "1.2"
+5. Each "detailed_breakdown" item has "id", "timestamp" (a range such as "0:00-0:30"), a lowercase "category", "subcategory" and a non-empty "detail"
+6. The JSON must be valid, with no escape characters or trailing commas
+
+Return ONLY the JSON object, no additional text or formatting.
+    `;
+}
+
+module.exports = {
+  buildStructuringPrompt,
+  buildRepairPrompt
+};
@@ -0,0 +1,19 @@
+const { GoogleGenerativeAI } = require('@google/generative-ai');
+
+function createGeminiProvider({ apiKey, model = 'gemini-1.5-flash' }) {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const geminiModel = genAI.getGenerativeModel({ model });
+
+  return {
+    name: 'gemini',
+    model,
+
+    async generate(prompt) {
+      const result = await geminiModel.generateContent(prompt);
+      const response = await result.response;
+      return response.text();
+    }
+  };
+}
+
+module.exports = { createGeminiProvider };
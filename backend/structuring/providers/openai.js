@@ -0,0 +1,41 @@
+// Works with any endpoint that implements the OpenAI chat completions API
+// (OpenAI, Azure OpenAI, OpenRouter, vLLM, Ollama, LM Studio, ...)
+function createOpenAIProvider({ baseUrl = 'https://api.openai.com/v1', apiKey, model = 'gpt-4o-mini', temperature = 0.2 }) {
+  const endpoint = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai',
+    model,
+
+    async generate(prompt) {
+      const headers = { 'Content-Type': 'application/json' };
+      if (apiKey) {
+        headers.Authorization = `Bearer ${apiKey}`;
+      }
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature
+        })
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText} ${errorText}`.trim());
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new Error('OpenAI-compatible API returned an empty response');
+      }
+      return content;
+    }
+  };
+}
+
+module.exports = { createOpenAIProvider };
@@ -0,0 +1,67 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const DEFAULT_RECORDINGS_DIR = path.join(__dirname, '..', '..', 'fixtures', 'recordings');
+
+function hashPrompt(prompt) {
+  return crypto.createHash('sha256').update(prompt).digest('hex');
+}
+
+function recordingPath(directory, prompt) {
+  return path.join(directory, `${hashPrompt(prompt)}.json`);
+}
+
+// Serves previously recorded responses keyed by the SHA-256 of the prompt,
+// so structuring can run offline and deterministically
+function createReplayProvider({ directory = DEFAULT_RECORDINGS_DIR } = {}) {
+  return {
+    name: 'replay',
+    model: 'replay',
+
+    async generate(prompt) {
+      const file = recordingPath(directory, prompt);
+      if (!fs.existsSync(file)) {
+        throw new Error(
+          `No recorded response for prompt ${hashPrompt(prompt).slice(0, 12)} in ${directory}. ` +
+          'Record one with STRUCTURING_RECORD=1 against a live provider.'
+        );
+      }
+      return JSON.parse(fs.readFileSync(file, 'utf8')).response;
+    }
+  };
+}
+
+// Wrap a live provider so every response is saved for later replay
+function withRecording(provider, { directory = DEFAULT_RECORDINGS_DIR } = {}) {
+  return {
+    ...provider,
+
+    async generate(prompt) {
+      const response = await provider.generate(prompt);
+      saveRecording(directory, prompt, response, provider);
+      return response;
+    }
+  };
+}
+
+function saveRecording(directory = DEFAULT_RECORDINGS_DIR, prompt, response, provider = { name: 'manual', model: 'manual' }) {
+  if (!fs.existsSync(directory)) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+  const recording = {
+    promptHash: hashPrompt(prompt),
+    provider: provider.name,
+    model: provider.model,
+    recordedAt: new Date().toISOString(),
+    response
+  };
+  fs.writeFileSync(recordingPath(directory, prompt), JSON.stringify(recording, null, 2));
+}
+
+module.exports = {
+  hashPrompt,
+  createReplayProvider,
+  withRecording,
+  saveRecording
+};
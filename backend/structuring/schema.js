@@ -0,0 +1,83 @@
+const { z } = require('zod');
+
+// Deepest layer_n the schema accepts (layer_1 .. layer_6)
+const MAX_DEPTH = 6;
+
+// "0:00-0:30", "12:05 - 13:40" or "1:02:03-1:04:00"
+const TIME = String.raw`\d+:\d{2}(?::\d{2})?`;
+const TIMESTAMP_RANGE = new RegExp(`^${TIME}\\s*-\\s*${TIME}$`);
+const HIERARCHY_ID = /^\d+(\.\d+)*$/;
+
+const lectureInfoSchema = z.object({
+  course: z.string().min(1),
+  lecture_number: z.union([z.number(), z.string().min(1)]),
+  instructor: z.string().min(1),
+  title: z.string().min(1)
+});
+
+// layer_n items may nest layer_(n+1) children, up to MAX_DEPTH
+function layerItemSchema(depth) {
+  const shape = {
+    id: z.string().regex(HIERARCHY_ID, 'must be a dotted number such as "1.2.3"'),
+    title: z.string().min(1)
+  };
+  if (depth < MAX_DEPTH) {
+    shape[`layer_${depth + 1}`] = z.array(layerItemSchema(depth + 1)).optional();
+  }
+  return z.looseObject(shape);
+}
+
+const breakdownSegmentSchema = z.looseObject({
+  id: z.string().min(1),
+  timestamp: z.string().regex(TIMESTAMP_RANGE, 'must be a "start-end" range such as "0:00-0:30"'),
+  category: z.string().regex(/^[a-z_]+$/, 'must be a lowercase category such as "definition"'),
+  subcategory: z.string().optional(),
+  detail: z.string().min(1)
+});
+
+const structuredTranscriptSchema = z.looseObject({
+  lecture_info: lectureInfoSchema,
+  hierarchical_structure: z.looseObject({
+    layer_1: z.array(layerItemSchema(1)).min(1)
+  }),
+  detailed_breakdown: z.array(breakdownSegmentSchema).min(1)
+}).superRefine((data, ctx) => {
+  // Ids must be unique and match their position: "1.2" lives in layer_2 under "1"
+  const seen = new Set();
+  const checkLayer = (items, depth, parentId, pathPrefix) => {
+    (items || []).forEach((item, index) => {
+      const path = [...pathPrefix, `layer_${depth}`, index, 'id'];
+      if (seen.has(item.id)) {
+        ctx.addIssue({ code: 'custom', path, message: `duplicate id "${item.id}"` });
+      }
+      seen.add(item.id);
+
+      if (item.id.split('.').length !== depth) {
+        ctx.addIssue({ code: 'custom', path, message: `id "${item.id}" should have ${depth} part(s) in layer_${depth}` });
+      } else if (parentId && !item.id.startsWith(parentId + '.')) {
+        ctx.addIssue({ code: 'custom', path, message: `id "${item.id}" should start with its parent id "${parentId}."` });
+      }
+
+      checkLayer(item[`layer_${depth + 1}`], depth + 1, item.id, [...pathPrefix, `layer_${depth}`, index]);
+    });
+  };
+  checkLayer(data.hierarchical_structure.layer_1, 1, null, ['hierarchical_structure']);
+});
+
+function formatPath(path) {
+  return path.reduce((result, key) => (
+    typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${key}` : key
+  ), '');
+}
+
+// Returns a list of human-readable problems; empty when the data is valid
+function validateStructuredTranscript(data) {
+  const result = structuredTranscriptSchema.safeParse(data);
+  if (result.success) return [];
+  return result.error.issues.map(issue => `${formatPath(issue.path) || '(root)'}: ${issue.message}`);
+}
+
+module.exports = {
+  structuredTranscriptSchema,
+  validateStructuredTranscript
+};
@@ -0,0 +1,245 @@
+// Subtitle import and export.
+//
+// Import turns SRT or WebVTT captions into the timestamped transcript the
+// structuring stage expects, plus transcript segments with the exact cue
+// times, so videos that already have captions skip audio transcription.
+// Export writes a video's transcript segments back out as WebVTT captions,
+// and its topic hierarchy as a WebVTT chapters track.
+
+const { parseTimestampRange } = require('./timestamps');
+
+const SUBTITLE_EXTENSIONS = ['.srt', '.vtt'];
+
+// "00:01:02,345" (SRT), "00:01:02.345" or "01:02.345" (WebVTT)
+const CUE_TIME = /(?:(\d+):)?(\d{1,2}):(\d{2})(?:[,.](\d{1,3}))?/;
+const CUE_TIMING = new RegExp(`^\\s*(${CUE_TIME.source})\\s*-->\\s*(${CUE_TIME.source})`);
+
+// Start a new transcript paragraph after this long, or at a pause this long,
+// so the structuring prompt gets a marker every few sentences rather than every cue
+const PARAGRAPH_SECONDS = 20;
+const PAUSE_SECONDS = 2;
+
+function parseCueTime(text) {
+  const match = text.match(CUE_TIME);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return (parseInt(hours || '0') * 3600) +
+    (parseInt(minutes) * 60) +
+    parseInt(seconds) +
+    (fraction ? parseInt(fraction.padEnd(3, '0')) / 1000 : 0);
+}
+
+// Caption text without markup: WebVTT voice/class tags, <i>/<b>/<font>,
+// ASS override blocks ({\an8}) and the common HTML entities
+function cleanCueText(lines) {
+  return lines
+    .join(' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Parse SRT or WebVTT into cues ({ start, end, text } in seconds), in time
+// order. Header, NOTE, STYLE and REGION blocks have no timing line and are
+// skipped. Repeated text from roll-up captions is folded into one cue.
+function parseSubtitles(content) {
+  const blocks = String(content || '')
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/);
+
+  const cues = [];
+  blocks.forEach(block => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex === -1) return;
+
+    const [startText, endText] = lines[timingIndex].split('-->');
+    const start = parseCueTime(startText);
+    const end = parseCueTime(endText);
+    const text = cleanCueText(lines.slice(timingIndex + 1));
+    if (start === null || end === null || !text) return;
+
+    cues.push({ start, end: Math.max(start, end), text });
+  });
+
+  cues.sort((a, b) => a.start - b.start);
+
+  return cues.reduce((merged, cue) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.text === cue.text && cue.start <= previous.end + 0.5) {
+      previous.end = Math.max(previous.end, cue.end);
+    } else {
+      merged.push(cue);
+    }
+    return merged;
+  }, []);
+}
+
+// 75 -> "01:15", 3723 -> "1:02:03", like the Gemini transcripts
+function formatMarker(seconds) {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = String(Math.floor((total % 3600) / 60)).padStart(2, '0');
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes}:${secs}` : `${minutes}:${secs}`;
+}
+
+// Group cues into "[MM:SS] text" paragraphs for the structuring prompt
+function cuesToTranscript(cues) {
+  const paragraphs = [];
+  let current = null;
+
+  cues.forEach(cue => {
+    const startsParagraph = !current ||
+      cue.start - current.start >= PARAGRAPH_SECONDS ||
+      cue.start - current.end >= PAUSE_SECONDS;
+
+    if (startsParagraph) {
+      current = { start: cue.start, end: cue.end, texts: [] };
+      paragraphs.push(current);
+    }
+    current.texts.push(cue.text);
+    current.end = cue.end;
+  });
+
+  return paragraphs
+    .map(paragraph => `[${formatMarker(paragraph.start)}] ${paragraph.texts.join(' ')}`)
+    .join('\n\n');
+}
+
+// Embedded subtitle codecs that hold text; image-based ones (PGS, DVD, DVB) need OCR
+const TEXT_SUBTITLE_CODECS = ['subrip', 'srt', 'webvtt', 'ass', 'ssa', 'mov_text', 'text'];
+
+function isTextSubtitleCodec(codec) {
+  return TEXT_SUBTITLE_CODECS.includes(String(codec || '').toLowerCase());
+}
+
+// Keep caption cues to about two lines on screen
+const MAX_CAPTION_CHARS = 84;
+
+// 75.5 -> "00:01:15.500"
+function formatVttTime(seconds) {
+  const millis = Math.round(Math.max(0, seconds) * 1000);
+  const hours = String(Math.floor(millis / 3600000)).padStart(2, '0');
+  const minutes = String(Math.floor(millis / 60000) % 60).padStart(2, '0');
+  const secs = String(Math.floor(millis / 1000) % 60).padStart(2, '0');
+  return `${hours}:${minutes}:${secs}.${String(millis % 1000).padStart(3, '0')}`;
+}
+
+// Cue text can't contain blank lines or a "-->", and "<" / "&" start markup
+function escapeCueText(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\s*\n\s*/g, ' ')
+    .trim();
+}
+
+// Serialize { start, end, text } cues as a WebVTT file
+function toWebVTT(cues) {
+  const body = cues
+    .filter(cue => cue.end > cue.start && cue.text)
+    .map(cue => `${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}\n${escapeCueText(cue.text)}`)
+    .join('\n\n');
+  return `WEBVTT\n\n${body}${body ? '\n' : ''}`;
+}
+
+// Transcribed segments are often whole paragraphs; split them on word
+// boundaries into caption-sized cues, sharing the segment's time by length
+function buildCaptionCues(segments) {
+  const cues = [];
+
+  segments.forEach(segment => {
+    const lines = [];
+    String(segment.text || '').split(/\s+/).filter(Boolean).forEach(word => {
+      const last = lines[lines.length - 1];
+      if (last !== undefined && last.length + 1 + word.length <= MAX_CAPTION_CHARS) {
+        lines[lines.length - 1] = `${last} ${word}`;
+      } else {
+        lines.push(word);
+      }
+    });
+
+    const totalLength = lines.reduce((sum, line) => sum + line.length, 0);
+    let start = segment.start;
+    lines.forEach(line => {
+      const end = start + (segment.end - segment.start) * line.length / totalLength;
+      cues.push({ start, end, text: line });
+      start = end;
+    });
+  });
+
+  return cues;
+}
+
+// Earliest start and latest end of the breakdown segments for an item and its children
+function getItemSpan(breakdown, itemId) {
+  let span = null;
+  breakdown.forEach(segment => {
+    if (segment.id !== itemId && !String(segment.id).startsWith(itemId + '.')) return;
+    const interval = parseTimestampRange(segment.timestamp);
+    if (!interval) return;
+    span = span
+      ? { start: Math.min(span.start, interval.start), end: Math.max(span.end, interval.end) }
+      : interval;
+  });
+  return span;
+}
+
+// One chapter per layer_2 subtopic ("Topic: Subtopic", or just "Subtopic"
+// when the lecture has a single topic), or per layer_1 topic when it has no
+// timed subtopics. A topic's lead-in before its first subtopic
+// gets a chapter of its own. Chapters run until the next one starts, so the
+// track covers the lecture without gaps or overlaps.
+function buildChapterCues(structuredData, duration) {
+  const breakdown = structuredData?.detailed_breakdown || [];
+  const topics = structuredData?.hierarchical_structure?.layer_1 || [];
+  const chapters = [];
+
+  topics.forEach(topic => {
+    const topicSpan = getItemSpan(breakdown, topic.id);
+    const subtopics = (topic.layer_2 || [])
+      .map(subtopic => ({ subtopic, span: getItemSpan(breakdown, subtopic.id) }))
+      .filter(entry => entry.span);
+
+    if (subtopics.length === 0) {
+      if (topicSpan) chapters.push({ start: topicSpan.start, title: topic.title });
+      return;
+    }
+    if (topicSpan && topicSpan.start < subtopics[0].span.start) {
+      chapters.push({ start: topicSpan.start, title: topic.title });
+    }
+    subtopics.forEach(({ subtopic, span }) => {
+      chapters.push({ start: span.start, title: topics.length > 1 ? `${topic.title}: ${subtopic.title}` : subtopic.title });
+    });
+  });
+
+  chapters.sort((a, b) => a.start - b.start);
+  const lastEnd = Math.max(duration || 0, ...breakdown.map(segment => parseTimestampRange(segment.timestamp)?.end || 0));
+
+  return chapters
+    .map((chapter, index) => ({
+      start: chapter.start,
+      end: index + 1 < chapters.length ? chapters[index + 1].start : lastEnd,
+      text: chapter.title
+    }))
+    // Chapters that start together collapse to the last one
+    .filter(chapter => chapter.end > chapter.start);
+}
+
+module.exports = {
+  SUBTITLE_EXTENSIONS,
+  parseSubtitles,
+  cuesToTranscript,
+  isTextSubtitleCodec,
+  toWebVTT,
+  buildCaptionCues,
+  buildChapterCues
+};
@@ -0,0 +1,61 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { resolveConcepts } = require('../../concepts');
+
+function lecture(id, labels, edges = []) {
+  return {
+    id,
+    title: `Lecture ${id}`,
+    nodes: labels.map((label, index) => ({ id: `node_${index}`, label, category: 'definition', timestamps: [index * 30] })),
+    edges: edges.map(([source, target]) => ({ source: `node_${source}`, target: `node_${target}`, type: 'related', strength: 0.7 }))
+  };
+}
+
+function conceptsOf(result) {
+  return result.nodes.map(node => [node.label, node.occurrences.map(occurrence => `${occurrence.videoId}/${occurrence.nodeId}`)]);
+}
+
+test('resolveConcepts merges the same concept across lectures', async () => {
+  const result = await resolveConcepts([
+    lecture('a', ['Binary Trees', 'Depth-First Search (DFS)']),
+    lecture('b', ['The Binary Tree', 'DFS'])
+  ], { synonyms: new Map() });
+
+  assert.deepEqual(conceptsOf(result), [
+    ['Binary Trees', ['a/node_0', 'b/node_0']],
+    ['Depth-First Search (DFS)', ['a/node_1', 'b/node_1']]
+  ]);
+});
+
+test('resolveConcepts keeps generic section headings with their own lecture', async () => {
+  const result = await resolveConcepts([
+    lecture('a', ['Introduction', 'Recursion', 'Summary', 'Summary'], [[0, 1], [1, 2], [1, 3]]),
+    lecture('b', ['Introduction', 'Recursion', 'Q&A'], [[0, 1]])
+  ], { synonyms: new Map() });
+
+  assert.deepEqual(conceptsOf(result), [
+    ['Introduction', ['a/node_0']],
+    ['Recursion', ['a/node_1', 'b/node_1']],
+    ['Summary', ['a/node_2']],
+    ['Summary', ['a/node_3']],
+    ['Introduction', ['b/node_0']],
+    ['Q&A', ['b/node_2']]
+  ]);
+  assert.equal(new Set(result.nodes.map(node => node.id)).size, result.nodes.length);
+  assert.equal(result.edges.length, 4);
+});
+
+test('resolveConcepts still lets an override merge generic headings', async () => {
+  const result = await resolveConcepts([
+    lecture('a', ['Introduction']),
+    lecture('b', ['Introduction'])
+  ], {
+    synonyms: new Map(),
+    overrides: [
+      { videoId: 'a', labelKey: 'introduction', conceptId: 'concept:course-introduction' },
+      { videoId: 'b', labelKey: 'introduction', conceptId: 'concept:course-introduction' }
+    ]
+  });
+
+  assert.deepEqual(conceptsOf(result), [['Introduction', ['a/node_0', 'b/node_0']]]);
+});
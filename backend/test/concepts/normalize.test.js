@@ -0,0 +1,49 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { normalizeConceptLabel, isGenericHeading, extractAliases, loadSynonyms } = require('../../concepts/normalize');
+
+test('normalizeConceptLabel drops case, punctuation, leading articles and plurals', () => {
+  assert.equal(normalizeConceptLabel('The Sorting Algorithms'), 'sorting algorithm');
+  assert.equal(normalizeConceptLabel('Introduction to Binary Trees'), 'binary tree');
+  assert.equal(normalizeConceptLabel('Depth-First Search (DFS)'), 'depth first search');
+  assert.equal(normalizeConceptLabel('Binaries, Branches & Boxes'), 'binary branch box');
+  assert.equal(normalizeConceptLabel('Analysis of Trees'), 'analysis of tree');
+  assert.equal(normalizeConceptLabel('Glass Bus'), 'glass bus');
+});
+
+test('normalizeConceptLabel only drops an article in front of another word', () => {
+  assert.equal(normalizeConceptLabel('A'), 'a');
+  assert.equal(normalizeConceptLabel('Theory'), 'theory');
+  assert.equal(normalizeConceptLabel(undefined), '');
+});
+
+test('isGenericHeading knows the section headings every lecture has', () => {
+  ['Introduction', 'Overview', 'Summary', 'Conclusions', 'Q&A', 'Wrap-Up', 'Key Takeaways'].forEach(label => {
+    assert.equal(isGenericHeading(normalizeConceptLabel(label)), true, label);
+  });
+  ['Introduction to Binary Trees', 'Summary Statistics', 'Peer Review Process'].forEach(label => {
+    assert.equal(isGenericHeading(normalizeConceptLabel(label)), false, label);
+  });
+});
+
+test('extractAliases reads the names in parentheses', () => {
+  assert.deepEqual(extractAliases('Depth-First Search (DFS)'), ['dfs']);
+  assert.deepEqual(extractAliases('Big O (asymptotic notation) (Landau)'), ['asymptotic notation', 'landau']);
+  assert.deepEqual(extractAliases('Stem'), []);
+});
+
+test('loadSynonyms maps every label in a group to its first', (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synonyms-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const file = path.join(dir, 'synonyms.json');
+  fs.writeFileSync(file, JSON.stringify([['Big O notation', 'Asymptotic Notation'], ['Leaf', 'Foliage']]));
+
+  const synonyms = loadSynonyms(file);
+  assert.equal(synonyms.get('asymptotic notation'), 'big o notation');
+  assert.equal(synonyms.get('big o notation'), 'big o notation');
+  assert.equal(synonyms.get('foliage'), 'leaf');
+  assert.equal(loadSynonyms(path.join(dir, 'missing.json')).size, 0);
+});
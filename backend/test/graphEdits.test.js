@@ -0,0 +1,144 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parseGraphEdits, applyGraphEdits } = require('../graphEdits');
+
+function graph() {
+  return {
+    nodes: [
+      { id: 'node_0', label: 'Sorting Algorithms', category: 'definition', description: 'Putting things in order', timestamps: [0], intervals: [{ start: 0, end: 40 }] },
+      { id: 'node_1', label: 'Merge Sort', category: 'example', description: '', timestamps: [60, 120], intervals: [{ start: 60, end: 90 }, { start: 120, end: 150 }] },
+      { id: 'node_2', label: 'Big O Notation', category: 'definition', description: 'Growth rates', timestamps: [200], intervals: [{ start: 200, end: 260 }] }
+    ],
+    edges: [
+      { source: 'node_0', target: 'node_1', type: 'example', strength: 0.8 },
+      { source: 'node_2', target: 'node_1', type: 'related', strength: 0.5, inferred: true, confidence: 0.4, reason: 'co-occurs' }
+    ]
+  };
+}
+
+const ref = (id, label) => ({ id, label });
+
+test('parseGraphEdits fills in defaults', () => {
+  const { edits } = parseGraphEdits([{ op: 'addNode', node: { label: '  Quick Sort ' } }]);
+  assert.deepEqual(edits, [{
+    op: 'addNode',
+    node: { label: 'Quick Sort', category: 'definition', description: '', timestamps: [] }
+  }]);
+});
+
+test('parseGraphEdits lists what is wrong', () => {
+  assert.deepEqual(parseGraphEdits([]).problems, ['edits: Too small: expected array to have >=1 items']);
+  const { problems } = parseGraphEdits([
+    { op: 'renameNode' },
+    { op: 'addEdge', source: ref('node_0', 'A'), target: ref('node_1', 'B'), type: 'causes' }
+  ]);
+  assert.equal(problems.length, 2);
+  assert.match(problems[0], /^edits\[0\]\.op: /);
+  assert.match(problems[1], /^edits\[1\]\.type: /);
+});
+
+test('parseGraphEdits caps how many edits are sent at once', () => {
+  const edits = Array.from({ length: 3 }, (_, index) => ({ op: 'deleteNode', node: ref(`node_${index}`, 'x') }));
+  assert.equal(parseGraphEdits(edits).problems, undefined);
+  assert.equal(parseGraphEdits(edits, { maxEdits: 2 }).problems.length, 1);
+});
+
+test('applyGraphEdits applies edits in order', () => {
+  const result = applyGraphEdits(graph(), [
+    { op: 'addNode', node: { id: 'edit_1', label: 'Quick Sort', category: 'example', description: '', timestamps: [300, 280, 300] } },
+    { op: 'addEdge', source: ref('node_0', 'Sorting Algorithms'), target: ref('edit_1', 'Quick Sort'), type: 'example' },
+    { op: 'updateNode', node: ref('node_1', 'Merge Sort'), changes: { description: 'Divide and conquer', timestamps: [120, 130] } },
+    { op: 'updateEdge', source: ref('node_2', 'Big O Notation'), target: ref('node_1', 'Merge Sort'), type: 'application' },
+    { op: 'addEdge', source: ref('edit_1', 'Quick Sort'), target: ref('node_2', 'Big O Notation'), type: 'related', strength: 0.3 },
+    { op: 'updateEdge', source: ref('node_0', 'Sorting Algorithms'), target: ref('node_1', 'Merge Sort'), type: 'example', strength: 0.9 }
+  ]);
+
+  assert.deepEqual(result.skipped, []);
+  const quickSort = result.nodes.find(node => node.id === 'edit_1');
+  assert.deepEqual(quickSort.timestamps, [280, 300]);
+  assert.deepEqual(quickSort.intervals, [{ start: 280, end: 280 }, { start: 300, end: 300 }]);
+
+  const mergeSort = result.nodes.find(node => node.id === 'node_1');
+  assert.equal(mergeSort.description, 'Divide and conquer');
+  // The span that still starts at a timestamp keeps its end
+  assert.deepEqual(mergeSort.intervals, [{ start: 120, end: 150 }, { start: 130, end: 130 }]);
+
+  // A link keeps its strength unless the edit gives one
+  assert.deepEqual(result.edges, [
+    { source: 'node_0', target: 'node_1', type: 'example', strength: 0.9 },
+    { source: 'node_2', target: 'node_1', type: 'application', strength: 0.5 },
+    { source: 'node_0', target: 'edit_1', type: 'example', strength: 0.7 },
+    { source: 'edit_1', target: 'node_2', type: 'related', strength: 0.3 }
+  ]);
+});
+
+test('applyGraphEdits finds concepts by label once the ids have moved', () => {
+  // A re-run numbered the concepts differently
+  const rerun = graph();
+  rerun.nodes = rerun.nodes.map((node, index) => ({ ...node, id: `node_${2 - index}` }));
+  rerun.edges = [];
+
+  const result = applyGraphEdits(rerun, [
+    { op: 'updateNode', node: ref('node_1', 'Merge Sorts'), changes: { category: 'application' } },
+    { op: 'deleteNode', node: ref('node_0', 'the sorting algorithm') }
+  ]);
+
+  assert.deepEqual(result.skipped, []);
+  assert.deepEqual(result.nodes.map(node => [node.id, node.label, node.category]), [
+    ['node_1', 'Merge Sort', 'application'],
+    ['node_0', 'Big O Notation', 'definition']
+  ]);
+});
+
+test('applyGraphEdits merges one concept into another', () => {
+  const result = applyGraphEdits(graph(), [
+    { op: 'mergeNodes', source: ref('node_2', 'Big O Notation'), target: ref('node_0', 'Sorting Algorithms') }
+  ]);
+
+  const merged = result.nodes.find(node => node.id === 'node_0');
+  assert.deepEqual(merged.timestamps, [0, 200]);
+  assert.deepEqual(merged.intervals, [{ start: 0, end: 40 }, { start: 200, end: 260 }]);
+  assert.equal(result.nodes.some(node => node.id === 'node_2'), false);
+  // The merged concept's link now duplicates an existing one
+  assert.deepEqual(result.edges, [{ source: 'node_0', target: 'node_1', type: 'example', strength: 0.8 }]);
+});
+
+test('applyGraphEdits skips and reports edits that no longer fit', () => {
+  const result = applyGraphEdits(graph(), [
+    { op: 'addNode', node: { id: 'edit_1', label: 'merge sorts', category: 'definition', description: '', timestamps: [] } },
+    { op: 'updateNode', node: ref('node_9', 'Heap Sort'), changes: { label: 'Heapsort' } },
+    { op: 'addEdge', source: ref('node_0', 'Sorting Algorithms'), target: ref('node_1', 'Merge Sort'), type: 'related' },
+    { op: 'deleteEdge', source: ref('node_1', 'Merge Sort'), target: ref('node_0', 'Sorting Algorithms') },
+    { op: 'deleteNode', node: ref('node_2', 'Big O Notation') }
+  ]);
+
+  assert.deepEqual(result.skipped, [
+    { index: 0, op: 'addNode', reason: '"merge sorts" is already in the graph' },
+    { index: 1, op: 'updateNode', reason: 'Concept "Heap Sort" not found' },
+    { index: 2, op: 'addEdge', reason: '"Sorting Algorithms" is already linked to "Merge Sort"' },
+    { index: 3, op: 'deleteEdge', reason: 'No link from "Merge Sort" to "Sorting Algorithms"' }
+  ]);
+  assert.deepEqual(result.nodes.map(node => node.id), ['node_0', 'node_1']);
+  assert.deepEqual(result.edges, [graph().edges[0]]);
+});
+
+test('applyGraphEdits gives an added concept whose id is taken the same stand-in every time', () => {
+  const base = graph();
+  base.nodes.push({ id: 'edit_1_2', label: 'Heap Sort', timestamps: [], intervals: [] });
+  const edits = [
+    { op: 'addNode', node: { id: 'node_1', label: 'Quick Sort', category: 'example', description: '', timestamps: [] } },
+    { op: 'addNode', node: { id: 'edit_1', label: 'Bubble Sort', category: 'example', description: '', timestamps: [] } },
+    { op: 'addNode', node: { id: 'edit_1', label: 'Insertion Sort', category: 'example', description: '', timestamps: [] } },
+    { op: 'addEdge', source: ref('node_1', 'Quick Sort'), target: ref('edit_1', 'Insertion Sort'), type: 'related' }
+  ];
+
+  const first = applyGraphEdits(base, edits);
+  const second = applyGraphEdits(base, edits);
+  assert.deepEqual(first.nodes.slice(4).map(node => [node.id, node.label]), [
+    ['node_1_2', 'Quick Sort'],
+    ['edit_1', 'Bubble Sort'],
+    ['edit_1_3', 'Insertion Sort']
+  ]);
+  assert.deepEqual(second.nodes.map(node => node.id), first.nodes.map(node => node.id));
+  assert.deepEqual(first.edges.at(-1), { source: 'node_1_2', target: 'edit_1_3', type: 'related', strength: 0.7 });
+});
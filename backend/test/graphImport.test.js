@@ -0,0 +1,159 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parseGraph, planMerge, toMergeEdits } = require('../graphImport');
+const { applyGraphEdits } = require('../graphEdits');
+
+function lecture() {
+  return {
+    nodes: [
+      { id: 'node_0', label: 'Plant Structure', category: 'definition', description: 'How a plant is built', timestamps: [0] },
+      { id: 'node_1', label: 'Root', category: 'definition', description: 'No description available', timestamps: [30] },
+      { id: 'node_2', label: 'Stem', category: 'example', description: 'Carries water up', timestamps: [60] }
+    ],
+    edges: [
+      { source: 'node_0', target: 'node_1', type: 'prerequisite', strength: 0.8 },
+      { source: 'node_2', target: 'node_1', type: 'related', strength: 0.6 }
+    ]
+  };
+}
+
+function imported(nodes, edges = []) {
+  return {
+    nodes: nodes.map((node, index) => ({ id: `imported_${index}`, ...node })),
+    edges: edges.map(([source, target, type = 'related']) => ({
+      source: `imported_${source}`,
+      target: `imported_${target}`,
+      type,
+      strength: 0.7
+    }))
+  };
+}
+
+test('parseGraph reads a Mermaid flowchart', () => {
+  const parsed = parseGraph('flowchart TD\n  A[Roots] -->|prerequisite| B[Stems]\n  B --> C[Leaves]', { fileName: 'plants.mmd' });
+  assert.equal(parsed.format, 'mermaid');
+  assert.deepEqual(parsed.nodes.map(node => node.label), ['Roots', 'Stems', 'Leaves']);
+  assert.deepEqual(parsed.edges.map(edge => edge.type), ['prerequisite', 'related']);
+});
+
+test('parseGraph strips markup from GraphML text, including escaped markup', () => {
+  const parsed = parseGraph([
+    '<graphml><key id="d0" for="node" attr.name="label"/><graph>',
+    '<node id="a"><data key="d0">&lt;img src=x onerror=alert(1)&gt;Roots &amp; Stems</data></node>',
+    '<node id="b"><data key="d0"><![CDATA[<b>Leaves</b> if a < b]]></data></node>',
+    '</graph></graphml>'
+  ].join(''), { fileName: 'plants.graphml' });
+  assert.deepEqual(parsed.nodes.map(node => node.label), ['Roots & Stems', 'Leaves if a < b']);
+});
+
+test('planMerge matches concepts by normalized label and adds the rest', () => {
+  const plan = planMerge(lecture(), imported([{ label: 'The Roots' }, { label: 'Leaves' }], [[0, 1]]));
+
+  assert.deepEqual(plan.summary.matched, [{ importedLabel: 'The Roots', id: 'node_1', label: 'Root' }]);
+  assert.deepEqual(plan.summary.added, [{ id: 'node_3', label: 'Leaves' }]);
+  assert.deepEqual(plan.edges.at(-1), { source: 'node_1', target: 'node_3', type: 'related', strength: 0.7 });
+  assert.deepEqual(plan.summary.conflicts, []);
+  assert.equal(plan.nodes.length, 4);
+});
+
+test('planMerge fills in missing descriptions and asks before replacing others', () => {
+  const file = imported([
+    { label: 'Root', description: 'Takes up water' },
+    { label: 'Stem', description: 'Holds the plant up', category: 'definition' }
+  ]);
+
+  const plan = planMerge(lecture(), file);
+  const byId = new Map(plan.nodes.map(node => [node.id, node]));
+  assert.equal(byId.get('node_1').description, 'Takes up water');
+  assert.equal(byId.get('node_2').description, 'Carries water up');
+  assert.equal(byId.get('node_2').category, 'example');
+  assert.deepEqual(plan.summary.conflicts.map(conflict => [conflict.id, conflict.choice]), [
+    ['category:imported_1', 'existing'],
+    ['description:imported_1', 'existing']
+  ]);
+  assert.equal(plan.summary.conflicts[0].message, '"Stem" is an example in the lecture and a definition in the file');
+
+  const resolved = planMerge(lecture(), file, { 'category:imported_1': 'imported', 'description:imported_1': 'imported' });
+  const stem = resolved.nodes.find(node => node.id === 'node_2');
+  assert.equal(stem.category, 'definition');
+  assert.equal(stem.description, 'Holds the plant up');
+});
+
+test('planMerge leaves the existing graph untouched', () => {
+  const existing = lecture();
+  planMerge(existing, imported([{ label: 'Stem', category: 'definition' }]), { 'category:imported_0': 'imported' });
+  assert.deepEqual(existing, lecture());
+});
+
+test('planMerge asks which concept an ambiguous label means', () => {
+  const existing = lecture();
+  existing.nodes.push({ id: 'node_3', label: 'Roots', category: 'definition', description: '', timestamps: [10] });
+  const file = imported([{ label: 'root' }]);
+
+  const [conflict] = planMerge(existing, file).summary.conflicts;
+  assert.equal(conflict.kind, 'match');
+  assert.deepEqual(conflict.options.map(option => option.value), ['node_3', 'node_1', 'new']);
+  assert.equal(conflict.choice, 'node_3');
+
+  const plan = planMerge(existing, file, { 'match:imported_0': 'new' });
+  assert.deepEqual(plan.summary.added, [{ id: 'node_4', label: 'root' }]);
+});
+
+test('planMerge counts duplicate links and resolves type and direction conflicts', () => {
+  const file = imported(
+    [{ label: 'Plant Structure' }, { label: 'Root' }, { label: 'Stem' }],
+    [[0, 1, 'prerequisite'], [1, 2, 'example']]
+  );
+
+  const plan = planMerge(lecture(), file);
+  assert.equal(plan.summary.duplicateEdges, 1);
+  assert.deepEqual(plan.summary.conflicts.map(conflict => conflict.kind), ['edge-direction']);
+  assert.deepEqual(plan.edges, lecture().edges);
+
+  const flipped = planMerge(lecture(), file, { 'direction:imported_1->imported_2': 'imported' });
+  assert.deepEqual(flipped.edges, [
+    lecture().edges[0],
+    { source: 'node_1', target: 'node_2', type: 'example', strength: 0.7 }
+  ]);
+
+  const retyped = planMerge(lecture(), imported([{ label: 'Plant Structure' }, { label: 'Root' }], [[0, 1, 'example']]), {
+    'type:imported_0->imported_1': 'imported'
+  });
+  assert.deepEqual(retyped.edges[0], { source: 'node_0', target: 'node_1', type: 'example', strength: 0.7 });
+});
+
+test('toMergeEdits replays a merge onto the lecture it was planned on', () => {
+  const file = imported(
+    [{ label: 'Root', description: 'Takes up water' }, { label: 'Leaves', category: 'application' }, { label: 'Stem' }],
+    [[0, 1, 'prerequisite'], [0, 2, 'example']]
+  );
+  const plan = planMerge(lecture(), file, { 'direction:imported_0->imported_2': 'imported' });
+  const edits = toMergeEdits(lecture(), plan);
+
+  assert.deepEqual(edits.map(edit => edit.op), ['updateNode', 'addNode', 'deleteEdge', 'addEdge', 'addEdge']);
+
+  const replayed = applyGraphEdits(lecture(), edits);
+  assert.deepEqual(replayed.skipped, []);
+  assert.deepEqual(
+    replayed.nodes.map(({ id, label, category, description }) => ({ id, label, category, description })),
+    plan.nodes.map(({ id, label, category, description }) => ({ id, label, category, description }))
+  );
+  assert.deepEqual(
+    replayed.edges.map(({ source, target, type, strength }) => ({ source, target, type, strength })),
+    plan.edges.map(({ source, target, type, strength }) => ({ source, target, type, strength }))
+  );
+});
+
+test('toMergeEdits keeps the strength of imported and retyped links', () => {
+  const file = imported([{ label: 'Plant Structure' }, { label: 'Root' }, { label: 'Leaves' }], [[0, 1, 'example'], [1, 2]]);
+  file.edges[0].strength = 0.3;
+  file.edges[1].strength = 0.9;
+  const plan = planMerge(lecture(), file, { 'type:imported_0->imported_1': 'imported' });
+  const edits = toMergeEdits(lecture(), plan);
+
+  assert.deepEqual(edits.filter(edit => edit.op !== 'addNode').map(({ op, type, strength }) => ({ op, type, strength })), [
+    { op: 'updateEdge', type: 'example', strength: 0.3 },
+    { op: 'addEdge', type: 'related', strength: 0.9 }
+  ]);
+  assert.deepEqual(applyGraphEdits(lecture(), edits).edges.map(edge => edge.strength), [0.3, 0.6, 0.9]);
+});
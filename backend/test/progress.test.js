@@ -0,0 +1,36 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createProgressTracker } = require('../progress');
+
+const stages = [{ id: 'convert', label: 'Converting', weight: 1 }, { id: 'transcribe', label: 'Transcribing', weight: 3 }];
+
+function track(previousLogs) {
+  const snapshots = [];
+  const progress = createProgressTracker(snapshot => snapshots.push(snapshot), stages, previousLogs);
+  return { progress, last: () => snapshots[snapshots.length - 1] };
+}
+
+test('createProgressTracker numbers log lines and weights stage progress', (t) => {
+  t.mock.method(console, 'log', () => {});
+  const { progress, last } = track();
+
+  progress.start('convert');
+  progress.complete('convert', 'Audio ready');
+  progress.update('transcribe', 50);
+
+  assert.equal(last().progress, 62.5);
+  assert.deepEqual(last().logs.map(entry => [entry.seq, entry.message]), [[1, 'Converting'], [2, 'Audio ready']]);
+});
+
+test('createProgressTracker carries on the log of a job resumed after a restart', (t) => {
+  t.mock.method(console, 'log', () => {});
+  const previousLogs = [
+    { seq: 6, time: '2026-01-01T00:00:00.000Z', level: 'info', message: 'Converting' },
+    { seq: 7, time: '2026-01-01T00:00:05.000Z', level: 'info', message: 'Transcribing' }
+  ];
+  const { progress, last } = track(previousLogs);
+
+  progress.start('convert');
+  assert.deepEqual(last().logs.map(entry => entry.seq), [6, 7, 8]);
+  assert.equal(previousLogs.length, 2);
+});
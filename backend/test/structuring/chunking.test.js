@@ -0,0 +1,52 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { splitTranscriptIntoChunks, mergeChunkStructures } = require('../../structuring/chunking');
+
+function windowResult(topics, segmentIds) {
+  return {
+    lecture_info: { title: 'Plants' },
+    hierarchical_structure: {
+      layer_1: topics.map((title, index) => ({
+        id: String(index + 1),
+        title,
+        layer_2: [{ id: `${index + 1}.1`, title: `${title} detail` }]
+      }))
+    },
+    detailed_breakdown: segmentIds.map(id => ({ id, content: `Segment ${id}` }))
+  };
+}
+
+test('splitTranscriptIntoChunks cuts on timestamps and folds a short tail into the last window', () => {
+  const transcript = ['[00:00] Roots', 'more on roots', '[05:00] Stems', '[10:00] Leaves', '[10:30] Flowers'].join('\n');
+  const chunks = splitTranscriptIntoChunks(transcript, 300);
+
+  assert.deepEqual(chunks.map(({ start, end }) => [start, end]), [[0, 300], [300, 630]]);
+  assert.equal(chunks[0].text, '[00:00] Roots\nmore on roots');
+});
+
+test('mergeChunkStructures numbers topics across windows and folds a continued topic', () => {
+  const merged = mergeChunkStructures([
+    windowResult(['Roots', 'Stems'], ['1.1', '2.1.1']),
+    windowResult(['Stems', 'Leaves'], ['1.1', '2.1'])
+  ]);
+
+  assert.deepEqual(merged.hierarchical_structure.layer_1.map(item => [item.id, item.title]), [['1', 'Roots'], ['2', 'Stems'], ['3', 'Leaves']]);
+  assert.deepEqual(merged.hierarchical_structure.layer_1[1].layer_2.map(item => item.id), ['2.1', '2.2']);
+  assert.deepEqual(merged.detailed_breakdown.map(segment => segment.id), ['1.1', '2.1.1', '2.2', '3.1']);
+});
+
+test('mergeChunkStructures drops breakdown segments that have no place in their window', (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const merged = mergeChunkStructures([
+    windowResult(['Roots', 'Stems'], ['1.1']),
+    windowResult(['Leaves'], ['1.1', '2.1', '4'])
+  ]);
+
+  // Window two's "2.1" and "4" are not in its hierarchy; kept as they are,
+  // "2.1" would land on the Stems topic of window one
+  assert.deepEqual(merged.detailed_breakdown.map(segment => [segment.id, segment.content]), [
+    ['1.1', 'Segment 1.1'],
+    ['3.1', 'Segment 1.1']
+  ]);
+  assert.equal(console.warn.mock.callCount(), 2);
+});
@@ -0,0 +1,130 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  parseSubtitles,
+  cuesToTranscript,
+  isTextSubtitleCodec,
+  toWebVTT,
+  buildCaptionCues,
+  buildChapterCues
+} = require('../subtitles');
+
+const SRT = [
+  '﻿1',
+  '00:00:01,000 --> 00:00:03,500',
+  '<i>Hello</i> there',
+  'class',
+  '',
+  '2',
+  '00:00:03,500 --> 00:00:05,000',
+  'Roots &amp; stems',
+  '',
+  '3',
+  '00:00:25,000 --> 00:00:27,000',
+  '{\\an8}New topic',
+  ''
+].join('\r\n');
+
+const VTT = [
+  'WEBVTT',
+  '',
+  'NOTE written by hand',
+  '',
+  '00:01.000 --> 00:02.500 align:start',
+  '<v Prof>Roll call</v>',
+  '',
+  '00:02.500 --> 00:04.000',
+  '<v Prof>Roll call</v>',
+  '',
+  'late-cue',
+  '01:00:00.000 --> 01:00:02.000',
+  'Late'
+].join('\n');
+
+test('parseSubtitles reads SRT and strips markup', () => {
+  assert.deepEqual(parseSubtitles(SRT), [
+    { start: 1, end: 3.5, text: 'Hello there class' },
+    { start: 3.5, end: 5, text: 'Roots & stems' },
+    { start: 25, end: 27, text: 'New topic' }
+  ]);
+});
+
+test('parseSubtitles reads WebVTT and folds roll-up repeats', () => {
+  assert.deepEqual(parseSubtitles(VTT), [
+    { start: 1, end: 4, text: 'Roll call' },
+    { start: 3600, end: 3602, text: 'Late' }
+  ]);
+});
+
+test('parseSubtitles returns nothing for text without cues', () => {
+  assert.deepEqual(parseSubtitles('WEBVTT\n\nNOTE nothing here'), []);
+  assert.deepEqual(parseSubtitles(undefined), []);
+});
+
+test('cuesToTranscript starts a paragraph after a pause', () => {
+  assert.equal(
+    cuesToTranscript(parseSubtitles(SRT)),
+    '[00:01] Hello there class Roots & stems\n\n[00:25] New topic'
+  );
+  assert.equal(cuesToTranscript(parseSubtitles(VTT)), '[00:01] Roll call\n\n[1:00:00] Late');
+});
+
+test('isTextSubtitleCodec tells text tracks from image tracks', () => {
+  assert.equal(isTextSubtitleCodec('SubRip'), true);
+  assert.equal(isTextSubtitleCodec('mov_text'), true);
+  assert.equal(isTextSubtitleCodec('hdmv_pgs_subtitle'), false);
+  assert.equal(isTextSubtitleCodec(undefined), false);
+});
+
+test('toWebVTT escapes cue text and skips empty cues', () => {
+  assert.equal(
+    toWebVTT([
+      { start: 0, end: 1.5, text: 'a < b &\nc' },
+      { start: 2, end: 2, text: 'empty' },
+      { start: 3661.25, end: 3662, text: 'later' }
+    ]),
+    'WEBVTT\n\n00:00:00.000 --> 00:00:01.500\na &lt; b &amp; c\n\n01:01:01.250 --> 01:01:02.000\nlater\n'
+  );
+  assert.equal(toWebVTT([]), 'WEBVTT\n\n');
+});
+
+test('buildCaptionCues splits long segments and shares their time by length', () => {
+  const word = 'x'.repeat(41);
+  const cues = buildCaptionCues([{ start: 10, end: 20, text: `${word} ${word} ${word}` }]);
+  assert.deepEqual(cues.map(cue => cue.text), [`${word} ${word}`, word]);
+  assert.equal(cues[0].start, 10);
+  assert.ok(Math.abs(cues[0].end - (10 + 10 * 83 / 124)) < 1e-9);
+  assert.equal(cues[1].end, 20);
+});
+
+test('buildChapterCues names subtopic chapters after their topic', () => {
+  const structuredData = {
+    hierarchical_structure: {
+      layer_1: [
+        { id: '1', title: 'Plants', layer_2: [{ id: '1.1', title: 'Roots' }, { id: '1.2', title: 'Stems' }] },
+        { id: '2', title: 'Review', layer_2: [] }
+      ]
+    },
+    detailed_breakdown: [
+      { id: '1', timestamp: '0:00-0:20' },
+      { id: '1.1', timestamp: '0:20-1:00' },
+      { id: '1.2', timestamp: '1:00-2:00' },
+      { id: '2', timestamp: '2:00-2:30' }
+    ]
+  };
+  assert.deepEqual(buildChapterCues(structuredData, 180), [
+    { start: 0, end: 20, text: 'Plants' },
+    { start: 20, end: 60, text: 'Plants: Roots' },
+    { start: 60, end: 120, text: 'Plants: Stems' },
+    { start: 120, end: 180, text: 'Review' }
+  ]);
+});
+
+test('buildChapterCues uses subtopic titles alone when there is one topic', () => {
+  const structuredData = {
+    hierarchical_structure: { layer_1: [{ id: '1', title: 'Plants', layer_2: [{ id: '1.1', title: 'Roots' }] }] },
+    detailed_breakdown: [{ id: '1.1', timestamp: '0:00-1:00' }]
+  };
+  assert.deepEqual(buildChapterCues(structuredData, 0), [{ start: 0, end: 60, text: 'Roots' }]);
+  assert.deepEqual(buildChapterCues(null, 60), []);
+});
@@ -0,0 +1,73 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  parseTimestamp,
+  parseTimestampRange,
+  formatTimestamp,
+  parseLeadingTimestamp,
+  createTranscriptSegments
+} = require('../timestamps');
+
+test('parseTimestamp reads minutes and hours', () => {
+  assert.equal(parseTimestamp('1:15'), 75);
+  assert.equal(parseTimestamp(' 01:15 '), 75);
+  assert.equal(parseTimestamp('1:02:03'), 3723);
+  assert.equal(parseTimestamp('1:5'), null);
+  assert.equal(parseTimestamp('[1:15]'), null);
+  assert.equal(parseTimestamp(''), null);
+});
+
+test('parseTimestampRange accepts any dash and falls back to a zero-length interval', () => {
+  assert.deepEqual(parseTimestampRange('0:00-0:30'), { start: 0, end: 30 });
+  assert.deepEqual(parseTimestampRange('12:05 - 13:40'), { start: 725, end: 820 });
+  assert.deepEqual(parseTimestampRange('59:30–1:00:10'), { start: 3570, end: 3610 });
+  assert.deepEqual(parseTimestampRange('1:00'), { start: 60, end: 60 });
+  // An end before the start is ignored
+  assert.deepEqual(parseTimestampRange('2:00 - 1:00'), { start: 120, end: 120 });
+  assert.equal(parseTimestampRange('soon'), null);
+  assert.equal(parseTimestampRange(undefined), null);
+});
+
+test('formatTimestamp drops the hours until they are needed', () => {
+  assert.equal(formatTimestamp(0), '0:00');
+  assert.equal(formatTimestamp(75.9), '1:15');
+  assert.equal(formatTimestamp(3723), '1:02:03');
+});
+
+test('parseLeadingTimestamp only reads a marker at the start of the line', () => {
+  assert.equal(parseLeadingTimestamp('  [01:15] Roots'), 75);
+  assert.equal(parseLeadingTimestamp('[1:02:03] Leaves'), 3723);
+  assert.equal(parseLeadingTimestamp('Roots [01:15]'), null);
+});
+
+test('createTranscriptSegments runs each marker until the next one', () => {
+  const segments = createTranscriptSegments('[00:00] Intro\n[00:30] Roots\n[01:00] Stems', 90);
+  assert.deepEqual(segments, [
+    { start: 0, end: 30, text: 'Intro' },
+    { start: 30, end: 60, text: 'Roots' },
+    { start: 60, end: 90, text: 'Stems' }
+  ]);
+});
+
+test('createTranscriptSegments shares a marker\'s time by text length', () => {
+  const segments = createTranscriptSegments('[00:00] abc\nabcdefghi\n[00:40] end', 50);
+  assert.deepEqual(segments, [
+    { start: 0, end: 10, text: 'abc' },
+    { start: 10, end: 40, text: 'abcdefghi' },
+    { start: 40, end: 50, text: 'end' }
+  ]);
+});
+
+test('createTranscriptSegments treats a marker that jumps backwards as missing', () => {
+  const segments = createTranscriptSegments('[00:10] aaaa\n[00:05] bbbb\n[00:30] c', 40);
+  assert.deepEqual(segments, [
+    { start: 10, end: 20, text: 'aaaa' },
+    { start: 20, end: 30, text: 'bbbb' },
+    { start: 30, end: 40, text: 'c' }
+  ]);
+});
+
+test('createTranscriptSegments spreads text without markers over the video', () => {
+  assert.deepEqual(createTranscriptSegments('no markers', 60), [{ start: 0, end: 60, text: 'no markers' }]);
+  assert.deepEqual(createTranscriptSegments('', 60), []);
+});
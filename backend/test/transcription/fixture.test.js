@@ -0,0 +1,47 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createFixtureProvider } = require('../../transcription/fixture');
+const { createTranscriptionProvider } = require('../../transcription');
+
+function fixtureDir(t, files) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcripts-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  Object.entries(files).forEach(([name, content]) => fs.writeFileSync(path.join(dir, name), content));
+  return dir;
+}
+
+test('the fixture provider prefers a transcript named after the upload', async (t) => {
+  const directory = fixtureDir(t, { 'lecture-01.txt': '[00:00] Lecture one', 'default.txt': '[00:00] Default' });
+  const provider = createFixtureProvider({ directory });
+
+  assert.equal(await provider.transcribe('/tmp/audio.mp3', { originalFilename: 'lecture-01.mp4' }), '[00:00] Lecture one');
+  assert.equal(await provider.transcribe('/tmp/audio.mp3', { originalFilename: 'other.mp4' }), '[00:00] Default');
+  assert.equal(await provider.transcribe('/tmp/audio.mp3'), '[00:00] Default');
+});
+
+test('the fixture provider fails when there is no transcript to return', async (t) => {
+  const directory = fixtureDir(t, {});
+  await assert.rejects(
+    createFixtureProvider({ directory }).transcribe('/tmp/audio.mp3', { originalFilename: 'lecture.mp4' }),
+    /No transcript fixture found/
+  );
+});
+
+test('the fixture provider ships with a timestamped default transcript', async () => {
+  const transcript = await createFixtureProvider().transcribe('/tmp/audio.mp3', { originalFilename: 'no-such-lecture.mp4' });
+  assert.match(transcript, /^\[00:00\] /);
+});
+
+test('createTranscriptionProvider picks the provider from the environment', (t) => {
+  const directory = fixtureDir(t, {});
+  assert.equal(createTranscriptionProvider({ TRANSCRIPTION_PROVIDER: 'Fixture', TRANSCRIPTION_FIXTURE_DIR: directory }).name, 'fixture');
+
+  const local = createTranscriptionProvider({ TRANSCRIPTION_PROVIDER: 'local', LOCAL_TRANSCRIPTION_MODEL: '/models/ggml-small.bin' });
+  assert.equal(local.name, 'local');
+  assert.equal(local.model, 'ggml-small.bin');
+
+  assert.throws(() => createTranscriptionProvider({ TRANSCRIPTION_PROVIDER: 'whisper' }), /Unknown TRANSCRIPTION_PROVIDER "whisper"/);
+});
@@ -0,0 +1,35 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createLocalProvider, toTimestampedTranscript } = require('../../transcription/local');
+
+test('toTimestampedTranscript rewrites whisper.cpp lines as [MM:SS] markers', () => {
+  const output = [
+    '[00:00:00.000 --> 00:00:04.500]   Plants come in all shapes.',
+    '[00:01:02.000 --> 00:01:05.500]  The roots anchor them.'
+  ].join('\n');
+
+  assert.equal(
+    toTimestampedTranscript(output),
+    '[00:00] Plants come in all shapes.\n\n[01:02] The roots anchor them.'
+  );
+});
+
+test('toTimestampedTranscript writes hours once a lecture passes the hour mark', () => {
+  assert.equal(toTimestampedTranscript('[01:02:03,250 --> 01:02:09,000]  Late topic'), '[1:02:03] Late topic');
+});
+
+test('toTimestampedTranscript drops empty segments and keeps other lines as they are', () => {
+  const output = [
+    '',
+    '[00:00:10.000 --> 00:00:12.000]   ',
+    '  (untimed note)  ',
+    '[00:00:12.000 --> 00:00:15.000]  Stems'
+  ].join('\n');
+
+  assert.equal(toTimestampedTranscript(output), '(untimed note)\n\n[00:12] Stems');
+});
+
+test('createLocalProvider names the model file it runs', () => {
+  assert.equal(createLocalProvider({ model: '/models/ggml-base.en.bin' }).model, 'ggml-base.en.bin');
+  assert.equal(createLocalProvider({ command: 'whisper' }).model, 'whisper');
+});
@@ -0,0 +1,115 @@
+// Timestamp helpers shared by the pipeline. The transcribers emit "[MM:SS]"
+// markers, or "[H:MM:SS]" / "[HH:MM:SS]" once a video passes the hour mark.
+//
+// Keep in sync with src/lib/timestamps.ts, which the browser fallback uses;
+// `npm run check:shared` in the project root fails when the two disagree.
+
+// "[01:15]" or "[1:02:03]" anywhere in a line
+const TIMESTAMP_MARKER = /\[(\d+):(\d{2})(?::(\d{2}))?\]/g;
+
+function toSeconds(first, second, third) {
+  return third !== undefined
+    ? parseInt(first) * 3600 + parseInt(second) * 60 + parseInt(third)
+    : parseInt(first) * 60 + parseInt(second);
+}
+
+// "1:15" -> 75, "1:02:03" -> 3723; null if the text isn't a timestamp
+function parseTimestamp(text) {
+  const match = String(text).trim().match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  return match ? toSeconds(match[1], match[2], match[3]) : null;
+}
+
+// "0:00-0:30", "12:05 - 13:40" or "59:30-1:00:10" -> { start, end } in seconds.
+// A single time gives a zero-length interval; null if nothing parses.
+function parseTimestampRange(text) {
+  const [startText, endText] = String(text || '').split(/\s*[-–—]\s*/);
+  const start = parseTimestamp(startText || '');
+  if (start === null) return null;
+  const end = endText !== undefined ? parseTimestamp(endText) : null;
+  return { start, end: end !== null && end >= start ? end : start };
+}
+
+// 75 -> "1:15", 3723 -> "1:02:03"
+function formatTimestamp(seconds) {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+// Time of a marker at the very start of a line, or null
+function parseLeadingTimestamp(line) {
+  const match = line.match(/^\s*\[(\d+):(\d{2})(?::(\d{2}))?\]/);
+  return match ? toSeconds(match[1], match[2], match[3]) : null;
+}
+
+// Split the transcript into pieces of text, each with the time of the marker
+// in front of it (null when a line has no marker of its own)
+function splitOnMarkers(transcript) {
+  const pieces = [];
+
+  transcript.split('\n').forEach(line => {
+    let time = null;
+    let lastIndex = 0;
+    const push = (text) => {
+      const trimmed = text.trim();
+      if (trimmed) pieces.push({ time, text: trimmed });
+    };
+
+    for (const match of line.matchAll(TIMESTAMP_MARKER)) {
+      push(line.slice(lastIndex, match.index));
+      time = toSeconds(match[1], match[2], match[3]);
+      lastIndex = match.index + match[0].length;
+    }
+    push(line.slice(lastIndex));
+  });
+
+  return pieces;
+}
+
+// Build transcript segments from the timestamps the transcriber emitted.
+// Text without its own marker shares the time up to the next marker with the
+// text before it, in proportion to its length. Markers that jump backwards
+// are treated as missing.
+function createTranscriptSegments(transcript, duration) {
+  const pieces = splitOnMarkers(transcript);
+  if (pieces.length === 0) return [];
+
+  // Group pieces into runs that start at a known time
+  const runs = [];
+  let latest = -1;
+  pieces.forEach(piece => {
+    const anchored = piece.time !== null && piece.time > latest;
+    if (anchored) latest = piece.time;
+    if (anchored || runs.length === 0) {
+      runs.push({ start: anchored ? piece.time : 0, pieces: [] });
+    }
+    runs[runs.length - 1].pieces.push(piece.text);
+  });
+
+  const videoEnd = Math.max(duration || 0, latest);
+  const segments = [];
+
+  runs.forEach((run, index) => {
+    const runEnd = index + 1 < runs.length ? runs[index + 1].start : videoEnd;
+    const totalLength = run.pieces.reduce((sum, text) => sum + text.length, 0);
+    let start = run.start;
+
+    run.pieces.forEach(text => {
+      const end = start + (runEnd - run.start) * text.length / totalLength;
+      segments.push({ start, end, text });
+      start = end;
+    });
+  });
+
+  return segments;
+}
+
+module.exports = {
+  parseTimestamp,
+  parseTimestampRange,
+  formatTimestamp,
+  parseLeadingTimestamp,
+  createTranscriptSegments
+};
@@ -0,0 +1,31 @@
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_FIXTURE_DIR = path.join(__dirname, '..', 'fixtures', 'transcripts');
+
+// Returns canned transcripts so the pipeline can run without network access.
+// A fixture named after the uploaded file (e.g. "lecture-01.txt" for
+// "lecture-01.mp4") wins over default.txt.
+function createFixtureProvider({ directory = DEFAULT_FIXTURE_DIR } = {}) {
+  return {
+    name: 'fixture',
+    model: 'fixture',
+
+    async transcribe(audioPath, { originalFilename } = {}) {
+      const candidates = [];
+      if (originalFilename) {
+        candidates.push(path.join(directory, originalFilename.replace(/\.[^/.]+$/, '') + '.txt'));
+      }
+      candidates.push(path.join(directory, 'default.txt'));
+
+      const fixturePath = candidates.find(candidate => fs.existsSync(candidate));
+      if (!fixturePath) {
+        throw new Error(`No transcript fixture found in ${directory}`);
+      }
+
+      return fs.readFileSync(fixturePath, 'utf8');
+    }
+  };
+}
+
+module.exports = { createFixtureProvider };
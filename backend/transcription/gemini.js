@@ -0,0 +1,43 @@
+const fs = require('fs');
+const crypto = require('crypto');
+const { GoogleGenerativeAI } = require('@google/generative-ai');
+
+const TRANSCRIPTION_PROMPT = `
+      Please transcribe this audio file. The audio contains a lecture or educational content.
+      Provide a clean, accurate transcript with proper punctuation and formatting.
+      Include timestamps in the format [MM:SS] at the beginning of each major segment or topic change.
+      Focus on accuracy and clarity for educational content.
+    `;
+
+// Sends the whole audio file inline to Gemini
+function createGeminiProvider({ apiKey, model = 'gemini-1.5-flash' }) {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const geminiModel = genAI.getGenerativeModel({ model });
+
+  return {
+    name: 'gemini',
+    model,
+    // Changes whenever the prompt does, so cached transcripts from an older prompt aren't reused
+    promptVersion: crypto.createHash('sha256').update(TRANSCRIPTION_PROMPT).digest('hex').slice(0, 12),
+
+    async transcribe(audioPath) {
+      const audioBuffer = fs.readFileSync(audioPath);
+      const base64Audio = audioBuffer.toString('base64');
+
+      const result = await geminiModel.generateContent([
+        TRANSCRIPTION_PROMPT,
+        {
+          inlineData: {
+            data: base64Audio,
+            mimeType: 'audio/mp3'
+          }
+        }
+      ]);
+
+      const response = await result.response;
+      return response.text();
+    }
+  };
+}
+
+module.exports = { createGeminiProvider };
@@ -0,0 +1,31 @@
+const { createGeminiProvider } = require('./gemini');
+const { createLocalProvider } = require('./local');
+const { createFixtureProvider } = require('./fixture');
+
+// Picks the transcription provider from the environment:
+//   TRANSCRIPTION_PROVIDER = gemini (default) | local | fixture
+function createTranscriptionProvider(env = process.env) {
+  const provider = (env.TRANSCRIPTION_PROVIDER || 'gemini').toLowerCase();
+
+  switch (provider) {
+    case 'gemini':
+      return createGeminiProvider({
+        apiKey: env.GEMINI_API,
+        model: env.GEMINI_TRANSCRIPTION_MODEL || undefined
+      });
+    case 'local':
+      return createLocalProvider({
+        command: env.LOCAL_TRANSCRIPTION_COMMAND || undefined,
+        model: env.LOCAL_TRANSCRIPTION_MODEL,
+        args: env.LOCAL_TRANSCRIPTION_ARGS || undefined
+      });
+    case 'fixture':
+      return createFixtureProvider({
+        directory: env.TRANSCRIPTION_FIXTURE_DIR || undefined
+      });
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${provider}" (expected gemini, local or fixture)`);
+  }
+}
+
+module.exports = { createTranscriptionProvider };
@@ -0,0 +1,88 @@
+const fs = require('fs');
+const path = require('path');
+const { spawn } = require('child_process');
+const ffmpeg = require('fluent-ffmpeg');
+
+// whisper.cpp only reads 16kHz mono WAV
+function convertToWav(inputPath, outputPath) {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .audioFrequency(16000)
+      .audioChannels(1)
+      .audioCodec('pcm_s16le')
+      .toFormat('wav')
+      .on('end', () => resolve(outputPath))
+      .on('error', reject)
+      .save(outputPath);
+  });
+}
+
+function runCommand(command, args) {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (chunk) => { stdout += chunk; });
+    child.stderr.on('data', (chunk) => { stderr += chunk; });
+    child.on('error', (err) => {
+      reject(new Error(`Could not run ${command}: ${err.message}`));
+    });
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim().split('\n').pop()}`));
+      }
+    });
+  });
+}
+
+// whisper.cpp prints "[00:01:02.000 --> 00:01:05.500]  text"; rewrite each line
+// to the "[MM:SS] text" form the rest of the pipeline expects from Gemini
+function toTimestampedTranscript(output) {
+  return output
+    .split('\n')
+    .map(line => {
+      const match = line.match(/^\[(\d+):(\d+):(\d+)(?:[.,]\d+)?\s*-->\s*[^\]]*\]\s*(.*)$/);
+      if (!match) return line.trim();
+
+      const hours = parseInt(match[1]);
+      const minutes = parseInt(match[2]);
+      const seconds = parseInt(match[3]);
+      const text = match[4].trim();
+      const stamp = hours > 0
+        ? `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+        : `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+      return text ? `[${stamp}] ${text}` : '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// Runs a locally installed speech-to-text binary such as whisper.cpp.
+// `args` may use {input} and {model} placeholders.
+function createLocalProvider({ command = 'whisper-cli', model, args = '-m {model} -f {input}' }) {
+  return {
+    name: 'local',
+    model: model ? path.basename(model) : command,
+
+    async transcribe(audioPath) {
+      const wavPath = audioPath.replace(path.extname(audioPath), '.wav');
+      await convertToWav(audioPath, wavPath);
+
+      try {
+        const commandArgs = args
+          .split(/\s+/)
+          .filter(Boolean)
+          .map(arg => arg.replace('{input}', wavPath).replace('{model}', model || ''));
+        const output = await runCommand(command, commandArgs);
+        return toTimestampedTranscript(output);
+      } finally {
+        if (fs.existsSync(wavPath)) fs.unlinkSync(wavPath);
+      }
+    }
+  };
+}
+
+module.exports = { createLocalProvider, toTimestampedTranscript };
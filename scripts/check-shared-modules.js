@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+
+// Checks that the modules kept in two copies, one for the server and one for
+// the browser, still behave the same:
+//
+//   backend/graphEdits.js  <->  src/lib/graphEdits.ts
+//   backend/timestamps.js  <->  src/lib/timestamps.ts
+//
+// Runs both copies of every function they share on the same inputs and
+// fails, listing the differences, when any result differs.
+//
+//   npm run check:shared
+
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import { isDeepStrictEqual } from 'util';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const require = createRequire(import.meta.url);
+
+function loadTypeScript(file) {
+  const source = fs.readFileSync(path.join(root, file), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 }
+  });
+  const module = { exports: {} };
+  new Function('module', 'exports', 'require', outputText)(module, module.exports, require);
+  return module.exports;
+}
+
+function loadBackend(file) {
+  return require(path.join(root, 'backend', file));
+}
+
+// New nodes are placed at random; both copies draw the same numbers
+function withFixedRandom(run) {
+  const random = Math.random;
+  Math.random = () => 0.5;
+  try {
+    return run();
+  } finally {
+    Math.random = random;
+  }
+}
+
+const node = (id, label, timestamps = [], extra = {}) => ({
+  id,
+  label,
+  x: 0,
+  y: 0,
+  size: 14,
+  color: '#000',
+  timestamps,
+  intervals: timestamps.map(start => ({ start, end: start + 30 })),
+  description: `About ${label}`,
+  category: 'definition',
+  isActive: false,
+  ...extra
+});
+
+const graph = {
+  nodes: [
+    node('node_0', 'Introduction to Plant Structure', [0]),
+    node('node_1', 'The Roots', [30, 90]),
+    node('node_2', 'Stem', [60]),
+    node('node_3', 'Leaves', [120], { description: '' }),
+    node('node_4', 'Photosynthesis', [150])
+  ],
+  edges: [
+    { source: 'node_0', target: 'node_1', type: 'prerequisite', strength: 0.8 },
+    { source: 'node_1', target: 'node_2', type: 'related', strength: 0.6 },
+    { source: 'node_3', target: 'node_4', type: 'application', strength: 0.5, inferred: true, confidence: 0.4, reason: 'co-occurs' }
+  ]
+};
+
+const editCases = {
+  'every operation': [
+    { op: 'addNode', node: { id: 'edit_a', label: 'Flower', category: 'example', description: 'Blooms', timestamps: [200, 180, 200] } },
+    { op: 'updateNode', node: { id: 'node_2', label: 'Stem' }, changes: { label: 'Stems', timestamps: [60, 75] } },
+    { op: 'addEdge', source: { id: 'edit_a', label: 'Flower' }, target: { id: 'node_2', label: 'Stems' }, type: 'example' },
+    { op: 'updateEdge', source: { id: 'node_3', label: 'Leaves' }, target: { id: 'node_4', label: 'Photosynthesis' }, type: 'related' },
+    { op: 'addEdge', source: { id: 'node_1', label: 'The Roots' }, target: { id: 'node_4', label: 'Photosynthesis' }, type: 'related', strength: 0.3 },
+    { op: 'updateEdge', source: { id: 'node_1', label: 'The Roots' }, target: { id: 'node_2', label: 'Stems' }, type: 'example', strength: 0.9 },
+    { op: 'mergeNodes', source: { id: 'node_4', label: 'Photosynthesis' }, target: { id: 'node_3', label: 'Leaves' } },
+    { op: 'deleteEdge', source: { id: 'node_0', label: 'Introduction to Plant Structure' }, target: { id: 'node_1', label: 'The Roots' } },
+    { op: 'deleteNode', node: { id: 'node_0', label: 'Introduction to Plant Structure' } }
+  ],
+  'labels after a re-run renumbered the nodes': [
+    { op: 'updateNode', node: { id: 'node_9', label: 'root' }, changes: { category: 'prerequisite' } },
+    { op: 'addEdge', source: { id: 'node_4', label: 'Leaf' }, target: { id: 'node_7', label: 'Plant structure' }, type: 'related' }
+  ],
+  'a taken id': [
+    { op: 'addNode', node: { id: 'node_1', label: 'Seeds', category: 'definition', description: '', timestamps: [] } },
+    { op: 'addNode', node: { id: 'node_1', label: 'Fruit', category: 'definition', description: '', timestamps: [] } },
+    { op: 'addEdge', source: { id: 'node_1', label: 'Fruit' }, target: { id: 'node_1', label: 'Seeds' }, type: 'related' }
+  ],
+  'edits that no longer fit': [
+    { op: 'addNode', node: { id: 'edit_b', label: 'root', category: 'definition', description: '', timestamps: [] } },
+    { op: 'updateNode', node: { id: 'node_8', label: 'Xylem' }, changes: { label: 'Phloem' } },
+    { op: 'mergeNodes', source: { id: 'node_2', label: 'Stem' }, target: { id: 'node_2', label: 'Stem' } },
+    { op: 'addEdge', source: { id: 'node_0', label: 'Introduction to Plant Structure' }, target: { id: 'node_1', label: 'The Roots' }, type: 'related' },
+    { op: 'deleteEdge', source: { id: 'node_2', label: 'Stem' }, target: { id: 'node_0', label: 'Introduction to Plant Structure' } }
+  ]
+};
+
+const transcript = [
+  '[00:00] Welcome to the lecture on plants.',
+  'Today we look at their structure.',
+  '[00:45] The roots anchor the plant.',
+  '[1:02:03] Much later: the leaves. [1:02:30] And the flowers.'
+].join('\n');
+
+const timestampCases = {
+  parseTimestamp: [['1:05'], ['01:02:03'], ['[1:05]'], ['0:00'], ['1:5'], ['abc'], ['']],
+  parseTimestampRange: [['[0:30 - 1:45]'], ['0:30-1:45'], ['[1:00:00 – 1:02:00]'], ['1:45 - 0:30'], ['0:30'], ['nope']],
+  formatTimestamp: [[0], [59], [61], [599.9], [3600], [3725.7]],
+  createTranscriptSegments: [[transcript, 4000], ['No markers at all, just text. Second sentence.', 120], ['', 60]]
+};
+
+function compare(name, server, browser, problems) {
+  if (!isDeepStrictEqual(server, browser)) {
+    problems.push(`${name}\n    server:  ${JSON.stringify(server)}\n    browser: ${JSON.stringify(browser)}`);
+  }
+}
+
+function checkGraphEdits(problems) {
+  const server = loadBackend('graphEdits.js');
+  const browser = loadTypeScript('src/lib/graphEdits.ts');
+  Object.entries(editCases).forEach(([name, edits]) => {
+    compare(
+      `graphEdits: ${name}`,
+      withFixedRandom(() => server.applyGraphEdits(graph, edits)),
+      withFixedRandom(() => browser.applyGraphEdits(graph, edits)),
+      problems
+    );
+  });
+}
+
+function checkTimestamps(problems) {
+  const server = loadBackend('timestamps.js');
+  const browser = loadTypeScript('src/lib/timestamps.ts');
+  Object.entries(timestampCases).forEach(([fn, cases]) => {
+    cases.forEach(args => {
+      compare(`timestamps: ${fn}(${args.map(arg => JSON.stringify(arg)).join(', ')})`, server[fn](...args), browser[fn](...args), problems);
+    });
+  });
+}
+
+const problems = [];
+checkGraphEdits(problems);
+checkTimestamps(problems);
+
+if (problems.length > 0) {
+  console.error(`The server and browser copies differ:\n\n  ${problems.join('\n  ')}`);
+  process.exit(1);
+}
+console.log(`Server and browser copies agree (${Object.keys(editCases).length} edit logs, ${Object.values(timestampCases).flat().length} timestamp calls)`);
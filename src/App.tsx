@@ -2,27 +2,14 @@ import { useState } from 'react'
 import { EduGraph } from './components/EduGraph'
 import { Home } from './components/Home'
 import { VideoView } from './components/VideoView'
+import { Search } from './components/Search'
 import { Button } from './components/ui/button'
-import { Home as HomeIcon, Upload, Network, GraduationCap, ArrowLeft } from 'lucide-react'
+import { Home as HomeIcon, Upload, Network, GraduationCap, ArrowLeft, Search as SearchIcon } from 'lucide-react'
 
-interface ProcessedVideo {
-  id: string;
-  filename: string;
-  title: string;
-  nodes: any[];
-  edges: any[];
-  metadata: {
-    source_video?: string;
-    generated_on?: string;
-    type?: string;
-    node_count?: number;
-    edge_count?: number;
-  };
-}
 
 function App() {
-  const [currentView, setCurrentView] = useState<'home' | 'upload' | 'video'>('home')
-  const [selectedVideo, setSelectedVideo] = useState<ProcessedVideo | null>(null)
+  const [currentView, setCurrentView] = useState<'home' | 'upload' | 'search' | 'video'>('home')
+  const [selectedVideo, setSelectedVideo] = useState<{ id: string; startTime?: number } | null>(null)
 
   return (
     <div className="min-h-screen bg-background">
@@ -65,6 +52,17 @@ function App() {
                 <HomeIcon className="h-4 w-4" />
                 Home
               </Button>
+              <Button
+                variant={currentView === 'search' ? 'default' : 'ghost'}
+                onClick={() => {
+                  setCurrentView('search')
+                  setSelectedVideo(null)
+                }}
+                className="flex items-center gap-2"
+              >
+                <SearchIcon className="h-4 w-4" />
+                Search
+              </Button>
               <Button
                 variant={currentView === 'upload' ? 'default' : 'ghost'}
                 onClick={() => {
@@ -82,9 +80,17 @@ function App() {
       </div>
 
       {/* Main Content */}
-      {currentView === 'home' && <Home onVideoClick={setSelectedVideo} onNavigateToVideo={() => setCurrentView('video')} />}
+      {currentView === 'home' && <Home onVideoClick={(video) => setSelectedVideo({ id: video.id })} onNavigateToVideo={() => setCurrentView('video')} />}
       {currentView === 'upload' && <EduGraph />}
-      {currentView === 'video' && selectedVideo && <VideoView video={selectedVideo} />}
+      {currentView === 'search' && (
+        <Search
+          onOpenVideo={(id, startTime) => {
+            setSelectedVideo({ id, startTime })
+            setCurrentView('video')
+          }}
+        />
+      )}
+      {currentView === 'video' && selectedVideo && <VideoView videoId={selectedVideo.id} startTime={selectedVideo.startTime} />}
     </div>
   )
 }
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { videoLibrary, ConceptNode, ConceptOccurrence } from '../services/videoLibrary';
+import { formatTimestamp } from '../lib/timestamps';
+import { Loader2, Merge, RotateCcw, Split } from 'lucide-react';
+
+interface ConceptOccurrencesProps {
+  concept: ConceptNode;
+  // Every concept in the combined graph, as merge targets
+  concepts: ConceptNode[];
+  // Called after a merge, split or reset so the graph can be reloaded
+  onChange: () => void;
+}
+
+// Where a combined concept comes up in each lecture, with controls to fix
+// the automatic matching: split a lecture's occurrence out, merge the whole
+// concept into another, or undo either
+export const ConceptOccurrences: React.FC<ConceptOccurrencesProps> = ({ concept, concepts, onChange }) => {
+  const [mergeTarget, setMergeTarget] = useState<string | undefined>(undefined);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setMergeTarget(undefined);
+      onChange();
+    } catch (error) {
+      console.error('Error updating concept matching:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update concept matching');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const otherConcepts = concepts
+    .filter(other => other.id !== concept.id)
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const renderOccurrence = (occurrence: ConceptOccurrence) => (
+    <li key={`${occurrence.videoId}-${occurrence.nodeId}`} className="flex items-start justify-between gap-2">
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{occurrence.videoTitle}</p>
+        <p className="text-xs text-muted-foreground">
+          {occurrence.label !== concept.label && <>as “{occurrence.label}” · </>}
+          {occurrence.timestamps.length > 0
+            ? occurrence.timestamps.map(formatTimestamp).join(', ')
+            : 'no timestamps'}
+        </p>
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        {occurrence.overridden && <Badge variant="outline">Manual</Badge>}
+        {occurrence.overridden ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={busy}
+            onClick={() => run(() => videoLibrary.resetConceptOverride(occurrence))}
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Reset
+          </Button>
+        ) : concept.occurrences.length > 1 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={busy}
+            onClick={() => run(() => videoLibrary.splitConcept(occurrence))}
+          >
+            <Split className="h-4 w-4 mr-1" />
+            Split out
+          </Button>
+        )}
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="font-medium text-foreground mb-2">
+          Covered in {concept.videoIds.length} {concept.videoIds.length === 1 ? 'lecture' : 'lectures'}
+        </h4>
+        <ul className="space-y-2">{concept.occurrences.map(renderOccurrence)}</ul>
+      </div>
+
+      <div>
+        <h4 className="font-medium text-foreground mb-2">Same concept as</h4>
+        <div className="flex items-center gap-2">
+          <Select value={mergeTarget} onValueChange={setMergeTarget}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Pick a concept to merge into" />
+            </SelectTrigger>
+            <SelectContent>
+              {otherConcepts.map(other => (
+                <SelectItem key={other.id} value={other.id}>
+                  {other.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            disabled={!mergeTarget || busy}
+            onClick={() => mergeTarget && run(() => videoLibrary.mergeConcepts(concept.id, mergeTarget))}
+          >
+            {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Merge className="h-4 w-4 mr-2" />}
+            Merge
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import { Badge } from './ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
 import { Separator } from './ui/separator';
 import { GraphNode } from './EduGraph';
+import { formatTimestamp, getConceptIntervals } from '../lib/timestamps';
 
 interface ConceptTimelineProps {
   duration: number;
@@ -18,11 +19,9 @@ export const ConceptTimeline: React.FC<ConceptTimelineProps> = ({
   concepts,
   onClick
 }) => {
-  const formatTime = useCallback((time: number) => {
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-  }, []);
+  const formatInterval = (start: number, end: number) => (
+    end > start ? `${formatTimestamp(start)}–${formatTimestamp(end)}` : formatTimestamp(start)
+  );
 
   const handleTimelineClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
     const rect = e.currentTarget.getBoundingClientRect();
@@ -48,7 +47,7 @@ export const ConceptTimeline: React.FC<ConceptTimelineProps> = ({
           <div className="flex items-center justify-between">
             <CardTitle className="text-lg">Concept Timeline</CardTitle>
             <CardDescription className="text-sm">
-              {formatTime(currentTime)} / {formatTime(duration)}
+              {formatTimestamp(currentTime)} / {formatTimestamp(duration)}
             </CardDescription>
           </div>
         </CardHeader>
@@ -72,15 +71,33 @@ export const ConceptTimeline: React.FC<ConceptTimelineProps> = ({
                 style={{ left: `${(currentTime / duration) * 100}%` }}
               />
 
+              {/* Concept Spans */}
+              {concepts.map((concept) =>
+                getConceptIntervals(concept)
+                  .filter(interval => interval.end > interval.start)
+                  .map((interval, index) => (
+                    <div
+                      key={`${concept.id}-span-${index}`}
+                      className="absolute top-0 h-full pointer-events-none transition-opacity duration-200"
+                      style={{
+                        left: `${(interval.start / duration) * 100}%`,
+                        width: `${((interval.end - interval.start) / duration) * 100}%`,
+                        backgroundColor: getCategoryColor(concept.category),
+                        opacity: concept.isActive ? 0.45 : 0.2
+                      }}
+                    />
+                  ))
+              )}
+
               {/* Concept Markers */}
               {concepts.map((concept) =>
-                concept.timestamps.map((timestamp, index) => (
+                getConceptIntervals(concept).map((interval, index) => (
                   <Tooltip key={`${concept.id}-${index}`}>
                     <TooltipTrigger asChild>
                       <div
                         className="absolute top-1 w-8 h-8 rounded-full border-2 border-background cursor-pointer transition-all duration-200 hover:scale-110 flex items-center justify-center text-xs font-bold text-white shadow-lg"
                         style={{ 
-                          left: `${(timestamp / duration) * 100}%`,
+                          left: `${(interval.start / duration) * 100}%`,
                           backgroundColor: getCategoryColor(concept.category),
                           transform: 'translateX(-50%)',
                           zIndex: concept.isActive ? 15 : 10,
@@ -88,7 +105,7 @@ export const ConceptTimeline: React.FC<ConceptTimelineProps> = ({
                         }}
                         onClick={(e) => {
                           e.stopPropagation();
-                          onClick(timestamp);
+                          onClick(interval.start);
                         }}
                       >
                         {concept.isActive && (
@@ -97,7 +114,7 @@ export const ConceptTimeline: React.FC<ConceptTimelineProps> = ({
                       </div>
                     </TooltipTrigger>
                     <TooltipContent>
-                      <p>{concept.label} - {formatTime(timestamp)}</p>
+                      <p>{concept.label} - {formatInterval(interval.start, interval.end)}</p>
                     </TooltipContent>
                   </Tooltip>
                 ))
@@ -1,11 +1,14 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { VideoUpload } from './VideoUpload';
 import { VideoPlayer } from './VideoPlayer';
 import { KnowledgeGraph } from './KnowledgeGraph';
 import { ConceptTimeline } from './ConceptTimeline';
 import { ConceptPanel } from './ConceptPanel';
+import { TranscriptPanel } from './TranscriptPanel';
 import { Header } from './Header';
-import { VideoProcessor, ProcessingProgress } from '../services/videoProcessor';
+import { VideoProcessor, ProcessingProgress, ProcessedVideoData, BackendUnavailableError } from '../services/videoProcessor';
+import { TimeInterval, getConceptIntervals, isWithinIntervals } from '../lib/timestamps';
+import { videoLibrary } from '../services/videoLibrary';
 import { 
   SidebarProvider, 
   Sidebar, 
@@ -27,6 +30,8 @@ export interface GraphNode {
   size: number;
   color: string;
   timestamps: number[];
+  // Start-end spans from the structured breakdown; missing on graphs saved before they were stored
+  intervals?: TimeInterval[];
   description: string;
   category: 'definition' | 'example' | 'application' | 'prerequisite';
   isActive: boolean;
@@ -42,9 +47,15 @@ export interface GraphEdge {
   target: string;
   type: 'prerequisite' | 'related' | 'example' | 'application';
   strength: number;
+  // Set on dependency edges inferred beyond the topic hierarchy
+  inferred?: boolean;
+  confidence?: number;
+  reason?: string;
 }
 
 export interface VideoData {
+  // Library id; only set when the backend processed the video
+  videoId?: string;
   url: string;
   title: string;
   duration: number;
@@ -57,16 +68,50 @@ export interface VideoData {
   edges: GraphEdge[];
 }
 
+const toVideoData = (processedData: ProcessedVideoData): VideoData => ({
+  videoId: processedData.videoId,
+  url: processedData.videoUrl,
+  title: processedData.title,
+  duration: processedData.duration,
+  transcript: processedData.transcript,
+  nodes: processedData.nodes,
+  edges: processedData.edges
+});
+
 export const EduGraph: React.FC = () => {
   const [videoData, setVideoData] = useState<VideoData | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
   const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingProgress, setProcessingProgress] = useState<ProcessingProgress | null>(null);
+  const [processingError, setProcessingError] = useState<string | null>(null);
+
+  // Pick up a backend job that was still running when the page was reloaded
+  useEffect(() => {
+    const pendingJobId = VideoProcessor.getPendingJobId();
+    if (!pendingJobId) return;
+
+    setIsProcessing(true);
+    const processor = new VideoProcessor((progress) => {
+      setProcessingProgress(progress);
+    });
+
+    processor.resumeJob(pendingJobId)
+      .then(processedData => setVideoData(toVideoData(processedData)))
+      .catch(error => {
+        console.error('Failed to resume processing job:', error);
+        setProcessingError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => {
+        setIsProcessing(false);
+        setProcessingProgress(null);
+      });
+  }, []);
 
-  const handleVideoUpload = useCallback(async (file: File) => {
+  const handleVideoUpload = useCallback(async (file: File, subtitles?: File | null) => {
     setIsProcessing(true);
     setProcessingProgress(null);
+    setProcessingError(null);
     
     try {
       // Create video processor with progress callback
@@ -75,188 +120,16 @@ export const EduGraph: React.FC = () => {
       });
       
       // Process the video through the entire pipeline
-      const processedData = await processor.processVideo(file);
+      const processedData = await processor.processVideo(file, subtitles);
       
       // Convert to the expected VideoData format
-      const videoData: VideoData = {
-        url: processedData.videoUrl,
-        title: processedData.title,
-        duration: processedData.duration,
-        transcript: processedData.transcript,
-        nodes: processedData.nodes,
-        edges: processedData.edges
-      };
-      
-      setVideoData(videoData);
+      setVideoData(toVideoData(processedData));
       
     } catch (error) {
       console.error('Video processing failed:', error);
-      // Fallback to mock data if processing fails
-      const getVideoDuration = (file: File): Promise<number> => {
-        return new Promise((resolve) => {
-          const video = document.createElement('video');
-          video.preload = 'metadata';
-          video.onloadedmetadata = () => {
-            resolve(video.duration);
-          };
-          video.src = URL.createObjectURL(file);
-        });
-      };
-
-      const actualDuration = await getVideoDuration(file);
-      
-      const mockVideoData: VideoData = {
-        url: URL.createObjectURL(file),
-        title: file.name.replace(/\.[^/.]+$/, ""),
-        duration: actualDuration,
-        transcript: [
-          { start: 0, end: Math.min(30, actualDuration), text: "Welcome to today's lecture on machine learning fundamentals." },
-          { start: Math.min(30, actualDuration), end: Math.min(90, actualDuration), text: "First, let's define what artificial intelligence means in the context of computer science." },
-          { start: Math.min(90, actualDuration), end: Math.min(150, actualDuration), text: "Neural networks are the foundation of modern deep learning algorithms." },
-          { start: Math.min(150, actualDuration), end: Math.min(210, actualDuration), text: "Training data is crucial for developing accurate machine learning models." },
-          { start: Math.min(210, actualDuration), end: Math.min(270, actualDuration), text: "Supervised learning uses labeled examples to train predictive models." },
-          { start: Math.min(270, actualDuration), end: Math.min(330, actualDuration), text: "Unsupervised learning finds patterns in data without explicit labels." },
-          { start: Math.min(330, actualDuration), end: Math.min(390, actualDuration), text: "Deep learning architectures can process complex, high-dimensional data." },
-          { start: Math.min(390, actualDuration), end: Math.min(450, actualDuration), text: "Backpropagation is the algorithm used to train neural networks effectively." },
-          { start: Math.min(450, actualDuration), end: Math.min(510, actualDuration), text: "Overfitting occurs when models memorize training data instead of generalizing." },
-          { start: Math.min(510, actualDuration), end: Math.min(actualDuration, actualDuration), text: "Cross-validation helps evaluate model performance on unseen data." }
-        ].filter(item => item.start < actualDuration),
-        nodes: [
-          {
-            id: 'ai',
-            label: 'Artificial Intelligence',
-            x: 300,
-            y: 200,
-            size: 20,
-            color: 'hsl(var(--concept-primary))',
-            timestamps: [Math.min(30, actualDuration), Math.min(90, actualDuration)].filter(t => t < actualDuration),
-            description: 'The simulation of human intelligence in machines',
-            category: 'definition',
-            isActive: false
-          },
-          {
-            id: 'ml',
-            label: 'Machine Learning',
-            x: 200,
-            y: 300,
-            size: 18,
-            color: 'hsl(var(--concept-secondary))',
-            timestamps: [0, Math.min(150, actualDuration)].filter(t => t < actualDuration),
-            description: 'A subset of AI that enables computers to learn without explicit programming',
-            category: 'definition',
-            isActive: false
-          },
-          {
-            id: 'neural',
-            label: 'Neural Networks',
-            x: 400,
-            y: 250,
-            size: 16,
-            color: 'hsl(var(--concept-tertiary))',
-            timestamps: [Math.min(90, actualDuration), Math.min(330, actualDuration), Math.min(390, actualDuration)].filter(t => t < actualDuration),
-            description: 'Computing systems inspired by biological neural networks',
-            category: 'application',
-            isActive: false
-          },
-          {
-            id: 'training',
-            label: 'Training Data',
-            x: 150,
-            y: 400,
-            size: 14,
-            color: 'hsl(var(--concept-accent))',
-            timestamps: [Math.min(150, actualDuration), Math.min(210, actualDuration)].filter(t => t < actualDuration),
-            description: 'Dataset used to teach machine learning algorithms',
-            category: 'prerequisite',
-            isActive: false
-          },
-          {
-            id: 'supervised',
-            label: 'Supervised Learning',
-            x: 100,
-            y: 200,
-            size: 15,
-            color: 'hsl(var(--concept-primary))',
-            timestamps: [Math.min(210, actualDuration), Math.min(270, actualDuration)].filter(t => t < actualDuration),
-            description: 'Learning with labeled training examples',
-            category: 'example',
-            isActive: false
-          },
-          {
-            id: 'unsupervised',
-            label: 'Unsupervised Learning',
-            x: 350,
-            y: 400,
-            size: 15,
-            color: 'hsl(var(--concept-secondary))',
-            timestamps: [Math.min(270, actualDuration), Math.min(330, actualDuration)].filter(t => t < actualDuration),
-            description: 'Finding hidden patterns in unlabeled data',
-            category: 'example',
-            isActive: false
-          },
-          {
-            id: 'deep',
-            label: 'Deep Learning',
-            x: 500,
-            y: 150,
-            size: 17,
-            color: 'hsl(var(--concept-tertiary))',
-            timestamps: [Math.min(330, actualDuration), Math.min(390, actualDuration)].filter(t => t < actualDuration),
-            description: 'Machine learning using deep neural networks',
-            category: 'application',
-            isActive: false
-          },
-          {
-            id: 'backprop',
-            label: 'Backpropagation',
-            x: 450,
-            y: 350,
-            size: 13,
-            color: 'hsl(var(--concept-accent))',
-            timestamps: [Math.min(390, actualDuration), Math.min(450, actualDuration)].filter(t => t < actualDuration),
-            description: 'Algorithm for training neural networks',
-            category: 'application',
-            isActive: false
-          },
-          {
-            id: 'overfitting',
-            label: 'Overfitting',
-            x: 250,
-            y: 450,
-            size: 12,
-            color: 'hsl(var(--concept-primary))',
-            timestamps: [Math.min(450, actualDuration), Math.min(510, actualDuration)].filter(t => t < actualDuration),
-            description: 'When a model performs well on training data but poorly on new data',
-            category: 'definition',
-            isActive: false
-          },
-          {
-            id: 'validation',
-            label: 'Cross-validation',
-            x: 400,
-            y: 100,
-            size: 14,
-            color: 'hsl(var(--concept-secondary))',
-            timestamps: [Math.min(510, actualDuration), Math.min(actualDuration, actualDuration)].filter(t => t < actualDuration),
-            description: 'Technique for assessing model generalization',
-            category: 'application',
-            isActive: false
-          }
-        ],
-        edges: [
-          { source: 'ml', target: 'ai', type: 'prerequisite', strength: 0.8 },
-          { source: 'neural', target: 'ai', type: 'application', strength: 0.7 },
-          { source: 'supervised', target: 'ml', type: 'example', strength: 0.9 },
-          { source: 'unsupervised', target: 'ml', type: 'example', strength: 0.9 },
-          { source: 'deep', target: 'neural', type: 'application', strength: 0.8 },
-          { source: 'training', target: 'supervised', type: 'prerequisite', strength: 0.7 },
-          { source: 'backprop', target: 'neural', type: 'application', strength: 0.6 },
-          { source: 'overfitting', target: 'ml', type: 'related', strength: 0.5 },
-          { source: 'validation', target: 'overfitting', type: 'related', strength: 0.6 }
-        ]
-      };
-      
-      setVideoData(mockVideoData);
+      setProcessingError(error instanceof BackendUnavailableError
+        ? 'Processing server unavailable. Start the backend and try again.'
+        : error instanceof Error ? error.message : String(error));
     } finally {
       setIsProcessing(false);
       setProcessingProgress(null);
@@ -270,9 +143,7 @@ export const EduGraph: React.FC = () => {
       // Update active nodes based on current time
       const updatedNodes = videoData.nodes.map(node => ({
         ...node,
-        isActive: node.timestamps.some(timestamp => 
-          Math.abs(timestamp - time) < 15 // 15 second window
-        )
+        isActive: isWithinIntervals(getConceptIntervals(node), time, 15) // 15 second window
       }));
       
       // Only update if there are actual changes to active states
@@ -306,6 +177,7 @@ export const EduGraph: React.FC = () => {
           onUpload={handleVideoUpload} 
           isProcessing={isProcessing}
           processingProgress={processingProgress}
+          error={processingError}
         />
       </div>
     );
@@ -345,7 +217,13 @@ const EduGraphContent: React.FC<EduGraphContentProps> = ({
   onTimelineClick,
   onSelectedNodeChange
 }) => {
-  const { open } = useSidebar();
+  const { open, setOpen } = useSidebar();
+
+  // The concept panel lives in the sidebar, so open it along with the selection
+  const handleConceptClick = useCallback((node: GraphNode) => {
+    onSelectedNodeChange(node);
+    setOpen(true);
+  }, [onSelectedNodeChange, setOpen]);
 
   return (
     <div className="min-h-screen bg-background flex flex-col w-full">
@@ -364,14 +242,30 @@ const EduGraphContent: React.FC<EduGraphContentProps> = ({
           
           <div className="flex-1 overflow-y-auto">
             <div className="flex flex-col gap-4 p-4">
-              <VideoPlayer
-                videoUrl={videoData.url}
-                title={videoData.title}
-                duration={videoData.duration}
-                currentTime={currentTime}
-                onTimeUpdate={onTimeUpdate}
-                concepts={videoData.nodes}
-              />
+              {/* Transcript sits beside the player, or below it while the sidebar takes half the screen */}
+              <div className={`grid grid-cols-1 gap-4 ${open ? '' : 'xl:grid-cols-3'}`}>
+                <div className={open ? '' : 'xl:col-span-2'}>
+                  <VideoPlayer
+                    videoUrl={videoData.url}
+                    title={videoData.title}
+                    duration={videoData.duration}
+                    currentTime={currentTime}
+                    onTimeUpdate={onTimeUpdate}
+                    concepts={videoData.nodes}
+                    captionsUrl={videoData.videoId && videoLibrary.getTrackUrl(videoData.videoId, 'captions')}
+                    chaptersUrl={videoData.videoId && videoLibrary.getTrackUrl(videoData.videoId, 'chapters')}
+                  />
+                </div>
+
+                <TranscriptPanel
+                  className={open ? 'h-[360px]' : 'h-[360px] xl:h-auto xl:max-h-[560px]'}
+                  segments={videoData.transcript}
+                  currentTime={currentTime}
+                  concepts={videoData.nodes}
+                  onSeek={onTimelineClick}
+                  onConceptClick={handleConceptClick}
+                />
+              </div>
               
               <ConceptTimeline
                 duration={videoData.duration}
@@ -397,6 +291,10 @@ const EduGraphContent: React.FC<EduGraphContentProps> = ({
                   edges={videoData.edges}
                   onNodeClick={onNodeClick}
                   selectedNode={selectedNode}
+                  getExportUrl={videoData.videoId
+                    ? format => videoLibrary.getGraphExportUrl(videoData.videoId!, format)
+                    : undefined}
+                  layoutKey={videoData.videoId ? `video:${videoData.videoId}` : undefined}
                 />
               </div>
             </div>
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { GraphNode, GraphEdge } from './EduGraph';
+import { EDGE_STYLES, EDGE_TYPES } from '../lib/edgeStyles';
+import { formatTimestamp, parseTimestamp } from '../lib/timestamps';
+import { GraphEdit, endpointId, nodeRef } from '../lib/graphEdits';
+import { Clock, GitMerge, Link2, Plus, Trash2, X } from 'lucide-react';
+
+const CATEGORIES: GraphNode['category'][] = ['definition', 'example', 'application', 'prerequisite'];
+
+interface GraphEditPanelProps {
+  node: GraphNode;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  // Playback position, for attaching the moment being watched
+  currentTime?: number;
+  onApply: (edit: GraphEdit) => boolean;
+  // Start drawing a link of `type` from this node
+  onDrawLink: (type: GraphEdge['type']) => void;
+  onClose: () => void;
+}
+
+// Edit-mode controls for the selected concept: its label, category,
+// description and timestamps, its links, and merging or deleting it
+export const GraphEditPanel: React.FC<GraphEditPanelProps> = ({
+  node,
+  nodes,
+  edges,
+  currentTime,
+  onApply,
+  onDrawLink,
+  onClose
+}) => {
+  const [label, setLabel] = useState(node.label);
+  const [description, setDescription] = useState(node.description);
+  const [timeText, setTimeText] = useState('');
+  const [linkType, setLinkType] = useState<GraphEdge['type']>('prerequisite');
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  const ref = nodeRef(node);
+  const labelOf = (id: string) => nodes.find(other => other.id === id)?.label ?? id;
+  const links = edges
+    .map(edge => ({ ...edge, source: endpointId(edge.source), target: endpointId(edge.target) }))
+    .filter(edge => edge.source === node.id || edge.target === node.id);
+  const parsedTime = parseTimestamp(timeText);
+
+  const update = (changes: Extract<GraphEdit, { op: 'updateNode' }>['changes']) =>
+    onApply({ op: 'updateNode', node: ref, changes });
+
+  const commitLabel = () => {
+    const trimmed = label.trim();
+    if (!trimmed || trimmed === node.label || !update({ label: trimmed })) setLabel(node.label);
+  };
+
+  const commitDescription = () => {
+    if (description !== node.description) update({ description });
+  };
+
+  const attachTime = (time: number) => {
+    update({ timestamps: [...node.timestamps, Math.floor(time)] });
+    setTimeText('');
+  };
+
+  const edgeEndpoints = (edge: GraphEdge) => ({
+    source: { id: edge.source, label: labelOf(edge.source) },
+    target: { id: edge.target, label: labelOf(edge.target) }
+  });
+
+  return (
+    <div className="absolute top-4 right-4 bottom-4 w-72 overflow-y-auto bg-card/95 backdrop-blur-sm border border-border rounded-lg p-3 space-y-3 text-sm shadow-lg">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-foreground">Edit concept</span>
+        <Button variant="ghost" size="sm" onClick={onClose} title="Close">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="graph-edit-label">Label</Label>
+        <Input
+          id="graph-edit-label"
+          value={label}
+          onChange={event => setLabel(event.target.value)}
+          onBlur={commitLabel}
+          onKeyDown={event => { if (event.key === 'Enter') commitLabel(); }}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label>Category</Label>
+        <Select value={node.category} onValueChange={value => update({ category: value as GraphNode['category'] })}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CATEGORIES.map(category => (
+              <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="graph-edit-description">Description</Label>
+        <Textarea
+          id="graph-edit-description"
+          rows={3}
+          value={description}
+          onChange={event => setDescription(event.target.value)}
+          onBlur={commitDescription}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Timestamps</Label>
+        <div className="flex flex-wrap gap-1">
+          {node.timestamps.length === 0 && <span className="text-xs text-muted-foreground">None</span>}
+          {node.timestamps.map(time => (
+            <Badge key={time} variant="secondary" className="gap-1">
+              {formatTimestamp(time)}
+              <button
+                type="button"
+                title="Remove"
+                onClick={() => update({ timestamps: node.timestamps.filter(other => other !== time) })}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <Input
+            className="h-8"
+            placeholder="m:ss"
+            value={timeText}
+            onChange={event => setTimeText(event.target.value)}
+            onKeyDown={event => { if (event.key === 'Enter' && parsedTime !== null) attachTime(parsedTime); }}
+          />
+          <Button size="sm" variant="outline" disabled={parsedTime === null} onClick={() => parsedTime !== null && attachTime(parsedTime)}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+        {currentTime !== undefined && (
+          <Button size="sm" variant="outline" className="w-full gap-2" onClick={() => attachTime(currentTime)}>
+            <Clock className="w-4 h-4" />
+            Attach current time ({formatTimestamp(currentTime)})
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Links</Label>
+        {links.length === 0 && <p className="text-xs text-muted-foreground">No links</p>}
+        <ul className="space-y-1">
+          {links.map(edge => (
+            <li key={`${edge.source}->${edge.target}`} className="flex items-center gap-1">
+              <span className="flex-1 truncate text-xs" title={`${labelOf(edge.source)} → ${labelOf(edge.target)}`}>
+                {edge.source === node.id ? `→ ${labelOf(edge.target)}` : `← ${labelOf(edge.source)}`}
+              </span>
+              <Select
+                value={edge.type}
+                onValueChange={value => onApply({ op: 'updateEdge', ...edgeEndpoints(edge), type: value as GraphEdge['type'] })}
+              >
+                <SelectTrigger className="h-7 w-28 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EDGE_TYPES.map(type => <SelectItem key={type} value={type}>{EDGE_STYLES[type].label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Remove link"
+                onClick={() => onApply({ op: 'deleteEdge', ...edgeEndpoints(edge) })}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-1">
+          <Select value={linkType} onValueChange={value => setLinkType(value as GraphEdge['type'])}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EDGE_TYPES.map(type => <SelectItem key={type} value={type}>{EDGE_STYLES[type].label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" className="gap-1" onClick={() => onDrawLink(linkType)}>
+            <Link2 className="w-4 h-4" />
+            Draw
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Merge into</Label>
+        <div className="flex gap-1">
+          <Select value={mergeTarget} onValueChange={setMergeTarget}>
+            <SelectTrigger className="h-8">
+              <SelectValue placeholder="Choose a concept" />
+            </SelectTrigger>
+            <SelectContent>
+              {nodes.filter(other => other.id !== node.id).map(other => (
+                <SelectItem key={other.id} value={other.id}>{other.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!mergeTarget}
+            title="Merge"
+            onClick={() => onApply({ op: 'mergeNodes', source: ref, target: { id: mergeTarget, label: labelOf(mergeTarget) } })}
+          >
+            <GitMerge className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Button variant="destructive" size="sm" className="w-full gap-2" onClick={() => onApply({ op: 'deleteNode', node: ref })}>
+        <Trash2 className="w-4 h-4" />
+        Delete concept
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import { GraphExportFormat } from '../services/videoLibrary';
+import { Download } from 'lucide-react';
+
+const FORMATS: Array<{ format: GraphExportFormat; label: string; hint: string }> = [
+  { format: 'graphml', label: 'GraphML', hint: 'Gephi, yEd, Cytoscape' },
+  { format: 'gexf', label: 'GEXF', hint: 'Gephi, with the lecture timeline' },
+  { format: 'dot', label: 'Graphviz DOT', hint: 'dot, neato' },
+  { format: 'mermaid', label: 'Mermaid', hint: 'Markdown notes' },
+  { format: 'jsonld', label: 'JSON-LD', hint: 'Linked data' }
+];
+
+interface GraphExportMenuProps {
+  getExportUrl: (format: GraphExportFormat) => string;
+}
+
+// Download the graph in one of the backend's export formats
+export const GraphExportMenu: React.FC<GraphExportMenuProps> = ({ getExportUrl }) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="ghost" size="sm" title="Export Graph">
+        <Download className="w-4 h-4" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuLabel>Export graph</DropdownMenuLabel>
+      <DropdownMenuSeparator />
+      {FORMATS.map(({ format, label, hint }) => (
+        <DropdownMenuItem key={format} asChild>
+          <a href={getExportUrl(format)} download className="flex flex-col items-start">
+            <span>{label}</span>
+            <span className="text-xs text-muted-foreground">{hint}</span>
+          </a>
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
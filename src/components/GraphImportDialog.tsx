@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { ScrollArea } from './ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from './ui/dialog';
+import {
+  videoLibrary,
+  VideoDetails,
+  VideoSummary,
+  GraphImportPreview,
+  GraphImportConflict,
+  GraphImportRequest
+} from '../services/videoLibrary';
+import { AlertTriangle, FileUp, Loader2 } from 'lucide-react';
+
+// Target value for a standalone curriculum graph
+const NEW_GRAPH = 'new';
+const ACCEPTED_FILES = '.graphml,.xml,.csv,.tsv,.mmd,.mermaid,.txt';
+
+interface GraphImportDialogProps {
+  onImported: (video: VideoDetails) => void;
+}
+
+// Import a concept map (GraphML, CSV edge list or Mermaid) as a curriculum
+// graph of its own, or merge it into a lecture after reviewing the conflicts
+export const GraphImportDialog: React.FC<GraphImportDialogProps> = ({ onImported }) => {
+  const [open, setOpen] = useState(false);
+  const [videos, setVideos] = useState<VideoSummary[]>([]);
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [target, setTarget] = useState(NEW_GRAPH);
+  const [title, setTitle] = useState('');
+  const [resolutions, setResolutions] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<GraphImportPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    videoLibrary.listVideos(1, 100)
+      .then(page => setVideos(page.videos))
+      .catch(err => console.error('Error fetching videos:', err));
+  }, [open]);
+
+  const buildRequest = (): GraphImportRequest | null => file && {
+    content: file.content,
+    fileName: file.name,
+    ...(target === NEW_GRAPH ? { title: title.trim() || undefined } : { videoId: target, resolutions })
+  };
+
+  // Re-run the preview whenever the file, target or a conflict choice changes;
+  // the title doesn't affect it
+  useEffect(() => {
+    if (!file) return;
+    const request: GraphImportRequest = target === NEW_GRAPH
+      ? { content: file.content, fileName: file.name }
+      : { content: file.content, fileName: file.name, videoId: target, resolutions };
+    let cancelled = false;
+    setPreviewing(true);
+    setError(null);
+    videoLibrary.previewGraphImport(request)
+      .then(result => { if (!cancelled) setPreview(result); })
+      .catch(err => {
+        if (cancelled) return;
+        setPreview(null);
+        setError(err instanceof Error ? err.message : 'Failed to read the file');
+      })
+      .finally(() => { if (!cancelled) setPreviewing(false); });
+    return () => { cancelled = true; };
+  }, [file, target, resolutions]);
+
+  const reset = () => {
+    setFile(null);
+    setTarget(NEW_GRAPH);
+    setTitle('');
+    setResolutions({});
+    setPreview(null);
+    setError(null);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    setResolutions({});
+    setTitle(selected.name.replace(/\.[^/.]+$/, ''));
+    setFile({ name: selected.name, content: await selected.text() });
+  };
+
+  const handleTargetChange = (value: string) => {
+    setResolutions({});
+    setTarget(value);
+  };
+
+  const handleImport = async () => {
+    const request = buildRequest();
+    if (!request) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const video = await videoLibrary.importGraph(request);
+      setOpen(false);
+      reset();
+      onImported(video);
+    } catch (err) {
+      console.error('Error importing graph:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import graph');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderConflict = (conflict: GraphImportConflict) => (
+    <li key={conflict.id} className="space-y-2 rounded-md border border-border p-3">
+      <p className="text-sm">{conflict.message}</p>
+      {conflict.kind === 'description' && (
+        <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+          <p><span className="font-medium text-foreground">Lecture:</span> {conflict.existing}</p>
+          <p><span className="font-medium text-foreground">File:</span> {conflict.imported}</p>
+        </div>
+      )}
+      <Select
+        value={conflict.choice}
+        onValueChange={value => setResolutions(current => ({ ...current, [conflict.id]: value }))}
+      >
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {conflict.options.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </li>
+  );
+
+  const merge = preview?.merge;
+
+  return (
+    <Dialog open={open} onOpenChange={value => { setOpen(value); if (!value) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <FileUp className="h-4 w-4" />
+          Import concept map
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import concept map</DialogTitle>
+          <DialogDescription>
+            GraphML, a CSV edge list (source, target, type, strength) or a Mermaid flowchart.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="graph-import-file">File</Label>
+            <Input id="graph-import-file" type="file" accept={ACCEPTED_FILES} onChange={handleFileChange} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Import into</Label>
+            <Select value={target} onValueChange={handleTargetChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_GRAPH}>New curriculum graph</SelectItem>
+                {videos.map(video => (
+                  <SelectItem key={video.id} value={video.id}>Merge into “{video.title}”</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {target === NEW_GRAPH && file && (
+            <div className="space-y-2">
+              <Label htmlFor="graph-import-title">Title</Label>
+              <Input id="graph-import-title" value={title} onChange={event => setTitle(event.target.value)} />
+            </div>
+          )}
+
+          {previewing && (
+            <p className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Reading {file?.name}...
+            </p>
+          )}
+
+          {preview && !previewing && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="secondary">{preview.format}</Badge>
+                <span>{preview.nodeCount} concepts • {preview.edgeCount} links</span>
+                {merge && (
+                  <span className="text-muted-foreground">
+                    {merge.matched.length} matched • {merge.added.length} new • {merge.addedEdges.length} new links
+                    {merge.duplicateEdges > 0 && ` • ${merge.duplicateEdges} already linked`}
+                  </span>
+                )}
+              </div>
+
+              {merge && merge.added.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  New concepts: {merge.added.map(node => node.label).join(', ')}
+                </p>
+              )}
+
+              {merge && merge.conflicts.length > 0 && (
+                <div>
+                  <h4 className="flex items-center font-medium text-foreground mb-2">
+                    <AlertTriangle className="h-4 w-4 mr-2 text-destructive" />
+                    {merge.conflicts.length} {merge.conflicts.length === 1 ? 'conflict' : 'conflicts'}
+                  </h4>
+                  <ScrollArea className="max-h-64">
+                    <ul className="space-y-2 pr-3">{merge.conflicts.map(renderConflict)}</ul>
+                  </ScrollArea>
+                </div>
+              )}
+
+              {preview.warnings.length > 0 && (
+                <ul className="text-xs text-muted-foreground list-disc pl-4">
+                  {preview.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleImport} disabled={!preview || previewing || importing}>
+            {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {target === NEW_GRAPH ? 'Create graph' : 'Merge'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import { GRAPH_LAYOUTS, GraphLayoutName } from '../lib/graphLayoutEngines';
+import { Workflow } from 'lucide-react';
+
+interface GraphLayoutMenuProps {
+  layout: GraphLayoutName;
+  onLayoutChange: (layout: GraphLayoutName) => void;
+}
+
+// Switch between the force, tree, radial and timeline layouts
+export const GraphLayoutMenu: React.FC<GraphLayoutMenuProps> = ({ layout, onLayoutChange }) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="ghost" size="sm" title="Layout">
+        <Workflow className="w-4 h-4" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuLabel>Layout</DropdownMenuLabel>
+      <DropdownMenuSeparator />
+      <DropdownMenuRadioGroup value={layout} onValueChange={value => onLayoutChange(value as GraphLayoutName)}>
+        {GRAPH_LAYOUTS.map(({ name, label, hint }) => (
+          <DropdownMenuRadioItem key={name} value={name} className="flex flex-col items-start">
+            <span>{label}</span>
+            <span className="text-xs text-muted-foreground">{hint}</span>
+          </DropdownMenuRadioItem>
+        ))}
+      </DropdownMenuRadioGroup>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
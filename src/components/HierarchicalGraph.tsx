@@ -1,6 +1,13 @@
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { GraphNode, GraphEdge } from './EduGraph';
+import { appendEdgeMarkers, describeEdge, edgeMarkerId, edgeOpacity, EDGE_STYLES, EDGE_TYPES } from '../lib/edgeStyles';
 import { Button } from './ui/button';
+import { GraphExportMenu } from './GraphExportMenu';
+import { GraphLayoutMenu } from './GraphLayoutMenu';
+import { GraphExportFormat } from '../services/videoLibrary';
+import { clearLayout, initialZoom, loadLayout, restorePins, savePins, saveZoom } from '../lib/graphLayouts';
+import { appendTimeAxis, applyLayoutForces, computeLayout, GraphLayoutName } from '../lib/graphLayoutEngines';
+import { appendConceptDetails } from '../lib/conceptTooltip';
 import { Badge } from './ui/badge';
 import { Network, ZoomIn, ZoomOut, ArrowLeft, RotateCcw } from 'lucide-react';
 import * as d3 from 'd3';
@@ -10,6 +17,10 @@ interface HierarchicalGraphProps {
   edges: GraphEdge[];
   onNodeClick: (node: GraphNode) => void;
   selectedNode: GraphNode | null;
+  // Shows the Export menu when set
+  getExportUrl?: (format: GraphExportFormat) => string;
+  // Saves pinned concepts and the zoom of each view under this key when set
+  layoutKey?: string;
 }
 
 interface ViewMode {
@@ -21,18 +32,22 @@ export const HierarchicalGraph: React.FC<HierarchicalGraphProps> = ({
   nodes,
   edges,
   onNodeClick,
-  selectedNode
+  selectedNode,
+  getExportUrl,
+  layoutKey
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const [viewMode, setViewMode] = useState<ViewMode>({ type: 'overview' });
   const [zoomLevel, setZoomLevel] = useState(1);
+  const [layout, setLayout] = useState<GraphLayoutName>('force');
   const simulationRef = useRef<d3.Simulation<GraphNode, GraphEdge> | null>(null);
   const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
 
   // Identify 1st order nodes (nodes with no incoming edges or nodes that are prerequisites)
   const firstOrderNodes = useMemo(() => {
+    // Only the topic hierarchy counts; inferred dependencies don't demote a root
     const incomingEdges = new Set<string>();
-    edges.forEach(edge => {
+    edges.filter(edge => !edge.inferred).forEach(edge => {
       incomingEdges.add(edge.target);
     });
 
@@ -117,6 +132,12 @@ export const HierarchicalGraph: React.FC<HierarchicalGraphProps> = ({
     return [];
   }, [viewMode, firstOrderNodes, edges, getDetailedNodes]);
 
+  // The overview and each concept's detailed view keep their own pins and
+  // zoom, separately for each layout
+  const storageKey = layoutKey
+    ? `${layoutKey}:${viewMode.type === 'overview' ? 'overview' : `detail:${viewMode.selectedNodeId}`}:${layout}`
+    : null;
+
   const selectedFirstOrderNode = viewMode.type === 'detailed' && viewMode.selectedNodeId 
     ? firstOrderNodes.find(n => n.id === viewMode.selectedNodeId)
     : null;
@@ -138,6 +159,9 @@ export const HierarchicalGraph: React.FC<HierarchicalGraphProps> = ({
       .on('zoom', (event) => {
         graphContainer.attr('transform', event.transform);
         setZoomLevel(event.transform.k);
+      })
+      .on('end', (event) => {
+        if (storageKey) saveZoom(storageKey, event.transform);
       });
 
     svg.call(zoom);
@@ -145,7 +169,14 @@ export const HierarchicalGraph: React.FC<HierarchicalGraphProps> = ({
 
     const graphContainer = svg.append('g');
 
-    // Create simulation with hierarchical layout
+    // Put back the concepts the user pinned in this view and the zoom they left
+    const saved = storageKey ? loadLayout(storageKey) : null;
+    if (saved) restorePins(currentNodes, saved);
+    svg.call(zoom.transform, initialZoom(svgRef.current, saved));
+
+    // Create simulation with hierarchical layout. The tree, radial and timeline
+    // layouts replace the forces with a pull towards each concept's place.
+    const arrangement = computeLayout(layout, currentNodes, currentEdges, width, height);
     const simulation = d3.forceSimulation<GraphNode>(currentNodes)
       .force('link', d3.forceLink<GraphNode, GraphEdge>(currentEdges)
         .id(d => d.id)
@@ -157,20 +188,27 @@ export const HierarchicalGraph: React.FC<HierarchicalGraphProps> = ({
             return 80; // Closer spacing for detailed view
           }
         })
-        .strength(0.5))
-      .force('charge', d3.forceManyBody().strength(() => {
-        // Different charge based on view mode and node size
-        if (viewMode.type === 'overview') {
-          return -400; // Stronger repulsion for overview
-        } else {
-          return -200; // Weaker repulsion for detailed view
-        }
-      }))
-      .force('center', d3.forceCenter(width / 2, height / 2))
-      .force('collision', d3.forceCollide().radius((d: any) => d.size + 10));
+        .strength(arrangement ? 0 : 0.5));
+
+    if (arrangement) {
+      applyLayoutForces(simulation, arrangement, width, height);
+      appendTimeAxis(graphContainer, arrangement);
+    } else {
+      simulation
+        .force('charge', d3.forceManyBody().strength(() => {
+          // Different charge based on view mode and node size
+          if (viewMode.type === 'overview') {
+            return -400; // Stronger repulsion for overview
+          } else {
+            return -200; // Weaker repulsion for detailed view
+          }
+        }))
+        .force('center', d3.forceCenter(width / 2, height / 2))
+        .force('collision', d3.forceCollide().radius((d: any) => d.size + 10));
+    }
 
     // Add hierarchical positioning for overview mode
-    if (viewMode.type === 'overview') {
+    if (viewMode.type === 'overview' && !arrangement) {
       simulation.force('hierarchy', d3.forceY().y((d: any) => {
         // Position nodes in a circular pattern based on their importance
         const index = firstOrderNodes.findIndex(n => n.id === d.id);
@@ -189,25 +227,16 @@ export const HierarchicalGraph: React.FC<HierarchicalGraphProps> = ({
       .enter()
       .append('line')
       .attr('class', 'link')
-      .attr('stroke', 'hsl(var(--edge-default))')
+      .attr('stroke', d => EDGE_STYLES[d.type].color)
       .attr('stroke-width', d => Math.sqrt(d.strength * 3))
-      .attr('stroke-opacity', 0.6)
-      .attr('marker-end', 'url(#arrowhead)');
-
-    // Create arrowhead marker
-    svg.append('defs')
-      .append('marker')
-      .attr('id', 'arrowhead')
-      .attr('viewBox', '-0 -5 10 10')
-      .attr('refX', 25)
-      .attr('refY', 0)
-      .attr('orient', 'auto')
-      .attr('markerWidth', 8)
-      .attr('markerHeight', 8)
-      .append('path')
-      .attr('d', 'M 0,-5 L 10 ,0 L 0,5')
-      .attr('fill', 'hsl(var(--edge-default))')
-      .attr('opacity', 0.6);
+      .attr('stroke-opacity', edgeOpacity)
+      .attr('stroke-dasharray', d => EDGE_STYLES[d.type].dash)
+      .attr('marker-end', d => `url(#${edgeMarkerId(d.type)})`);
+
+    link.append('title').text(describeEdge);
+
+    // Create arrowhead markers
+    appendEdgeMarkers(svg);
 
     // Create node groups
     const nodeGroups = graphContainer
@@ -227,12 +256,21 @@ export const HierarchicalGraph: React.FC<HierarchicalGraphProps> = ({
           d.fx = event.x;
           d.fy = event.y;
         })
+        // A dragged concept stays where it was dropped
         .on('end', (event, d) => {
           if (!event.active) simulation.alphaTarget(0);
-          d.fx = null;
-          d.fy = null;
+          if (storageKey) savePins(storageKey, [d]);
         }));
 
+    // Double-click releases a pinned concept back to the simulation
+    nodeGroups.on('dblclick', (event, d) => {
+      event.stopPropagation();
+      d.fx = null;
+      d.fy = null;
+      simulation.alpha(0.3).restart();
+      if (storageKey) savePins(storageKey, [d]);
+    });
+
     // Add circles for nodes
     nodeGroups
       .append('circle')
@@ -316,13 +354,8 @@ export const HierarchicalGraph: React.FC<HierarchicalGraphProps> = ({
           .style('font-size', '12px')
           .style('box-shadow', '0 4px 12px hsl(var(--shadow) / 0.15)')
           .style('pointer-events', 'none')
-          .style('opacity', 0)
-          .html(`
-            <strong>${d.label}</strong><br/>
-            ${d.description}<br/>
-            <em>Category: ${d.category}</em><br/>
-            <em>Timestamps: ${d.timestamps.map(t => Math.floor(t/60) + ':' + (t%60).toString().padStart(2, '0')).join(', ')}</em>
-          `);
+          .style('opacity', 0);
+        appendConceptDetails(tooltip, d);
 
         tooltip.transition()
           .duration(200)
@@ -360,7 +393,7 @@ export const HierarchicalGraph: React.FC<HierarchicalGraphProps> = ({
         .attr('transform', d => `translate(${d.x},${d.y})`);
     });
 
-  }, [currentNodes, currentEdges, onNodeClick, selectedNode, viewMode, firstOrderNodes]);
+  }, [currentNodes, currentEdges, onNodeClick, selectedNode, viewMode, firstOrderNodes, layout, storageKey]);
 
   const getCategoryColor = (category: string) => {
     switch (category) {
@@ -399,35 +432,52 @@ export const HierarchicalGraph: React.FC<HierarchicalGraphProps> = ({
   }, []);
 
   const handleZoomIn = useCallback(() => {
-    if (!svgRef.current) return;
+    if (!svgRef.current || !zoomRef.current) return;
     const svg = d3.select(svgRef.current);
     svg.transition().call(
-      d3.zoom<SVGSVGElement, unknown>().scaleBy as any,
+      zoomRef.current.scaleBy as any,
       1.5
     );
   }, []);
 
   const handleZoomOut = useCallback(() => {
-    if (!svgRef.current) return;
+    if (!svgRef.current || !zoomRef.current) return;
     const svg = d3.select(svgRef.current);
     svg.transition().call(
-      d3.zoom<SVGSVGElement, unknown>().scaleBy as any,
+      zoomRef.current.scaleBy as any,
       1 / 1.5
     );
   }, []);
 
+  // Reset layout: release the pinned concepts of this view, forget its saved
+  // layout and let the simulation lay it out afresh
   const handleReset = useCallback(() => {
-    if (!svgRef.current) return;
+    if (!svgRef.current || !zoomRef.current) return;
+    if (storageKey) clearLayout(storageKey);
+    currentNodes.forEach(node => {
+      node.fx = null;
+      node.fy = null;
+    });
+
     const svg = d3.select(svgRef.current);
     svg.transition().call(
-      d3.zoom<SVGSVGElement, unknown>().transform as any,
+      zoomRef.current.transform as any,
       d3.zoomIdentity
     );
     
     if (simulationRef.current) {
       simulationRef.current.alpha(1).restart();
     }
-  }, []);
+  }, [currentNodes, storageKey]);
+
+  // Pins belong to the layout they were made in; the new layout restores its own
+  const handleLayoutChange = (next: GraphLayoutName) => {
+    currentNodes.forEach(node => {
+      node.fx = null;
+      node.fy = null;
+    });
+    setLayout(next);
+  };
 
   useEffect(() => {
     initializeGraph();
@@ -497,10 +547,14 @@ export const HierarchicalGraph: React.FC<HierarchicalGraphProps> = ({
               variant="ghost"
               size="sm"
               onClick={handleReset}
-              title="Reset View"
+              title="Reset Layout"
             >
               <RotateCcw className="w-4 h-4" />
             </Button>
+
+            <GraphLayoutMenu layout={layout} onLayoutChange={handleLayoutChange} />
+
+            {getExportUrl && <GraphExportMenu getExportUrl={getExportUrl} />}
             
             <span className="text-xs text-muted-foreground ml-2">
               {Math.round(zoomLevel * 100)}%
@@ -538,6 +592,22 @@ export const HierarchicalGraph: React.FC<HierarchicalGraphProps> = ({
               <div className="w-3 h-3 rounded-full" style={{ backgroundColor: 'hsl(var(--concept-accent))' }}></div>
               <span className="text-muted-foreground">Prerequisite</span>
             </div>
+            {EDGE_TYPES.map(type => (
+              <div key={type} className="flex items-center gap-2">
+                <svg width="12" height="12" aria-hidden="true">
+                  <line
+                    x1="0" y1="6" x2="12" y2="6"
+                    stroke={EDGE_STYLES[type].color}
+                    strokeWidth="2"
+                    strokeDasharray={EDGE_STYLES[type].dash ?? undefined}
+                  />
+                </svg>
+                <span className="text-muted-foreground">{EDGE_STYLES[type].label} link</span>
+              </div>
+            ))}
+            <div className="text-muted-foreground pt-1 border-t border-border">
+              Drag to pin • double-click to release
+            </div>
           </div>
         </div>
       </div>
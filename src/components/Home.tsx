@@ -5,114 +5,73 @@ import { GraphNode, GraphEdge } from './EduGraph';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Video, Network, Loader2, AlertCircle, Play } from 'lucide-react';
+import { Video, Network, Loader2, AlertCircle, Play, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Alert, AlertDescription } from './ui/alert';
+import { videoLibrary, VideoSummary, VideoPage, ConceptNode } from '../services/videoLibrary';
+import { ConceptOccurrences } from './ConceptOccurrences';
+import { GraphImportDialog } from './GraphImportDialog';
 
-interface ProcessedVideo {
-  id: string;
-  filename: string;
-  title: string;
-  nodes: GraphNode[];
-  edges: GraphEdge[];
-  metadata: {
-    source_video?: string;
-    generated_on?: string;
-    type?: string;
-    node_count?: number;
-    edge_count?: number;
-  };
-}
-
-interface VideoData {
-  id: string;
-  filename: string;
-  path: string;
-  type: string;
-}
-
-interface VideosResponse {
-  success: boolean;
-  videos: VideoData[];
-  processedVideos: ProcessedVideo[];
-}
+// Videos per page; the combined graph always shows the whole library
+const PAGE_SIZE = 12;
+// Concepts that more than one video covers
+const SHARED_CONCEPT_COLOR = 'hsl(45, 90%, 55%)';
 
 interface HomeProps {
-  onVideoClick: (video: ProcessedVideo) => void;
+  onVideoClick: (video: VideoSummary) => void;
   onNavigateToVideo: () => void;
 }
 
 export const Home: React.FC<HomeProps> = ({ onVideoClick, onNavigateToVideo }) => {
-  const [videos, setVideos] = useState<VideoData[]>([]);
-  const [processedVideos, setProcessedVideos] = useState<ProcessedVideo[]>([]);
-  const [combinedNodes, setCombinedNodes] = useState<GraphNode[]>([]);
+  const [videos, setVideos] = useState<VideoSummary[]>([]);
+  const [pagination, setPagination] = useState<VideoPage['pagination'] | null>(null);
+  const [page, setPage] = useState(1);
+  const [combinedNodes, setCombinedNodes] = useState<ConceptNode[]>([]);
   const [combinedEdges, setCombinedEdges] = useState<GraphEdge[]>([]);
-  const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [selectedNode, setSelectedNode] = useState<ConceptNode | null>(null);
+  // Only the video grid waits on a page; the graph stays mounted meanwhile
+  const [loadingVideos, setLoadingVideos] = useState(true);
+  const [videosError, setVideosError] = useState<string | null>(null);
+  const [conceptsError, setConceptsError] = useState<string | null>(null);
 
-  const fetchVideos = useCallback(async () => {
+  // One node per concept across the whole library, so the same topic from
+  // two lectures shows up once whichever page they're listed on. Single-lecture
+  // concepts keep their video's color; shared ones get their own.
+  const loadConcepts = useCallback(async () => {
     try {
-      setLoading(true);
-      const response = await fetch('http://localhost:3001/api/videos');
-      if (!response.ok) {
-        throw new Error('Failed to fetch videos');
-      }
-      const data: VideosResponse = await response.json();
+      const graph = await videoLibrary.getConceptGraph();
+
+      setCombinedNodes(graph.nodes.map(node => ({
+        ...node,
+        color: node.videoIds.length > 1 ? SHARED_CONCEPT_COLOR : getVideoColor(node.videoIds[0]),
+        isActive: false
+      })));
+      setCombinedEdges(graph.edges);
+      // The selected concept may have been merged away or split up
+      setSelectedNode(selected => selected && (graph.nodes.find(node => node.id === selected.id) || null));
+      setConceptsError(null);
+    } catch (err) {
+      console.error('Error loading concepts:', err);
+      setConceptsError(err instanceof Error ? err.message : 'Failed to load concepts');
+    }
+  }, []);
+
+  const fetchVideos = useCallback(async (pageNumber: number) => {
+    try {
+      setLoadingVideos(true);
+      const data = await videoLibrary.listVideos(pageNumber, PAGE_SIZE);
       setVideos(data.videos);
-      setProcessedVideos(data.processedVideos);
-      
-      // Combine all nodes and edges from processed videos
-      const allNodes: GraphNode[] = [];
-      const allEdges: GraphEdge[] = [];
-      const nodeIdMap = new Map<string, string>(); // Map old IDs to new unique IDs
-      
-      data.processedVideos.forEach((video, videoIndex) => {
-        // Add video prefix to node IDs to make them unique
-        const videoPrefix = `video_${videoIndex}_`;
-        
-        video.nodes.forEach(node => {
-          const newId = `${videoPrefix}${node.id}`;
-          nodeIdMap.set(node.id, newId);
-          
-          allNodes.push({
-            ...node,
-            id: newId,
-            // Add video source information
-            description: `${node.description}\n\nSource: ${video.title}`,
-            // Color nodes by video source
-            color: getVideoColor(videoIndex),
-            // Add video metadata
-            timestamps: node.timestamps,
-            category: node.category,
-            isActive: false
-          });
-        });
-        
-        video.edges.forEach(edge => {
-          const newSourceId = nodeIdMap.get(edge.source);
-          const newTargetId = nodeIdMap.get(edge.target);
-          
-          if (newSourceId && newTargetId) {
-            allEdges.push({
-              ...edge,
-              source: newSourceId,
-              target: newTargetId
-            });
-          }
-        });
-      });
-      
-      setCombinedNodes(allNodes);
-      setCombinedEdges(allEdges);
+      setPagination(data.pagination);
+      setVideosError(null);
     } catch (err) {
       console.error('Error fetching videos:', err);
-      setError(err instanceof Error ? err.message : 'Failed to fetch videos');
+      setVideosError(err instanceof Error ? err.message : 'Failed to fetch videos');
     } finally {
-      setLoading(false);
+      setLoadingVideos(false);
     }
   }, []);
 
-  const getVideoColor = (videoIndex: number) => {
+  // Derived from the id, so a video keeps its color on every page
+  const getVideoColor = (videoId: string) => {
     const colors = [
       'hsl(0, 70%, 60%)',      // Red
       'hsl(120, 70%, 60%)',    // Green
@@ -123,53 +82,42 @@ export const Home: React.FC<HomeProps> = ({ onVideoClick, onNavigateToVideo }) =
       'hsl(30, 70%, 60%)',     // Orange
       'hsl(270, 70%, 60%)',    // Purple
     ];
-    return colors[videoIndex % colors.length];
+    const hash = [...videoId].reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 0);
+    return colors[hash % colors.length];
   };
 
   const handleNodeClick = useCallback((node: GraphNode) => {
-    setSelectedNode(node);
+    setSelectedNode(node as ConceptNode);
   }, []);
 
   useEffect(() => {
-    fetchVideos();
-  }, [fetchVideos]);
+    fetchVideos(page);
+  }, [fetchVideos, page]);
 
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-background flex items-center justify-center">
-        <div className="text-center">
-          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
-          <p className="text-muted-foreground">Loading videos...</p>
-        </div>
-      </div>
-    );
-  }
+  useEffect(() => {
+    loadConcepts();
+  }, [loadConcepts]);
 
-  if (error) {
-    return (
-      <div className="min-h-screen bg-background flex items-center justify-center">
-        <Alert className="max-w-md">
-          <AlertCircle className="h-4 w-4" />
-          <AlertDescription>
-            {error}
-          </AlertDescription>
-        </Alert>
-      </div>
-    );
-  }
+  const sharedConcepts = combinedNodes.filter(node => node.videoIds.length > 1).length;
 
   return (
     <div className="min-h-screen bg-background">
       
       <div className="container mx-auto px-4 py-8">
         {/* Page Header */}
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold text-foreground mb-2">
-            Lecture Knowledge Hub
-          </h1>
-          <p className="text-lg text-muted-foreground">
-            Explore interconnected concepts across all your lecture videos
-          </p>
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-foreground mb-2">
+              Lecture Knowledge Hub
+            </h1>
+            <p className="text-lg text-muted-foreground">
+              Explore interconnected concepts across all your lecture videos
+            </p>
+          </div>
+          <GraphImportDialog onImported={() => {
+            fetchVideos(page);
+            loadConcepts();
+          }} />
         </div>
 
         {/* Video Stats */}
@@ -180,22 +128,22 @@ export const Home: React.FC<HomeProps> = ({ onVideoClick, onNavigateToVideo }) =
               <Video className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{videos.length}</div>
+              <div className="text-2xl font-bold">{pagination?.total ?? 0}</div>
               <p className="text-xs text-muted-foreground">
-                {videos.length === 1 ? 'video' : 'videos'} uploaded
+                {pagination?.total === 1 ? 'video' : 'videos'} in the library
               </p>
             </CardContent>
           </Card>
           
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Processed Videos</CardTitle>
+              <CardTitle className="text-sm font-medium">Shared Concepts</CardTitle>
               <Network className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{processedVideos.length}</div>
+              <div className="text-2xl font-bold">{sharedConcepts}</div>
               <p className="text-xs text-muted-foreground">
-                {processedVideos.length === 1 ? 'video' : 'videos'} with knowledge graphs
+                covered in more than one lecture
               </p>
             </CardContent>
           </Card>
@@ -215,56 +163,94 @@ export const Home: React.FC<HomeProps> = ({ onVideoClick, onNavigateToVideo }) =
         </div>
 
         {/* Video List */}
-        {processedVideos.length > 0 && (
+        {(loadingVideos || videosError || videos.length > 0) && (
           <div className="mb-8">
             <h2 className="text-2xl font-semibold text-foreground mb-4">Your Videos</h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {processedVideos.map((video, index) => (
-                <Card 
-                  key={video.id} 
-                  className="hover:shadow-lg transition-shadow cursor-pointer hover:border-primary/50"
-                  onClick={() => {
-                    onVideoClick(video);
-                    onNavigateToVideo();
-                  }}
-                >
-                  <CardHeader>
-                    <div className="flex items-center justify-between">
-                      <CardTitle className="text-lg truncate">{video.title}</CardTitle>
-                      <Badge variant="secondary">
-                        {video.metadata.node_count || 0} concepts
-                      </Badge>
-                    </div>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-2">
-                      <div className="flex items-center text-sm text-muted-foreground">
-                        <Network className="h-4 w-4 mr-2" />
-                        {video.metadata.edge_count || 0} connections
-                      </div>
-                      <div className="flex items-center text-sm text-muted-foreground">
-                        <Play className="h-4 w-4 mr-2" />
-                        Processed on {new Date(video.metadata.generated_on || '').toLocaleDateString()}
-                      </div>
-                      <div className="flex items-center gap-2 mt-3">
-                        <div 
-                          className="w-3 h-3 rounded-full" 
-                          style={{ backgroundColor: getVideoColor(index) }}
-                        />
-                        <span className="text-xs text-muted-foreground">
-                          Color-coded in combined graph
-                        </span>
+            {loadingVideos ? (
+              <div className="flex items-center justify-center py-12 text-muted-foreground">
+                <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                Loading videos...
+              </div>
+            ) : videosError ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{videosError}</AlertDescription>
+              </Alert>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {videos.map(video => (
+                  <Card 
+                    key={video.id} 
+                    className="hover:shadow-lg transition-shadow cursor-pointer hover:border-primary/50"
+                    onClick={() => {
+                      onVideoClick(video);
+                      onNavigateToVideo();
+                    }}
+                  >
+                    <CardHeader>
+                      <div className="flex items-center justify-between">
+                        <CardTitle className="text-lg truncate">{video.title}</CardTitle>
+                        <Badge variant="secondary">
+                          {video.nodeCount} concepts
+                        </Badge>
                       </div>
-                      <div className="mt-4 pt-3 border-t border-border">
-                        <p className="text-xs text-muted-foreground text-center">
-                          Click to view video and knowledge graph
-                        </p>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-2">
+                        <div className="flex items-center text-sm text-muted-foreground">
+                          <Network className="h-4 w-4 mr-2" />
+                          {video.edgeCount} connections
+                        </div>
+                        <div className="flex items-center text-sm text-muted-foreground">
+                          <Play className="h-4 w-4 mr-2" />
+                          Processed on {new Date(video.createdAt).toLocaleDateString()}
+                        </div>
+                        <div className="flex items-center gap-2 mt-3">
+                          <div 
+                            className="w-3 h-3 rounded-full" 
+                            style={{ backgroundColor: getVideoColor(video.id) }}
+                          />
+                          <span className="text-xs text-muted-foreground">
+                            Color-coded in combined graph
+                          </span>
+                        </div>
+                        <div className="mt-4 pt-3 border-t border-border">
+                          <p className="text-xs text-muted-foreground text-center">
+                            Click to view video and knowledge graph
+                          </p>
+                        </div>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-center gap-4 mt-6">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={loadingVideos || page <= 1}
+                  onClick={() => setPage(page - 1)}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {pagination.page} of {pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={loadingVideos || page >= pagination.totalPages}
+                  onClick={() => setPage(page + 1)}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            )}
           </div>
         )}
 
@@ -272,6 +258,12 @@ export const Home: React.FC<HomeProps> = ({ onVideoClick, onNavigateToVideo }) =
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
           {/* Hierarchical Knowledge Graph */}
           <div className="lg:col-span-2">
+            {conceptsError && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>Couldn't load the combined graph: {conceptsError}</AlertDescription>
+              </Alert>
+            )}
             {combinedNodes.length > 0 ? (
               <div>
                 <h2 className="text-2xl font-semibold text-foreground mb-4">
@@ -283,10 +275,12 @@ export const Home: React.FC<HomeProps> = ({ onVideoClick, onNavigateToVideo }) =
                     edges={combinedEdges}
                     onNodeClick={handleNodeClick}
                     selectedNode={selectedNode}
+                    getExportUrl={format => videoLibrary.getConceptGraphExportUrl(format)}
+                    layoutKey="concepts"
                   />
                 </div>
               </div>
-            ) : (
+            ) : !conceptsError && (
               <div className="text-center py-12">
                 <Network className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <h3 className="text-lg font-semibold text-foreground mb-2">
@@ -331,20 +325,15 @@ export const Home: React.FC<HomeProps> = ({ onVideoClick, onNavigateToVideo }) =
                   <h4 className="font-medium text-foreground mb-2">Description</h4>
                   <p className="text-muted-foreground">{selectedNode.description}</p>
                 </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <h4 className="font-medium text-foreground mb-2">Category</h4>
-                    <Badge variant="outline">{selectedNode.category}</Badge>
-                  </div>
-                  <div>
-                    <h4 className="font-medium text-foreground mb-2">Timestamps</h4>
-                    <div className="text-sm text-muted-foreground">
-                      {selectedNode.timestamps.map(t => 
-                        Math.floor(t/60) + ':' + (t%60).toString().padStart(2, '0')
-                      ).join(', ')}
-                    </div>
-                  </div>
+                <div>
+                  <h4 className="font-medium text-foreground mb-2">Category</h4>
+                  <Badge variant="outline">{selectedNode.category}</Badge>
                 </div>
+                <ConceptOccurrences
+                  concept={selectedNode}
+                  concepts={combinedNodes}
+                  onChange={loadConcepts}
+                />
               </div>
             </CardContent>
           </Card>
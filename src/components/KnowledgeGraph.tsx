@@ -1,8 +1,18 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import * as d3 from 'd3';
 import { GraphNode, GraphEdge } from './EduGraph';
-import { ZoomIn, ZoomOut, RotateCcw, Search, Network } from 'lucide-react';
+import { appendEdgeMarkers, describeEdge, edgeMarkerId, edgeOpacity, EDGE_STYLES, EDGE_TYPES } from '../lib/edgeStyles';
+import { createEditNodeId, nodeRef } from '../lib/graphEdits';
+import { clearLayout, initialZoom, loadLayout, restorePins, savePins, saveZoom } from '../lib/graphLayouts';
+import { appendTimeAxis, applyLayoutForces, computeLayout, GraphLayoutName } from '../lib/graphLayoutEngines';
+import { appendConceptDetails } from '../lib/conceptTooltip';
+import { GraphEditor } from '../hooks/use-graph-editor';
+import { ZoomIn, ZoomOut, RotateCcw, Search, Network, Pencil, Plus, Undo2, Redo2, Save, Loader2 } from 'lucide-react';
 import { Button } from './ui/button';
+import { GraphExportMenu } from './GraphExportMenu';
+import { GraphEditPanel } from './GraphEditPanel';
+import { GraphLayoutMenu } from './GraphLayoutMenu';
+import { GraphExportFormat } from '../services/videoLibrary';
 import { Input } from './ui/input';
 
 interface KnowledgeGraphProps {
@@ -10,19 +20,60 @@ interface KnowledgeGraphProps {
   edges: GraphEdge[];
   onNodeClick: (node: GraphNode) => void;
   selectedNode: GraphNode | null;
+  // Shows the Export menu when set
+  getExportUrl?: (format: GraphExportFormat) => string;
+  // Enables edit mode; `nodes` and `edges` should be editor.graph
+  editor?: GraphEditor;
+  // Playback position, offered when attaching timestamps in edit mode
+  currentTime?: number;
+  // Saves pinned concepts and the zoom under this key (e.g. "video:<id>") when set
+  layoutKey?: string;
 }
 
 export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
   nodes,
   edges,
   onNodeClick,
-  selectedNode
+  selectedNode,
+  getExportUrl,
+  editor,
+  currentTime,
+  layoutKey
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [zoomLevel, setZoomLevel] = useState(1);
   const simulationRef = useRef<d3.Simulation<GraphNode, GraphEdge> | null>(null);
   const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const [layout, setLayout] = useState<GraphLayoutName>('force');
+  // Each layout keeps its own pins and zoom
+  const storageKey = layoutKey ? `${layoutKey}:${layout}` : null;
+
+  // Edit mode: clicks select a concept to edit instead of playing it, or
+  // finish the link being drawn
+  const [editing, setEditing] = useState(false);
+  const [editNodeId, setEditNodeId] = useState<string | null>(null);
+  const [linkDraft, setLinkDraft] = useState<{ from: string; type: GraphEdge['type'] } | null>(null);
+  const editingRef = useRef(editing);
+  const linkDraftRef = useRef(linkDraft);
+  editingRef.current = editing;
+  linkDraftRef.current = linkDraft;
+
+  const highlightedId = editing ? editNodeId : selectedNode?.id;
+  const editNode = editing && editNodeId ? nodes.find(node => node.id === editNodeId) : undefined;
+
+  const handleEditClick = (node: GraphNode) => {
+    const from = linkDraft && nodes.find(other => other.id === linkDraft.from);
+    if (editor && linkDraft && from) {
+      editor.apply({ op: 'addEdge', source: nodeRef(from), target: nodeRef(node), type: linkDraft.type });
+      setLinkDraft(null);
+      return;
+    }
+    setEditNodeId(node.id);
+  };
+  // initializeGraph's handlers outlive the render they were made in
+  const editClickRef = useRef(handleEditClick);
+  editClickRef.current = handleEditClick;
 
   const filteredNodes = React.useMemo(() => {
     if (!searchTerm) return nodes;
@@ -54,6 +105,9 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
       .on('zoom', (event) => {
         graphContainer.attr('transform', event.transform);
         setZoomLevel(event.transform.k);
+      })
+      .on('end', (event) => {
+        if (storageKey) saveZoom(storageKey, event.transform);
       });
 
     svg.call(zoom);
@@ -61,15 +115,57 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
 
     const graphContainer = svg.append('g');
 
-    // Create simulation
+    // Put back the concepts the user pinned and the zoom they left
+    const saved = storageKey ? loadLayout(storageKey) : null;
+    if (saved) restorePins(filteredNodes, saved);
+    svg.call(zoom.transform, initialZoom(svgRef.current, saved));
+
+    // Dashed line from the concept a link is being drawn from to the pointer
+    const linkPreview = graphContainer
+      .append('line')
+      .attr('class', 'link-preview')
+      .attr('stroke', 'hsl(var(--accent))')
+      .attr('stroke-width', 2)
+      .attr('stroke-dasharray', '4 4')
+      .attr('pointer-events', 'none')
+      .style('display', 'none');
+
+    svg
+      .on('mousemove.link', (event) => {
+        const draft = linkDraftRef.current;
+        const from = draft && filteredNodes.find(node => node.id === draft.from);
+        if (!from) {
+          linkPreview.style('display', 'none');
+          return;
+        }
+        const [x, y] = d3.pointer(event, graphContainer.node());
+        linkPreview
+          .style('display', null)
+          .attr('x1', from.x)
+          .attr('y1', from.y)
+          .attr('x2', x)
+          .attr('y2', y);
+      })
+      .on('click.link', () => setLinkDraft(null));
+
+    // Create simulation. The tree, radial and timeline layouts replace the
+    // forces with a pull towards each concept's place, which animates the switch.
+    const arrangement = computeLayout(layout, filteredNodes, filteredEdges, width, height);
     const simulation = d3.forceSimulation<GraphNode>(filteredNodes)
       .force('link', d3.forceLink<GraphNode, GraphEdge>(filteredEdges)
         .id(d => d.id)
         .distance(80)
-        .strength(0.5))
-      .force('charge', d3.forceManyBody().strength(-300))
-      .force('center', d3.forceCenter(width / 2, height / 2))
-      .force('collision', d3.forceCollide().radius(30));
+        .strength(arrangement ? 0 : 0.5));
+
+    if (arrangement) {
+      applyLayoutForces(simulation, arrangement, width, height);
+      appendTimeAxis(graphContainer, arrangement);
+    } else {
+      simulation
+        .force('charge', d3.forceManyBody().strength(-300))
+        .force('center', d3.forceCenter(width / 2, height / 2))
+        .force('collision', d3.forceCollide().radius(30));
+    }
 
     simulationRef.current = simulation;
 
@@ -80,25 +176,16 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
       .enter()
       .append('line')
       .attr('class', 'link')
-      .attr('stroke', 'hsl(var(--edge-default))')
+      .attr('stroke', d => EDGE_STYLES[d.type].color)
       .attr('stroke-width', d => Math.sqrt(d.strength * 3))
-      .attr('stroke-opacity', 0.6)
-      .attr('marker-end', 'url(#arrowhead)');
-
-    // Create arrowhead marker
-    svg.append('defs')
-      .append('marker')
-      .attr('id', 'arrowhead')
-      .attr('viewBox', '-0 -5 10 10')
-      .attr('refX', 25)
-      .attr('refY', 0)
-      .attr('orient', 'auto')
-      .attr('markerWidth', 8)
-      .attr('markerHeight', 8)
-      .append('path')
-      .attr('d', 'M 0,-5 L 10 ,0 L 0,5')
-      .attr('fill', 'hsl(var(--edge-default))')
-      .attr('opacity', 0.6);
+      .attr('stroke-opacity', edgeOpacity)
+      .attr('stroke-dasharray', d => EDGE_STYLES[d.type].dash)
+      .attr('marker-end', d => `url(#${edgeMarkerId(d.type)})`);
+
+    link.append('title').text(describeEdge);
+
+    // Create arrowhead markers
+    appendEdgeMarkers(svg);
 
     // Create node groups
     const nodeGroups = graphContainer
@@ -118,25 +205,34 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
           d.fx = event.x;
           d.fy = event.y;
         })
+        // A dragged concept stays where it was dropped
         .on('end', (event, d) => {
           if (!event.active) simulation.alphaTarget(0);
-          d.fx = null;
-          d.fy = null;
+          if (storageKey) savePins(storageKey, [d]);
         }));
 
+    // Double-click releases a pinned concept back to the simulation
+    nodeGroups.on('dblclick', (event, d) => {
+      event.stopPropagation();
+      d.fx = null;
+      d.fy = null;
+      simulation.alpha(0.3).restart();
+      if (storageKey) savePins(storageKey, [d]);
+    });
+
     // Add circles for nodes
     const circles = nodeGroups
       .append('circle')
       .attr('r', d => d.size)
       .attr('fill', d => {
         if (d.isActive) return 'hsl(var(--node-active))';
-        if (selectedNode?.id === d.id) return 'hsl(var(--accent))';
+        if (highlightedId === d.id) return 'hsl(var(--accent))';
         return getCategoryColor(d.category);
       })
-      .attr('stroke', d => selectedNode?.id === d.id ? 'hsl(var(--accent))' : 'hsl(var(--border))')
-      .attr('stroke-width', d => selectedNode?.id === d.id ? 3 : 1)
+      .attr('stroke', d => highlightedId === d.id ? 'hsl(var(--accent))' : 'hsl(var(--border))')
+      .attr('stroke-width', d => highlightedId === d.id ? 3 : 1)
       .attr('opacity', d => d.isActive ? 1 : 0.8)
-      .classed('selected-node', d => selectedNode?.id === d.id);
+      .classed('selected-node', d => highlightedId === d.id);
 
     // Add labels
     nodeGroups
@@ -152,6 +248,10 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
     // Add click handlers
     nodeGroups.on('click', (event, d) => {
       event.stopPropagation();
+      if (editingRef.current) {
+        editClickRef.current(d);
+        return;
+      }
       onNodeClick(d);
       
       // Auto-zoom and center on the clicked node
@@ -180,13 +280,8 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
           .style('font-size', '12px')
           .style('box-shadow', '0 4px 12px hsl(var(--shadow) / 0.15)')
           .style('pointer-events', 'none')
-          .style('opacity', 0)
-          .html(`
-            <strong>${d.label}</strong><br/>
-            ${d.description}<br/>
-            <em>Category: ${d.category}</em><br/>
-            <em>Timestamps: ${d.timestamps.map(t => Math.floor(t/60) + ':' + (t%60).toString().padStart(2, '0')).join(', ')}</em>
-          `);
+          .style('opacity', 0);
+        appendConceptDetails(tooltip, d);
 
         tooltip.transition()
           .duration(200)
@@ -199,7 +294,7 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
           .transition()
           .duration(200)
           .attr('r', d.size)
-          .attr('stroke-width', selectedNode?.id === d.id ? 3 : 1);
+          .attr('stroke-width', highlightedId === d.id ? 3 : 1);
           
         d3.selectAll('.tooltip').remove();
       });
@@ -221,7 +316,7 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
       circles
         .attr('fill', d => {
           if (d.isActive) return 'hsl(var(--node-active))';
-          if (selectedNode?.id === d.id) return 'hsl(var(--accent))';
+          if (highlightedId === d.id) return 'hsl(var(--accent))';
           return getCategoryColor(d.category);
         })
         .attr('opacity', d => d.isActive ? 1 : 0.8)
@@ -231,18 +326,18 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
         .attr('stroke', d => {
           const sourceActive = (d.source as any).isActive;
           const targetActive = (d.target as any).isActive;
-          return sourceActive || targetActive ? 'hsl(var(--edge-active))' : 'hsl(var(--edge-default))';
+          return sourceActive || targetActive ? 'hsl(var(--edge-active))' : EDGE_STYLES[d.type].color;
         })
         .attr('stroke-opacity', d => {
           const sourceActive = (d.source as any).isActive;
           const targetActive = (d.target as any).isActive;
-          return sourceActive || targetActive ? 0.8 : 0.6;
+          return sourceActive || targetActive ? 0.8 : edgeOpacity(d);
         });
     };
 
     updateActiveStates();
 
-  }, [filteredNodes, filteredEdges, onNodeClick, selectedNode]);
+  }, [filteredNodes, filteredEdges, onNodeClick, highlightedId, layout, storageKey]);
 
   const getCategoryColor = (category: string) => {
     switch (category) {
@@ -283,36 +378,45 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
       );
   };
 
+  // The graph's own zoom behavior, so its listeners (and the saved zoom) follow
   const handleZoomIn = useCallback(() => {
-    if (!svgRef.current) return;
+    if (!svgRef.current || !zoomRef.current) return;
     const svg = d3.select(svgRef.current);
     svg.transition().call(
-      d3.zoom<SVGSVGElement, unknown>().scaleBy as any,
+      zoomRef.current.scaleBy as any,
       1.5
     );
   }, []);
 
   const handleZoomOut = useCallback(() => {
-    if (!svgRef.current) return;
+    if (!svgRef.current || !zoomRef.current) return;
     const svg = d3.select(svgRef.current);
     svg.transition().call(
-      d3.zoom<SVGSVGElement, unknown>().scaleBy as any,
+      zoomRef.current.scaleBy as any,
       1 / 1.5
     );
   }, []);
 
+  // Reset layout: release every pinned concept, forget the saved layout and
+  // let the simulation lay the graph out afresh
   const handleReset = useCallback(() => {
-    if (!svgRef.current) return;
+    if (!svgRef.current || !zoomRef.current) return;
+    if (storageKey) clearLayout(storageKey);
+    nodes.forEach(node => {
+      node.fx = null;
+      node.fy = null;
+    });
+
     const svg = d3.select(svgRef.current);
     svg.transition().call(
-      d3.zoom<SVGSVGElement, unknown>().transform as any,
+      zoomRef.current.transform as any,
       d3.zoomIdentity
     );
     
     if (simulationRef.current) {
       simulationRef.current.alpha(1).restart();
     }
-  }, []);
+  }, [nodes, storageKey]);
 
   useEffect(() => {
     initializeGraph();
@@ -346,6 +450,71 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
     }
   }, [selectedNode]);
 
+  // Pins belong to the layout they were made in; the new layout restores its own
+  const handleLayoutChange = (next: GraphLayoutName) => {
+    nodes.forEach(node => {
+      node.fx = null;
+      node.fy = null;
+    });
+    setLayout(next);
+  };
+
+  const toggleEditing = () => {
+    setEditing(!editing);
+    setEditNodeId(null);
+    setLinkDraft(null);
+  };
+
+  // Adds a placeholder concept (at the current playback time, if any) and
+  // selects it for renaming
+  const handleAddConcept = () => {
+    if (!editor) return;
+    let label = 'New concept';
+    for (let n = 2; nodes.some(node => node.label === label); n++) label = `New concept ${n}`;
+    const id = createEditNodeId();
+    const added = editor.apply({
+      op: 'addNode',
+      node: {
+        id,
+        label,
+        category: 'definition',
+        description: '',
+        timestamps: currentTime !== undefined ? [Math.floor(currentTime)] : []
+      }
+    });
+    if (added) setEditNodeId(id);
+  };
+
+  // Esc cancels a link being drawn; Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) undo and
+  // redo, except while typing in the edit panel
+  useEffect(() => {
+    if (!editing || !editor) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setLinkDraft(null);
+        return;
+      }
+      const target = event.target as HTMLElement;
+      if (!(event.ctrlKey || event.metaKey) || target.closest('input, textarea')) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        editor.undo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        editor.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editing, editor]);
+
+  useEffect(() => {
+    if (!linkDraft && svgRef.current) {
+      d3.select(svgRef.current).select('.link-preview').style('display', 'none');
+    }
+  }, [linkDraft]);
+
   return (
     <div className={`graph-container bg-card rounded-lg border border-border shadow-lg overflow-hidden flex flex-col h-full`}>
       {/* Graph Controls */}
@@ -387,10 +556,25 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
               variant="ghost"
               size="sm"
               onClick={handleReset}
-              title="Reset View"
+              title="Reset Layout"
             >
               <RotateCcw className="w-4 h-4" />
             </Button>
+
+            <GraphLayoutMenu layout={layout} onLayoutChange={handleLayoutChange} />
+
+            {getExportUrl && <GraphExportMenu getExportUrl={getExportUrl} />}
+
+            {editor && (
+              <Button
+                variant={editing ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={toggleEditing}
+                title={editing ? 'Stop editing' : 'Edit graph'}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+            )}
             
             <span className="text-xs text-muted-foreground ml-2">
               {Math.round(zoomLevel * 100)}%
@@ -399,6 +583,39 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
         </div>
       </div>
 
+      {/* Edit toolbar */}
+      {editor && (editing || editor.pending > 0) && (
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-border bg-muted/30 text-sm">
+          {editing && (
+            <Button variant="outline" size="sm" className="gap-1" onClick={handleAddConcept}>
+              <Plus className="w-4 h-4" />
+              Add concept
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={editor.undo} disabled={!editor.canUndo} title="Undo (Ctrl+Z)">
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={editor.redo} disabled={!editor.canRedo} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-4 h-4" />
+          </Button>
+          <span className="text-muted-foreground">
+            {linkDraft
+              ? 'Click the concept to link to (Esc to cancel)'
+              : `${editor.pending} unsaved ${editor.pending === 1 ? 'edit' : 'edits'}`}
+          </span>
+          {editor.error && <span className="text-destructive">{editor.error}</span>}
+          <div className="ml-auto flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={editor.discard} disabled={editor.pending === 0 || editor.saving}>
+              Discard
+            </Button>
+            <Button size="sm" className="gap-1" onClick={editor.save} disabled={editor.pending === 0 || editor.saving}>
+              {editor.saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Graph SVG */}
       <div className="relative flex-1">
         <svg
@@ -407,6 +624,19 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
           height="100%"
           className="bg-card"
         />
+
+        {editor && editNode && (
+          <GraphEditPanel
+            key={`${editNode.id}:${editNode.label}:${editNode.description}`}
+            node={editNode}
+            nodes={nodes}
+            edges={edges}
+            currentTime={currentTime}
+            onApply={editor.apply}
+            onDrawLink={type => setLinkDraft({ from: editNode.id, type })}
+            onClose={() => setEditNodeId(null)}
+          />
+        )}
         
         {/* Legend */}
         <div className="absolute bottom-4 left-4 bg-card/90 backdrop-blur-sm border border-border rounded-lg p-3 text-xs">
@@ -428,6 +658,22 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
               <div className="w-3 h-3 rounded-full" style={{ backgroundColor: 'hsl(var(--concept-accent))' }}></div>
               <span className="text-muted-foreground">Prerequisite</span>
             </div>
+            {EDGE_TYPES.map(type => (
+              <div key={type} className="flex items-center gap-2">
+                <svg width="12" height="12" aria-hidden="true">
+                  <line
+                    x1="0" y1="6" x2="12" y2="6"
+                    stroke={EDGE_STYLES[type].color}
+                    strokeWidth="2"
+                    strokeDasharray={EDGE_STYLES[type].dash ?? undefined}
+                  />
+                </svg>
+                <span className="text-muted-foreground">{EDGE_STYLES[type].label} link</span>
+              </div>
+            ))}
+            <div className="text-muted-foreground pt-1 border-t border-border">
+              Drag to pin • double-click to release
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent } from './ui/card';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { videoLibrary, SearchHit, SearchResults } from '../services/videoLibrary';
+import { formatTimestamp } from '../lib/timestamps';
+import { Search as SearchIcon, Loader2, AlertCircle, Clock, Network, ChevronLeft, ChevronRight } from 'lucide-react';
+
+// Hits per page
+const PAGE_SIZE = 20;
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+const KIND_LABELS: Record<SearchHit['kind'], string> = {
+  transcript: 'Transcript',
+  breakdown: 'Lecture notes',
+  concept: 'Concept'
+};
+
+interface SearchProps {
+  onOpenVideo: (videoId: string, time: number) => void;
+}
+
+// Snippet text with the matched words wrapped in <mark>
+const renderSnippet = (hit: SearchHit) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  hit.highlights.forEach(({ start, length }, index) => {
+    parts.push(hit.snippet.slice(position, start));
+    parts.push(
+      <mark key={index} className="bg-primary/20 text-foreground rounded px-0.5">
+        {hit.snippet.slice(start, start + length)}
+      </mark>
+    );
+    position = start + length;
+  });
+  parts.push(hit.snippet.slice(position));
+  return parts;
+};
+
+export const Search: React.FC<SearchProps> = ({ onOpenVideo }) => {
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(1);
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPage(1);
+  }, [query]);
+
+  useEffect(() => {
+    if (!/[\p{L}\p{N}]/u.test(query)) {
+      setResults(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await videoLibrary.search(query.trim(), page, PAGE_SIZE);
+        if (!cancelled) setResults(data);
+      } catch (error) {
+        console.error('Error searching videos:', error);
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Search failed');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [query, page]);
+
+  const pagination = results?.pagination;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-foreground mb-2">Search Lectures</h1>
+          <p className="text-muted-foreground">
+            Find a topic across every transcript, lecture note and concept, and jump straight to the moment it comes up
+          </p>
+        </div>
+
+        <div className="relative mb-6">
+          <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            autoFocus
+            placeholder="Search for a topic, e.g. merge sort"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-9"
+          />
+          {loading && (
+            <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {results && (
+          <>
+            <p className="text-sm text-muted-foreground mb-4">
+              {pagination?.total === 0
+                ? 'No matches'
+                : `${pagination?.total} ${pagination?.total === 1 ? 'match' : 'matches'}`}
+            </p>
+
+            <div className="space-y-3">
+              {results.hits.map((hit, index) => (
+                <Card
+                  key={`${hit.videoId}-${hit.kind}-${hit.timestamp}-${index}`}
+                  className="hover:shadow-lg transition-shadow cursor-pointer hover:border-primary/50"
+                  onClick={() => onOpenVideo(hit.videoId, hit.timestamp ?? 0)}
+                >
+                  <CardContent className="p-4 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium truncate">{hit.videoTitle}</p>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Badge variant="outline">{KIND_LABELS[hit.kind]}</Badge>
+                        {hit.timestamp !== null && (
+                          <Badge variant="secondary" className="font-mono">
+                            <Clock className="h-3 w-3 mr-1" />
+                            {formatTimestamp(hit.timestamp)}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{renderSnippet(hit)}</p>
+                    {hit.concept && (
+                      <div className="flex items-center text-xs text-muted-foreground">
+                        <Network className="h-3 w-3 mr-1" />
+                        {hit.concept.label}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-center gap-4 mt-6">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page <= 1}
+                  onClick={() => setPage(page - 1)}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {pagination.page} of {pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= pagination.totalPages}
+                  onClick={() => setPage(page + 1)}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
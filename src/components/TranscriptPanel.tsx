@@ -0,0 +1,160 @@
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { GraphNode } from './EduGraph';
+import { TranscriptSegment, formatTimestamp } from '../lib/timestamps';
+import { FileText } from 'lucide-react';
+
+interface TranscriptPanelProps {
+  segments: TranscriptSegment[];
+  currentTime: number;
+  concepts: GraphNode[];
+  onSeek: (time: number) => void;
+  onConceptClick: (concept: GraphNode) => void;
+  className?: string;
+}
+
+// Don't fight the user: after they scroll the transcript themselves, leave it
+// where they put it for a while before following playback again
+const MANUAL_SCROLL_PAUSE_MS = 4000;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
+  segments,
+  currentTime,
+  concepts,
+  onSeek,
+  onConceptClick,
+  className
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLDivElement>(null);
+  const lastManualScroll = useRef(0);
+  const autoScrolling = useRef(false);
+  const autoScrollTimer = useRef<number>();
+
+  // The segment playing now: the last one that has started
+  const activeIndex = useMemo(() => {
+    let index = -1;
+    segments.forEach((segment, i) => {
+      if (segment.start <= currentTime) index = i;
+    });
+    return index;
+  }, [segments, currentTime]);
+
+  // One pattern for every concept label, longest first so "merge sort" wins over "sort"
+  const conceptMatcher = useMemo(() => {
+    const byLabel = new Map<string, GraphNode>();
+    concepts.forEach(concept => {
+      const label = concept.label.trim().toLowerCase();
+      if (label.length >= 3 && !byLabel.has(label)) byLabel.set(label, concept);
+    });
+    if (byLabel.size === 0) return null;
+
+    const labels = [...byLabel.keys()].sort((a, b) => b.length - a.length);
+    return {
+      pattern: new RegExp(`\\b(${labels.map(escapeRegExp).join('|')})\\b`, 'gi'),
+      byLabel
+    };
+  }, [concepts]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const active = activeRef.current;
+    if (!container || !active) return;
+    if (Date.now() - lastManualScroll.current < MANUAL_SCROLL_PAUSE_MS) return;
+
+    // Keep the current line about a third of the way down the pane
+    const target = active.offsetTop - container.clientHeight / 3;
+    if (Math.abs(container.scrollTop - target) > 4) {
+      // A smooth scroll fires scroll events for a while; none of them are the user's
+      autoScrolling.current = true;
+      window.clearTimeout(autoScrollTimer.current);
+      autoScrollTimer.current = window.setTimeout(() => {
+        autoScrolling.current = false;
+      }, 800);
+      container.scrollTo({ top: Math.max(0, target), behavior: 'smooth' });
+    }
+  }, [activeIndex]);
+
+  useEffect(() => () => window.clearTimeout(autoScrollTimer.current), []);
+
+  const handleScroll = useCallback(() => {
+    if (autoScrolling.current) return;
+    lastManualScroll.current = Date.now();
+  }, []);
+
+  const renderText = (text: string) => {
+    if (!conceptMatcher) return text;
+
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+    for (const match of text.matchAll(conceptMatcher.pattern)) {
+      const concept = conceptMatcher.byLabel.get(match[0].toLowerCase());
+      const index = match.index ?? 0;
+      if (!concept) continue;
+
+      parts.push(text.slice(lastIndex, index));
+      parts.push(
+        <button
+          key={index}
+          type="button"
+          className="underline decoration-primary/60 decoration-2 underline-offset-2 hover:text-primary"
+          onClick={(e) => {
+            e.stopPropagation();
+            onConceptClick(concept);
+          }}
+        >
+          {match[0]}
+        </button>
+      );
+      lastIndex = index + match[0].length;
+    }
+    parts.push(text.slice(lastIndex));
+    return parts;
+  };
+
+  return (
+    <Card className={`flex flex-col ${className || ''}`}>
+      <CardHeader className="pb-3 flex-shrink-0">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Transcript
+        </CardTitle>
+        <CardDescription>Click a line to jump to it, or an underlined concept to open it</CardDescription>
+      </CardHeader>
+
+      <CardContent className="flex-1 min-h-0 p-0">
+        {segments.length === 0 ? (
+          <p className="px-6 pb-6 text-sm text-muted-foreground italic">No transcript available for this video</p>
+        ) : (
+          <div
+            ref={containerRef}
+            className="relative h-full overflow-y-auto px-3 pb-3"
+            onScroll={handleScroll}
+          >
+            {segments.map((segment, index) => (
+              <div
+                key={index}
+                ref={index === activeIndex ? activeRef : undefined}
+                className={`flex gap-3 rounded-md px-3 py-2 text-sm cursor-pointer transition-colors ${
+                  index === activeIndex
+                    ? 'bg-primary/10 border-l-2 border-primary'
+                    : 'border-l-2 border-transparent hover:bg-muted'
+                }`}
+                onClick={() => onSeek(segment.start)}
+              >
+                <span className="font-mono text-xs text-muted-foreground pt-0.5 shrink-0">
+                  {formatTimestamp(segment.start)}
+                </span>
+                <p className={index === activeIndex ? 'text-foreground' : 'text-muted-foreground'}>
+                  {renderText(segment.text)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
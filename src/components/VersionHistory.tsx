@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { ScrollArea } from './ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Separator } from './ui/separator';
+import { videoLibrary, VideoDetails, VideoVersionSummary, VersionDiff, DiffEdge } from '../services/videoLibrary';
+import { History, Loader2, RotateCcw, ArrowRight } from 'lucide-react';
+
+interface VersionHistoryProps {
+  videoId: string;
+  currentVersion: number;
+  onRestore: (video: VideoDetails) => void;
+}
+
+const REASON_LABELS: Record<VideoVersionSummary['reason'], string> = {
+  upload: 'Uploaded',
+  import: 'Imported',
+  curriculum: 'Imported curriculum',
+  restructure: 'Re-structured',
+  retranscribe: 'Re-transcribed',
+  edit: 'Edited'
+};
+
+const describeVersion = (version: VideoVersionSummary) =>
+  `v${version.version} · ${REASON_LABELS[version.reason] || version.reason} · ${new Date(version.createdAt).toLocaleString()}`;
+
+const describeEdge = (edge: DiffEdge) =>
+  `${edge.sourceLabel ?? edge.source} → ${edge.targetLabel ?? edge.target}`;
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ videoId, currentVersion, onRestore }) => {
+  const [versions, setVersions] = useState<VideoVersionSummary[]>([]);
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to comparing the current version with the one before it
+  useEffect(() => {
+    let cancelled = false;
+
+    videoLibrary.listVersions(videoId)
+      .then(list => {
+        if (cancelled) return;
+        setVersions(list);
+        const previous = list.find(version => version.version < currentVersion);
+        setTo(currentVersion);
+        setFrom(previous ? previous.version : null);
+      })
+      .catch(error => {
+        console.error('Error loading versions:', error);
+        if (!cancelled) setError(error.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId, currentVersion]);
+
+  useEffect(() => {
+    if (from === null || to === null || from === to) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    videoLibrary.diffVersions(videoId, from, to)
+      .then(result => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch(error => {
+        console.error('Error comparing versions:', error);
+        if (!cancelled) setError(error.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId, from, to]);
+
+  const handleRestore = async (version: number) => {
+    setRestoring(true);
+    try {
+      onRestore(await videoLibrary.restoreVersion(videoId, version));
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      setError(error instanceof Error ? error.message : 'Failed to restore version');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const renderVersionSelect = (value: number | null, onChange: (version: number) => void) => (
+    <Select value={value !== null ? String(value) : undefined} onValueChange={(version) => onChange(Number(version))}>
+      <SelectTrigger className="flex-1">
+        <SelectValue placeholder="Pick a version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(version => (
+          <SelectItem key={version.version} value={String(version.version)}>
+            {describeVersion(version)}{version.isCurrent ? ' (current)' : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderSection = (title: string, count: number, children: React.ReactNode) => (
+    count > 0 && (
+      <div className="space-y-2">
+        <p className="text-sm font-medium">{title} ({count})</p>
+        <ul className="space-y-1 text-sm">{children}</ul>
+      </div>
+    )
+  );
+
+  const renamed = diff?.nodes.changed.filter(node => node.changes.label) || [];
+  const edited = diff?.nodes.changed.filter(node => node.changes.description || node.changes.category) || [];
+  const hasChanges = diff && Object.values(diff.summary).some(count => count > 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </CardTitle>
+          <Badge variant="secondary">{versions.length} versions</Badge>
+        </div>
+        <CardDescription>Compare the knowledge graph between processing runs</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {versions.length < 2 ? (
+          <p className="text-sm text-muted-foreground italic">
+            Only one version so far. Re-structure or re-transcribe the video to create another.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              {renderVersionSelect(from, setFrom)}
+              <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+              {renderVersionSelect(to, setTo)}
+            </div>
+
+            {to !== null && to !== currentVersion && (
+              <Button variant="outline" size="sm" disabled={restoring} onClick={() => handleRestore(to)}>
+                {restoring ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                Restore v{to}
+              </Button>
+            )}
+
+            <Separator />
+
+            {loading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Comparing versions...
+              </div>
+            ) : from === to ? (
+              <p className="text-sm text-muted-foreground italic">Pick two different versions to compare</p>
+            ) : diff && !hasChanges ? (
+              <p className="text-sm text-muted-foreground italic">The graphs of these versions are identical</p>
+            ) : diff && (
+              <ScrollArea className="h-[320px] pr-3">
+                <div className="space-y-4">
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="outline" className="text-green-700 dark:text-green-300">+{diff.summary.nodesAdded} concepts</Badge>
+                    <Badge variant="outline" className="text-red-700 dark:text-red-300">−{diff.summary.nodesRemoved} concepts</Badge>
+                    <Badge variant="outline">{diff.summary.nodesChanged} changed</Badge>
+                    <Badge variant="outline">
+                      +{diff.summary.edgesAdded} / −{diff.summary.edgesRemoved} connections
+                    </Badge>
+                  </div>
+
+                  {renderSection('Added concepts', diff.nodes.added.length, diff.nodes.added.map(node => (
+                    <li key={node.id} className="text-green-700 dark:text-green-300">
+                      + {node.label} <span className="text-muted-foreground capitalize">({node.category})</span>
+                    </li>
+                  )))}
+
+                  {renderSection('Removed concepts', diff.nodes.removed.length, diff.nodes.removed.map(node => (
+                    <li key={node.id} className="text-red-700 dark:text-red-300 line-through">
+                      {node.label}
+                    </li>
+                  )))}
+
+                  {renderSection('Renamed concepts', renamed.length, renamed.map(node => (
+                    <li key={node.toId}>
+                      <span className="text-muted-foreground line-through">{node.changes.label?.from}</span>
+                      {' → '}
+                      {node.changes.label?.to}
+                    </li>
+                  )))}
+
+                  {renderSection('Changed descriptions and categories', edited.length, edited.map(node => (
+                    <li key={node.toId} className="space-y-1">
+                      <p className="font-medium">{node.label}</p>
+                      {node.changes.category && (
+                        <p className="text-muted-foreground capitalize">
+                          Category: {node.changes.category.from ?? 'none'} → {node.changes.category.to ?? 'none'}
+                        </p>
+                      )}
+                      {node.changes.description && (
+                        <div className="text-xs space-y-1">
+                          <p className="text-red-700 dark:text-red-300">− {node.changes.description.from || '(empty)'}</p>
+                          <p className="text-green-700 dark:text-green-300">+ {node.changes.description.to || '(empty)'}</p>
+                        </div>
+                      )}
+                    </li>
+                  )))}
+
+                  {renderSection('Added connections', diff.edges.added.length, diff.edges.added.map(edge => (
+                    <li key={`${edge.source}-${edge.target}`} className="text-green-700 dark:text-green-300">
+                      + {describeEdge(edge)}
+                    </li>
+                  )))}
+
+                  {renderSection('Removed connections', diff.edges.removed.length, diff.edges.removed.map(edge => (
+                    <li key={`${edge.source}-${edge.target}`} className="text-red-700 dark:text-red-300 line-through">
+                      {describeEdge(edge)}
+                    </li>
+                  )))}
+
+                  {renderSection('Changed connections', diff.edges.changed.length, diff.edges.changed.map(edge => (
+                    <li key={`${edge.source}-${edge.target}`}>
+                      {describeEdge(edge)}
+                      <span className="text-muted-foreground">
+                        {edge.changes.type && ` · type ${edge.changes.type.from} → ${edge.changes.type.to}`}
+                        {edge.changes.strength && ` · strength ${edge.changes.strength.from} → ${edge.changes.strength.to}`}
+                      </span>
+                    </li>
+                  )))}
+                </div>
+              </ScrollArea>
+            )}
+          </>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+};
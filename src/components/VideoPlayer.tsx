@@ -1,11 +1,12 @@
 import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
-import { Play, Pause, Volume2, VolumeX, Maximize } from 'lucide-react';
+import { Play, Pause, Volume2, VolumeX, Maximize, Subtitles, ListOrdered } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Slider } from './ui/slider';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
 import { GraphNode } from './EduGraph';
+import { formatTimestamp, getConceptIntervals, isWithinIntervals } from '../lib/timestamps';
 
 interface VideoPlayerProps {
   videoUrl: string;
@@ -14,6 +15,15 @@ interface VideoPlayerProps {
   currentTime: number;
   onTimeUpdate: (time: number) => void;
   concepts: GraphNode[];
+  // WebVTT tracks; only library videos have them
+  captionsUrl?: string;
+  chaptersUrl?: string;
+}
+
+interface Chapter {
+  start: number;
+  end: number;
+  title: string;
 }
 
 export const VideoPlayer: React.FC<VideoPlayerProps> = ({
@@ -22,9 +32,15 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   duration,
   currentTime,
   onTimeUpdate,
-  concepts
+  concepts,
+  captionsUrl,
+  chaptersUrl
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const captionsTrackRef = useRef<HTMLTrackElement>(null);
+  const chaptersTrackRef = useRef<HTMLTrackElement>(null);
+  const [captionsOn, setCaptionsOn] = useState(false);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
   const [isPlaying, setIsPlaying] = useState(false);
   const [volume, setVolume] = useState(1);
   const [isMuted, setIsMuted] = useState(false);
@@ -80,6 +96,37 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     };
   }, [onTimeUpdate]);
 
+  // The chapters track is never displayed, but it has to be "hidden" rather
+  // than "disabled" for the browser to load its cues
+  useEffect(() => {
+    const trackElement = chaptersTrackRef.current;
+    if (!trackElement) {
+      setChapters([]);
+      return;
+    }
+
+    const readCues = () => {
+      const cues = Array.from(trackElement.track.cues || []) as VTTCue[];
+      setChapters(cues.map(cue => ({ start: cue.startTime, end: cue.endTime, title: cue.text })));
+    };
+
+    trackElement.track.mode = 'hidden';
+    trackElement.addEventListener('load', readCues);
+    readCues();
+    return () => trackElement.removeEventListener('load', readCues);
+  }, [chaptersUrl]);
+
+  useEffect(() => {
+    const trackElement = captionsTrackRef.current;
+    if (trackElement) {
+      trackElement.track.mode = captionsOn ? 'showing' : 'hidden';
+    }
+  }, [captionsOn, captionsUrl]);
+
+  const currentChapter = useMemo(() => {
+    return chapters.find(chapter => currentTime >= chapter.start && currentTime < chapter.end) || null;
+  }, [chapters, currentTime]);
+
   const togglePlay = useCallback(() => {
     if (!videoRef.current) return;
     
@@ -137,11 +184,7 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     }
   }, []);
 
-  const formatTime = useCallback((time: number) => {
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-  }, []);
+  const formatTime = formatTimestamp;
 
   const activeConcepts = useMemo(() => {
     return concepts.filter(concept => concept.isActive);
@@ -149,17 +192,19 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
 
   const conceptsAtTime = useMemo(() => {
     return concepts.filter(concept =>
-      concept.timestamps.some(timestamp => Math.abs(timestamp - currentTime) < 15)
+      isWithinIntervals(getConceptIntervals(concept), currentTime, 15)
     );
   }, [concepts, currentTime]);
 
   const conceptMarkers = useMemo(() => {
     return concepts.flatMap((concept) =>
-      concept.timestamps.map((timestamp, index) => ({
+      getConceptIntervals(concept).map((interval, index) => ({
         key: `${concept.id}-${index}`,
-        timestamp,
+        start: interval.start,
+        end: interval.end,
         label: concept.label,
-        position: (timestamp / duration) * 100
+        position: (interval.start / duration) * 100,
+        width: ((interval.end - interval.start) / duration) * 100
       }))
     );
   }, [concepts, duration]);
@@ -176,11 +221,20 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
             playsInline
             onMouseEnter={() => setShowControls(true)}
             onMouseLeave={() => setShowControls(false)}
+            // The tracks come from the backend, which is usually another origin
+            crossOrigin={captionsUrl || chaptersUrl ? 'anonymous' : undefined}
             style={{
               willChange: 'auto',
               transform: 'translateZ(0)', // Force hardware acceleration
             }}
-          />
+          >
+            {captionsUrl && (
+              <track ref={captionsTrackRef} kind="captions" src={captionsUrl} srcLang="en" label="Transcript" />
+            )}
+            {chaptersUrl && (
+              <track ref={chaptersTrackRef} kind="chapters" src={chaptersUrl} srcLang="en" label="Chapters" />
+            )}
+          </video>
           
           {/* Optimized Concept Overlays */}
           {activeConcepts.length > 0 && (
@@ -217,26 +271,34 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
                 <div 
                   className="h-full bg-primary rounded-full relative"
                   style={{ width: `${(currentTime / duration) * 100}%` }}
-                >
-                  {/* Optimized Concept Markers */}
-                  {conceptMarkers.map((marker) => (
-                    <Tooltip key={marker.key}>
-                      <TooltipTrigger asChild>
-                        <div
-                          className="absolute w-2 h-4 -top-1 rounded-sm transition-all duration-200 cursor-pointer hover:scale-110"
-                          style={{ left: `${marker.position}%` }}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            onTimeUpdate(marker.timestamp);
-                          }}
-                        />
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>{marker.label} - {formatTime(marker.timestamp)}</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  ))}
-                </div>
+                />
+
+                {/* Concept spans; concepts without an end time get a point marker */}
+                {conceptMarkers.map((marker) => (
+                  <Tooltip key={marker.key}>
+                    <TooltipTrigger asChild>
+                      <div
+                        className={`absolute -top-1 h-4 rounded-sm transition-all duration-200 cursor-pointer hover:bg-white/70 ${
+                          marker.width > 0 ? 'bg-white/30' : 'w-2 bg-white/60 hover:scale-110'
+                        }`}
+                        style={{
+                          left: `${marker.position}%`,
+                          width: marker.width > 0 ? `max(${marker.width}%, 0.5rem)` : undefined
+                        }}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onTimeUpdate(marker.start);
+                        }}
+                      />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>
+                        {marker.label} - {formatTime(marker.start)}
+                        {marker.end > marker.start && `–${formatTime(marker.end)}`}
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                ))}
               </div>
             </div>
 
@@ -291,6 +353,42 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
               </div>
 
               <div className="flex items-center gap-3">
+                {chapters.length > 0 && (
+                  <div className="flex items-center gap-1 text-white">
+                    <ListOrdered className="w-4 h-4" />
+                    <select
+                      value={currentChapter ? chapters.indexOf(currentChapter) : ''}
+                      onChange={(e) => onTimeUpdate(chapters[parseInt(e.target.value)].start)}
+                      className="bg-white/20 text-white text-sm rounded px-2 py-1 border-none outline-none max-w-[14rem] truncate"
+                    >
+                      {!currentChapter && <option value="" disabled>Chapters</option>}
+                      {chapters.map((chapter, index) => (
+                        <option key={index} value={index} className="text-foreground">
+                          {formatTime(chapter.start)} {chapter.title}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {captionsUrl && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setCaptionsOn(on => !on)}
+                        className={`hover:text-primary h-8 w-8 p-0 ${captionsOn ? 'text-primary' : 'text-white'}`}
+                      >
+                        <Subtitles className="w-4 h-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>{captionsOn ? 'Hide captions' : 'Show captions'}</p>
+                    </TooltipContent>
+                  </Tooltip>
+                )}
+
                 <select
                   value={playbackRate}
                   onChange={(e) => handlePlaybackRateChange(parseFloat(e.target.value))}
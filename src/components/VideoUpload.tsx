@@ -1,45 +1,42 @@
 import React, { useCallback, useState } from 'react';
-import { Upload, FileVideo, Loader2, Play, CheckCircle, AlertCircle } from 'lucide-react';
+import { Upload, FileVideo, Loader2, Play, CheckCircle, AlertCircle, Circle, Subtitles, X } from 'lucide-react';
 import { Button } from './ui/button';
 import { Progress } from './ui/progress';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Alert, AlertDescription } from './ui/alert';
 import { Separator } from './ui/separator';
+import { ScrollArea } from './ui/scroll-area';
+import { ProcessingProgress, PipelineStage, PIPELINE_STAGE_LABELS } from '../services/videoProcessor';
 
 interface VideoUploadProps {
-  onUpload: (file: File) => void;
+  onUpload: (file: File, subtitles?: File | null) => void;
   isProcessing: boolean;
-  processingProgress?: {
-    stage: 'converting' | 'transcribing' | 'structuring' | 'complete';
-    progress: number;
-    message: string;
-  } | null;
+  processingProgress?: ProcessingProgress | null;
+  // Why the last upload failed
+  error?: string | null;
 }
 
-export const VideoUpload: React.FC<VideoUploadProps> = ({ onUpload, isProcessing, processingProgress }) => {
+// Caption files the backend can use instead of transcribing the audio
+const isSubtitleFile = (file: File) => /\.(srt|vtt)$/i.test(file.name);
+
+const formatEta = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${(seconds % 60).toString().padStart(2, '0')}s`;
+};
+
+export const VideoUpload: React.FC<VideoUploadProps> = ({ onUpload, isProcessing, processingProgress, error }) => {
   const [dragOver, setDragOver] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [subtitles, setSubtitles] = useState<File | null>(null);
+  const logEndRef = React.useRef<HTMLDivElement>(null);
 
+  const logs = processingProgress?.logs ?? [];
+
+  // Keep the newest log line in view
   React.useEffect(() => {
-    if (isProcessing && processingProgress) {
-      setProgress(processingProgress.progress);
-    } else if (isProcessing) {
-      const interval = setInterval(() => {
-        setProgress(prev => {
-          if (prev >= 95) {
-            clearInterval(interval);
-            return 95;
-          }
-          return prev + Math.random() * 15;
-        });
-      }, 200);
-      
-      return () => clearInterval(interval);
-    } else {
-      setProgress(0);
-    }
-  }, [isProcessing, processingProgress]);
+    logEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [logs.length]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -57,23 +54,36 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({ onUpload, isProcessing
     
     const files = Array.from(e.dataTransfer.files);
     const videoFile = files.find(file => file.type.startsWith('video/'));
+    // Subtitles can be dropped on their own first, or together with the video
+    const subtitleFile = files.find(isSubtitleFile) || subtitles;
     
     if (videoFile) {
-      onUpload(videoFile);
+      onUpload(videoFile, subtitleFile);
+    } else if (subtitleFile) {
+      setSubtitles(subtitleFile);
     }
-  }, [onUpload]);
+  }, [onUpload, subtitles]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file && file.type.startsWith('video/')) {
-      onUpload(file);
+      onUpload(file, subtitles);
+    }
+  }, [onUpload, subtitles]);
+
+  const handleSubtitleInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && isSubtitleFile(file)) {
+      setSubtitles(file);
     }
-  }, [onUpload]);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  }, []);
 
   if (isProcessing) {
     return (
       <div className="flex-1 flex items-center justify-center p-8">
-        <Card className="max-w-md w-full">
+        <Card className="max-w-lg w-full">
           <CardHeader className="text-center">
             <div className="mx-auto mb-4">
               <Loader2 className="w-16 h-16 text-primary animate-spin" />
@@ -86,24 +96,69 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({ onUpload, isProcessing
           
           <CardContent className="space-y-6">
             <div className="space-y-3">
-              <Progress value={progress} className="w-full" />
+              <Progress value={processingProgress?.progress ?? 0} className="w-full" />
               <div className="text-sm text-muted-foreground text-center">
                 {processingProgress ? (
                   <div>
                     <div className="font-medium">{processingProgress.message}</div>
                     <div className="text-xs mt-1">
-                      Stage: {processingProgress.stage} ({Math.round(processingProgress.progress)}%)
+                      {Math.round(processingProgress.progress)}% complete
+                      {processingProgress.eta !== null && processingProgress.progress < 100 && (
+                        <> &middot; about {formatEta(processingProgress.eta)} remaining</>
+                      )}
                     </div>
                   </div>
                 ) : (
-                  <>
-                    {progress < 30 && "Extracting audio and transcribing..."}
-                    {progress >= 30 && progress < 70 && "Analyzing concepts and relationships..."}
-                    {progress >= 70 && "Building your interactive graph..."}
-                  </>
+                  "Uploading video..."
                 )}
               </div>
             </div>
+
+            {processingProgress && Object.keys(processingProgress.stages).length > 0 && (
+              <div className="space-y-2">
+                {(Object.keys(PIPELINE_STAGE_LABELS) as PipelineStage[])
+                  .filter(stage => stage in processingProgress.stages)
+                  .map(stage => {
+                    const stageProgress = processingProgress.stages[stage] ?? 0;
+                    const isCurrent = processingProgress.stage === stage && stageProgress < 100;
+                    return (
+                      <div key={stage} className="flex items-center gap-3 text-sm">
+                        {stageProgress >= 100 ? (
+                          <CheckCircle className="w-4 h-4 text-primary flex-shrink-0" />
+                        ) : isCurrent ? (
+                          <Loader2 className="w-4 h-4 text-primary animate-spin flex-shrink-0" />
+                        ) : (
+                          <Circle className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                        )}
+                        <span className={`w-32 ${isCurrent ? 'font-medium text-foreground' : 'text-muted-foreground'}`}>
+                          {PIPELINE_STAGE_LABELS[stage]}
+                        </span>
+                        <Progress value={stageProgress} className="h-1.5 flex-1" />
+                        <span className="w-10 text-right text-xs font-mono text-muted-foreground">
+                          {stageProgress}%
+                        </span>
+                      </div>
+                    );
+                  })}
+              </div>
+            )}
+
+            {logs.length > 0 && (
+              <ScrollArea className="h-32 rounded-md border bg-muted/30">
+                <div className="p-3 space-y-1 font-mono text-xs">
+                  {logs.map((entry, index) => (
+                    <div
+                      key={index}
+                      className={entry.level === 'error' ? 'text-destructive' : 'text-muted-foreground'}
+                    >
+                      <span className="opacity-60">{new Date(entry.time).toLocaleTimeString()}</span>{' '}
+                      {entry.message}
+                    </div>
+                  ))}
+                  <div ref={logEndRef} />
+                </div>
+              </ScrollArea>
+            )}
             
             <Alert>
               <CheckCircle className="h-4 w-4" />
@@ -137,6 +192,15 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({ onUpload, isProcessing
           </Badge>
         </div>
 
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <strong>Processing failed:</strong> {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
         <Card className="border-2 border-dashed border-muted-foreground/25 hover:border-primary/50 transition-colors">
           <CardContent className="p-8">
             <div
@@ -171,6 +235,38 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({ onUpload, isProcessing
                 className="hidden"
                 onChange={handleFileInput}
               />
+
+              <div className="mt-4 text-sm text-muted-foreground">
+                {subtitles ? (
+                  <div className="inline-flex items-center gap-2">
+                    <Subtitles className="w-4 h-4" />
+                    Using captions from <span className="font-medium text-foreground">{subtitles.name}</span>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setSubtitles(null)}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <>
+                    Already have captions?{' '}
+                    <button
+                      type="button"
+                      className="underline underline-offset-2 hover:text-foreground"
+                      onClick={() => document.getElementById('subtitle-input')?.click()}
+                    >
+                      Add an .srt or .vtt file
+                    </button>{' '}
+                    to skip transcription.
+                  </>
+                )}
+              </div>
+
+              <input
+                id="subtitle-input"
+                type="file"
+                accept=".srt,.vtt"
+                className="hidden"
+                onChange={handleSubtitleInput}
+              />
             </div>
           </CardContent>
         </Card>
@@ -4,103 +4,119 @@ import { KnowledgeGraph } from './KnowledgeGraph';
 import { ConceptTimeline } from './ConceptTimeline';
 import { ConceptPanel } from './ConceptPanel';
 import { DedalusChat } from './DedalusChat';
-import { GraphNode, GraphEdge } from './EduGraph';
+import { VersionHistory } from './VersionHistory';
+import { TranscriptPanel } from './TranscriptPanel';
+import { GraphNode } from './EduGraph';
+import { getConceptIntervals, isWithinIntervals } from '../lib/timestamps';
+import { useGraphEditor } from '../hooks/use-graph-editor';
+import { videoLibrary, VideoDetails } from '../services/videoLibrary';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
-import { Play, Calendar, Network, FileText } from 'lucide-react';
-
-interface ProcessedVideo {
-  id: string;
-  filename: string;
-  title: string;
-  nodes: GraphNode[];
-  edges: GraphEdge[];
-  metadata: {
-    source_video?: string;
-    generated_on?: string;
-    type?: string;
-    node_count?: number;
-    edge_count?: number;
-  };
-}
+import { Play, Calendar, Network, FileText, Loader2 } from 'lucide-react';
 
 interface VideoViewProps {
-  video: ProcessedVideo;
+  videoId: string;
+  // Where to start playback, e.g. the moment a search hit points at
+  startTime?: number;
 }
 
-export const VideoView: React.FC<VideoViewProps> = ({ video }) => {
-  const [currentTime, setCurrentTime] = useState(0);
+export const VideoView: React.FC<VideoViewProps> = ({ videoId, startTime = 0 }) => {
+  const [video, setVideo] = useState<VideoDetails | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(startTime);
   const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
-  const [videoUrl, setVideoUrl] = useState<string>('');
 
-  // Find the corresponding video file
+  // Load the full bundle for this video
   useEffect(() => {
-    const findVideoUrl = async () => {
-      try {
-        // Extract video ID from the filename
-        const videoId = video.filename.split('_')[0] + '_' + video.filename.split('_')[1] + '_' + video.filename.split('_')[2];
-        
-        // Try to find the video file in uploads
-        const response = await fetch('http://localhost:3001/api/videos');
-        if (response.ok) {
-          const data = await response.json();
-          const videoFile = data.videos.find((v: any) => v.id === videoId);
-          if (videoFile) {
-            setVideoUrl(`http://localhost:3001${videoFile.path}`);
-          }
-        }
-      } catch (error) {
-        console.error('Error finding video URL:', error);
-      }
+    let cancelled = false;
+    setVideo(null);
+    setLoadError(null);
+
+    videoLibrary.getVideo(videoId)
+      .then(details => {
+        if (!cancelled) setVideo(details);
+      })
+      .catch(error => {
+        console.error('Error loading video:', error);
+        if (!cancelled) setLoadError(error.message);
+      });
+
+    return () => {
+      cancelled = true;
     };
+  }, [videoId]);
+
+  useEffect(() => {
+    setCurrentTime(startTime);
+  }, [videoId, startTime]);
+
+  // Restoring or editing swaps in another version's graph, so the selection may no longer exist
+  const handleRestore = useCallback((restored: VideoDetails) => {
+    setVideo(restored);
+    setSelectedNode(null);
+  }, []);
 
-    findVideoUrl();
-  }, [video]);
+  // Unsaved graph edits; the knowledge graph shows editor.graph
+  const editor = useGraphEditor(video, handleRestore);
 
   const handleTimeUpdate = useCallback((time: number) => {
     setCurrentTime(time);
+    if (!video) return;
     
     // Update active states based on current time
     const updatedNodes = video.nodes.map(node => ({
       ...node,
-      isActive: node.timestamps.some(timestamp => 
-        Math.abs(timestamp - time) < 5 // 5 second tolerance
-      )
+      isActive: isWithinIntervals(getConceptIntervals(node), time, 5) // 5 second tolerance
     }));
     
     // Update the nodes in the video object (this is a bit of a hack but works for now)
     video.nodes.forEach((node, index) => {
       node.isActive = updatedNodes[index].isActive;
     });
-  }, [video]);
+    // Edited concepts are copies, so they need the same treatment
+    editor.graph.nodes.forEach(node => {
+      node.isActive = isWithinIntervals(getConceptIntervals(node), time, 5);
+    });
+  }, [video, editor.graph]);
 
   const handleNodeClick = useCallback((node: GraphNode) => {
     setSelectedNode(node);
     
-    // If the node has timestamps, seek to the first one
+    // If the node has timestamps, seek to the first one; VideoPlayer follows currentTime
     if (node.timestamps && node.timestamps.length > 0) {
-      const firstTimestamp = node.timestamps[0];
-      // This would need to be passed to the video player
-      // For now, we'll just log it
-      console.log('Seeking to timestamp:', firstTimestamp);
+      setCurrentTime(node.timestamps[0]);
     }
   }, []);
 
   const handleTimelineClick = useCallback((time: number) => {
     setCurrentTime(time);
-    // This would need to be passed to the video player
-    console.log('Timeline clicked, seeking to:', time);
   }, []);
 
-  // Convert video data to the format expected by VideoPlayer
-  const videoData = {
-    url: videoUrl,
-    title: video.title,
-    duration: 0, // We'll need to get this from the video metadata or calculate it
-    transcript: [], // We'll need to get this from the structured transcript
-    nodes: video.nodes,
-    edges: video.edges
-  };
+  if (!video) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          {loadError ? (
+            <p className="text-muted-foreground">Failed to load video: {loadError}</p>
+          ) : (
+            <>
+              <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+              <p className="text-muted-foreground">Loading video...</p>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const videoUrl = videoLibrary.getMediaUrl(video);
+
+  // Videos imported from the old JSON files have no stored duration, so fall
+  // back to the end of the last concept
+  const duration = video.duration || Math.max(
+    1,
+    ...video.nodes.flatMap(node => getConceptIntervals(node).map(interval => interval.end))
+  );
 
   return (
     <div className="min-h-screen bg-background">
@@ -113,20 +129,20 @@ export const VideoView: React.FC<VideoViewProps> = ({ video }) => {
               <div className="flex items-center gap-4 text-sm text-muted-foreground">
                 <div className="flex items-center gap-2">
                   <Calendar className="h-4 w-4" />
-                  Processed on {new Date(video.metadata.generated_on || '').toLocaleDateString()}
+                  Processed on {new Date(video.createdAt).toLocaleDateString()}
                 </div>
                 <div className="flex items-center gap-2">
                   <Network className="h-4 w-4" />
-                  {video.metadata.node_count || 0} concepts
+                  {video.nodes.length} concepts
                 </div>
                 <div className="flex items-center gap-2">
                   <FileText className="h-4 w-4" />
-                  {video.metadata.edge_count || 0} connections
+                  {video.edges.length} connections
                 </div>
               </div>
             </div>
             <Badge variant="secondary" className="text-lg px-4 py-2">
-              {video.metadata.node_count || 0} concepts
+              {video.nodes.length} concepts
             </Badge>
           </div>
         </div>
@@ -146,15 +162,22 @@ export const VideoView: React.FC<VideoViewProps> = ({ video }) => {
               <CardContent>
                 {videoUrl ? (
                   <VideoPlayer
-                    videoData={videoData}
+                    videoUrl={videoUrl}
+                    title={video.title}
+                    duration={duration}
+                    currentTime={currentTime}
                     onTimeUpdate={handleTimeUpdate}
-                    onSeek={handleTimelineClick}
+                    concepts={video.nodes}
+                    captionsUrl={videoLibrary.getTrackUrl(video.id, 'captions')}
+                    chaptersUrl={videoLibrary.getTrackUrl(video.id, 'chapters')}
                   />
                 ) : (
                   <div className="aspect-video bg-muted rounded-lg flex items-center justify-center">
                     <div className="text-center">
                       <Play className="h-12 w-12 text-muted-foreground mx-auto mb-2" />
-                      <p className="text-muted-foreground">Loading video...</p>
+                      <p className="text-muted-foreground">
+                        The source video for this lecture is not available
+                      </p>
                     </div>
                   </div>
                 )}
@@ -162,30 +185,45 @@ export const VideoView: React.FC<VideoViewProps> = ({ video }) => {
             </Card>
 
             {/* Concept Timeline */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Concept Timeline</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <ConceptTimeline
-                  nodes={video.nodes}
-                  currentTime={currentTime}
-                  onTimeClick={handleTimelineClick}
-                />
-              </CardContent>
-            </Card>
+            <ConceptTimeline
+              duration={duration}
+              currentTime={currentTime}
+              concepts={video.nodes}
+              onClick={handleTimelineClick}
+            />
+
+            {/* Version History */}
+            <VersionHistory
+              videoId={video.id}
+              currentVersion={video.version}
+              onRestore={handleRestore}
+            />
           </div>
 
-          {/* Knowledge Graph and Concept Panel */}
+          {/* Transcript, Knowledge Graph and Concept Panel */}
           <div className="space-y-6">
+            {/* Transcript */}
+            <TranscriptPanel
+              className="h-[420px]"
+              segments={video.transcriptSegments}
+              currentTime={currentTime}
+              concepts={video.nodes}
+              onSeek={handleTimelineClick}
+              onConceptClick={setSelectedNode}
+            />
+
             {/* Knowledge Graph */}
             <Card className="h-[500px]">
               <CardContent className="p-0 h-full">
                 <KnowledgeGraph
-                  nodes={video.nodes}
-                  edges={video.edges}
+                  nodes={editor.graph.nodes}
+                  edges={editor.graph.edges}
                   onNodeClick={handleNodeClick}
                   selectedNode={selectedNode}
+                  getExportUrl={format => videoLibrary.getGraphExportUrl(video.id, format)}
+                  editor={editor}
+                  currentTime={currentTime}
+                  layoutKey={`video:${video.id}`}
                 />
               </CardContent>
             </Card>
@@ -195,8 +233,9 @@ export const VideoView: React.FC<VideoViewProps> = ({ video }) => {
               <Card>
                 <CardContent className="p-0">
                   <ConceptPanel
-                    node={selectedNode}
+                    concept={selectedNode}
                     onClose={() => setSelectedNode(null)}
+                    onTimeJump={handleTimelineClick}
                   />
                 </CardContent>
               </Card>
@@ -0,0 +1,110 @@
+import * as React from "react"
+import { applyGraphEdits, EditableGraph, GraphEdit } from "../lib/graphEdits"
+import { videoLibrary, VideoDetails } from "../services/videoLibrary"
+
+export interface GraphEditor {
+  // The video's graph with the unsaved edits applied
+  graph: EditableGraph
+  pending: number
+  canUndo: boolean
+  canRedo: boolean
+  // Returns false (and sets `error`) if the edit doesn't fit the graph
+  apply: (edit: GraphEdit) => boolean
+  undo: () => void
+  redo: () => void
+  discard: () => void
+  save: () => Promise<void>
+  saving: boolean
+  error: string | null
+}
+
+const EMPTY_GRAPH: EditableGraph = { nodes: [], edges: [] }
+
+// Unsaved graph edits for a video, with undo/redo. Saving sends them to the
+// backend, which stores a new version and calls `onSaved` with it.
+export function useGraphEditor(video: VideoDetails | null, onSaved: (video: VideoDetails) => void): GraphEditor {
+  const [edits, setEdits] = React.useState<GraphEdit[]>([])
+  const [undone, setUndone] = React.useState<GraphEdit[]>([])
+  const [saving, setSaving] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  // Edits are made against one version; loading or restoring another drops them
+  React.useEffect(() => {
+    setEdits([])
+    setUndone([])
+  }, [video?.id, video?.version])
+
+  // A save's warnings outlive the version change it causes
+  React.useEffect(() => {
+    setError(null)
+  }, [video?.id])
+
+  const graph = React.useMemo(
+    () => video ? applyGraphEdits(video, edits) : EMPTY_GRAPH,
+    [video, edits]
+  )
+
+  const apply = React.useCallback((edit: GraphEdit) => {
+    const [skipped] = applyGraphEdits(graph, [edit]).skipped
+    if (skipped) {
+      setError(skipped.reason)
+      return false
+    }
+    setEdits(current => [...current, edit])
+    setUndone([])
+    setError(null)
+    return true
+  }, [graph])
+
+  const undo = React.useCallback(() => {
+    if (edits.length === 0) return
+    setUndone(current => [...current, edits[edits.length - 1]])
+    setEdits(edits.slice(0, -1))
+    setError(null)
+  }, [edits])
+
+  const redo = React.useCallback(() => {
+    if (undone.length === 0) return
+    setEdits(current => [...current, undone[undone.length - 1]])
+    setUndone(undone.slice(0, -1))
+    setError(null)
+  }, [undone])
+
+  const discard = React.useCallback(() => {
+    setEdits([])
+    setUndone([])
+    setError(null)
+  }, [])
+
+  const save = React.useCallback(async () => {
+    if (!video || edits.length === 0) return
+    setSaving(true)
+    setError(null)
+    try {
+      const { video: updated, skipped } = await videoLibrary.saveGraphEdits(video.id, edits, video.version)
+      onSaved(updated)
+      if (skipped.length > 0) {
+        setError(`${skipped.length} edit(s) couldn't be applied: ${skipped.map(entry => entry.reason).join('; ')}`)
+      }
+    } catch (err) {
+      console.error("Error saving graph edits:", err)
+      setError(err instanceof Error ? err.message : "Failed to save graph edits")
+    } finally {
+      setSaving(false)
+    }
+  }, [video, edits, onSaved])
+
+  return {
+    graph,
+    pending: edits.length,
+    canUndo: edits.length > 0,
+    canRedo: undone.length > 0,
+    apply,
+    undo,
+    redo,
+    discard,
+    save,
+    saving,
+    error
+  }
+}
@@ -0,0 +1,16 @@
+// The hover tooltip both graph views show for a concept. Labels and
+// descriptions come from transcripts, imported files and manual edits, so
+// they're written as text, never parsed as markup.
+import type * as d3 from 'd3';
+import type { GraphNode } from '../components/EduGraph';
+
+export function appendConceptDetails(tooltip: d3.Selection<HTMLDivElement, unknown, HTMLElement, any>, node: GraphNode) {
+  const timestamps = node.timestamps.map(t => Math.floor(t / 60) + ':' + (t % 60).toString().padStart(2, '0')).join(', ');
+  tooltip.append('strong').text(node.label);
+  tooltip.append('br');
+  tooltip.append('span').text(node.description);
+  tooltip.append('br');
+  tooltip.append('em').text(`Category: ${node.category}`);
+  tooltip.append('br');
+  tooltip.append('em').text(`Timestamps: ${timestamps}`);
+}
@@ -0,0 +1,71 @@
+// How the graph views draw each kind of edge. Parent-child edges from the
+// topic hierarchy are 'related'; the inferred dependency edges get their own
+// color and dash pattern, and fade with their confidence.
+import type * as d3 from 'd3';
+import type { GraphEdge } from '../components/EduGraph';
+
+type EdgeType = GraphEdge['type'];
+
+export interface EdgeStyle {
+  label: string;
+  color: string;
+  // SVG stroke-dasharray, null for a solid line
+  dash: string | null;
+}
+
+export const EDGE_STYLES: Record<EdgeType, EdgeStyle> = {
+  related: { label: 'Subtopic', color: 'hsl(var(--edge-default))', dash: null },
+  prerequisite: { label: 'Prerequisite', color: 'hsl(var(--concept-accent))', dash: '6 3' },
+  example: { label: 'Example', color: 'hsl(var(--concept-secondary))', dash: '2 3' },
+  application: { label: 'Application', color: 'hsl(var(--concept-tertiary))', dash: '8 3 2 3' }
+};
+
+export const EDGE_TYPES = Object.keys(EDGE_STYLES) as EdgeType[];
+
+export function edgeMarkerId(type: EdgeType): string {
+  return `arrowhead-${type}`;
+}
+
+// Inferred edges never go fully opaque, so the hierarchy stays the backbone
+export function edgeOpacity(edge: GraphEdge): number {
+  if (!edge.inferred) return 0.6;
+  return 0.25 + 0.45 * (edge.confidence ?? edge.strength);
+}
+
+// Once d3's link force has run, source and target are the node objects
+function endpointLabel(endpoint: unknown): string {
+  return typeof endpoint === 'object' && endpoint !== null && 'label' in endpoint
+    ? String((endpoint as { label: string }).label)
+    : String(endpoint);
+}
+
+// Tooltip text: the two concepts, and for inferred edges the type, confidence and reason
+export function describeEdge(edge: GraphEdge): string {
+  const style = EDGE_STYLES[edge.type] || EDGE_STYLES.related;
+  const sourceLabel = endpointLabel(edge.source);
+  const targetLabel = endpointLabel(edge.target);
+  if (!edge.inferred) return `${sourceLabel} → ${targetLabel}`;
+  const confidence = Math.round((edge.confidence ?? edge.strength) * 100);
+  const lines = [`${sourceLabel} → ${targetLabel}`, `${style.label} (inferred, ${confidence}% confidence)`];
+  if (edge.reason) lines.push(edge.reason);
+  return lines.join('\n');
+}
+
+// One arrowhead per edge type, in that type's color
+export function appendEdgeMarkers(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>) {
+  const defs = svg.append('defs');
+  EDGE_TYPES.forEach(type => {
+    defs.append('marker')
+      .attr('id', edgeMarkerId(type))
+      .attr('viewBox', '-0 -5 10 10')
+      .attr('refX', 25)
+      .attr('refY', 0)
+      .attr('orient', 'auto')
+      .attr('markerWidth', 8)
+      .attr('markerHeight', 8)
+      .append('path')
+      .attr('d', 'M 0,-5 L 10 ,0 L 0,5')
+      .attr('fill', EDGE_STYLES[type].color)
+      .attr('opacity', 0.6);
+  });
+}
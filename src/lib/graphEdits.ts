@@ -0,0 +1,241 @@
+// Manual graph edits, applied in the browser so edit mode can show them (and
+// undo them) before they're saved. The backend stores the same operations and
+// replays them after re-runs of the pipeline.
+//
+// Keep in sync with backend/graphEdits.js; `npm run check:shared` fails when the two disagree.
+import type { GraphNode, GraphEdge } from '../components/EduGraph';
+
+type Category = GraphNode['category'];
+type EdgeType = GraphEdge['type'];
+
+// Nodes are referred to by id and label: ids change when a re-run regenerates
+// the graph, so the label is what finds the node again
+export interface NodeRef {
+  id: string;
+  label: string;
+}
+
+export type GraphEdit =
+  | { op: 'addNode'; node: { id: string; label: string; category: Category; description: string; timestamps: number[] } }
+  | { op: 'updateNode'; node: NodeRef; changes: Partial<Pick<GraphNode, 'label' | 'category' | 'description' | 'timestamps'>> }
+  | { op: 'deleteNode'; node: NodeRef }
+  // Folds `source` into `target`
+  | { op: 'mergeNodes'; source: NodeRef; target: NodeRef }
+  | { op: 'addEdge' | 'updateEdge'; source: NodeRef; target: NodeRef; type: EdgeType; strength?: number }
+  | { op: 'deleteEdge'; source: NodeRef; target: NodeRef };
+
+export interface EditableGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface SkippedEdit {
+  index: number;
+  op: GraphEdit['op'];
+  reason: string;
+}
+
+const STOP_PREFIXES = ['the', 'a', 'an', 'introduction to', 'intro to', 'overview of', 'basics of'];
+
+function singularize(word: string): string {
+  if (word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+  if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (/(ches|shes|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+}
+
+// Same as normalizeConceptLabel in backend/concepts/normalize.js
+function normalizeLabel(label: string): string {
+  let text = label
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+  const prefix = STOP_PREFIXES.find(stop => text.startsWith(stop + ' '));
+  if (prefix) text = text.slice(prefix.length + 1);
+
+  return text.split(' ').filter(Boolean).map(singularize).join(' ');
+}
+
+export function nodeRef(node: GraphNode): NodeRef {
+  return { id: node.id, label: node.label };
+}
+
+export function createEditNodeId(): string {
+  return `edit_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// d3's link force swaps edge endpoints for the node objects
+export function endpointId(endpoint: unknown): string {
+  return typeof endpoint === 'object' && endpoint !== null ? (endpoint as GraphNode).id : String(endpoint);
+}
+
+// A stand-in for an id that's already taken: `${id}_2`, `${id}_3`, ... whichever
+// is free first, so replaying the log onto the same graph gives the same ids
+function freeNodeId(nodes: GraphNode[], id: string): string {
+  let suffix = 2;
+  while (nodes.some(node => node.id === `${id}_${suffix}`)) suffix++;
+  return `${id}_${suffix}`;
+}
+
+function resolveNode(nodes: GraphNode[], ref: NodeRef): GraphNode | null {
+  const key = normalizeLabel(ref.label);
+  const byId = nodes.find(node => node.id === ref.id);
+  if (byId && (!key || normalizeLabel(byId.label) === key)) return byId;
+  if (!key) return null;
+  return nodes.find(node => normalizeLabel(node.label) === key) || null;
+}
+
+function uniqueSorted(times: number[]): number[] {
+  return [...new Set(times)].sort((a, b) => a - b);
+}
+
+function intervalsFor(node: Partial<GraphNode>, timestamps: number[]) {
+  const kept = (node.intervals || []).filter(interval => timestamps.includes(interval.start));
+  const covered = new Set(kept.map(interval => interval.start));
+  return [
+    ...kept,
+    ...timestamps.filter(time => !covered.has(time)).map(time => ({ start: time, end: time }))
+  ].sort((a, b) => a.start - b.start);
+}
+
+function withoutInference({ inferred, confidence, reason, ...edge }: GraphEdge): GraphEdge {
+  return edge;
+}
+
+function dedupeEdges(edges: GraphEdge[]): GraphEdge[] {
+  const seen = new Set<string>();
+  return edges.filter(edge => {
+    const key = `${edge.source}->${edge.target}`;
+    if (edge.source === edge.target || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function applyEdit({ nodes, edges }: EditableGraph, edit: GraphEdit): { graph: EditableGraph } | { error: string } {
+  const find = (ref: NodeRef) => resolveNode(nodes, ref);
+  const missing = (ref: NodeRef) => `Concept "${ref.label}" not found`;
+  const findEdge = (source: GraphNode, target: GraphNode) =>
+    edges.find(edge => edge.source === source.id && edge.target === target.id);
+
+  switch (edit.op) {
+    case 'addNode': {
+      const { node } = edit;
+      if (resolveNode(nodes, node)) return { error: `"${node.label}" is already in the graph` };
+      const timestamps = uniqueSorted(node.timestamps);
+      const added: GraphNode = {
+        id: nodes.some(existing => existing.id === node.id) ? freeNodeId(nodes, node.id) : node.id,
+        label: node.label,
+        x: Math.random() * 400 + 100,
+        y: Math.random() * 300 + 100,
+        size: 14,
+        color: `hsl(${(nodes.length * 30) % 360}, 70%, 60%)`,
+        timestamps,
+        intervals: intervalsFor({}, timestamps),
+        description: node.description,
+        category: node.category,
+        isActive: false
+      };
+      return { graph: { nodes: [...nodes, added], edges } };
+    }
+
+    case 'updateNode': {
+      const target = find(edit.node);
+      if (!target) return { error: missing(edit.node) };
+      const { timestamps, ...changes } = edit.changes;
+      const updated = { ...target, ...changes };
+      if (timestamps) {
+        updated.timestamps = uniqueSorted(timestamps);
+        updated.intervals = intervalsFor(target, updated.timestamps);
+      }
+      return { graph: { nodes: nodes.map(node => node === target ? updated : node), edges } };
+    }
+
+    case 'deleteNode': {
+      const target = find(edit.node);
+      if (!target) return { error: missing(edit.node) };
+      return {
+        graph: {
+          nodes: nodes.filter(node => node !== target),
+          edges: edges.filter(edge => edge.source !== target.id && edge.target !== target.id)
+        }
+      };
+    }
+
+    case 'mergeNodes': {
+      const source = find(edit.source);
+      const target = find(edit.target);
+      if (!source) return { error: missing(edit.source) };
+      if (!target) return { error: missing(edit.target) };
+      if (source === target) return { error: `"${source.label}" can't be merged into itself` };
+
+      const intervals = [...(target.intervals || []), ...(source.intervals || [])].filter((interval, index, all) =>
+        all.findIndex(other => other.start === interval.start && other.end === interval.end) === index
+      );
+      const merged = {
+        ...target,
+        timestamps: uniqueSorted([...target.timestamps, ...source.timestamps]),
+        intervals: intervals.sort((a, b) => a.start - b.start),
+        description: target.description || source.description
+      };
+      const rewire = (id: string) => id === source.id ? target.id : id;
+      return {
+        graph: {
+          nodes: nodes.filter(node => node !== source).map(node => node === target ? merged : node),
+          edges: dedupeEdges(edges.map(edge => ({ ...edge, source: rewire(edge.source), target: rewire(edge.target) })))
+        }
+      };
+    }
+
+    case 'addEdge': {
+      const source = find(edit.source);
+      const target = find(edit.target);
+      if (!source) return { error: missing(edit.source) };
+      if (!target) return { error: missing(edit.target) };
+      if (source === target) return { error: `"${source.label}" can't link to itself` };
+      if (findEdge(source, target)) return { error: `"${source.label}" is already linked to "${target.label}"` };
+      return { graph: { nodes, edges: [...edges, { source: source.id, target: target.id, type: edit.type, strength: edit.strength ?? 0.7 }] } };
+    }
+
+    case 'updateEdge':
+    case 'deleteEdge': {
+      const source = find(edit.source);
+      const target = find(edit.target);
+      const existing = source && target && findEdge(source, target);
+      if (!existing) return { error: `No link from "${edit.source.label}" to "${edit.target.label}"` };
+      return {
+        graph: {
+          nodes,
+          edges: edit.op === 'deleteEdge'
+            ? edges.filter(edge => edge !== existing)
+            : edges.map(edge => edge === existing
+              ? { ...withoutInference(edge), type: edit.type, strength: edit.strength ?? edge.strength }
+              : edge)
+        }
+      };
+    }
+  }
+}
+
+// Apply edits in order, skipping (and reporting) any that don't fit the graph
+export function applyGraphEdits(graph: EditableGraph, edits: GraphEdit[]): EditableGraph & { skipped: SkippedEdit[] } {
+  let current: EditableGraph = {
+    nodes: graph.nodes,
+    edges: graph.edges.map(edge => ({ ...edge, source: endpointId(edge.source), target: endpointId(edge.target) }))
+  };
+  const skipped: SkippedEdit[] = [];
+
+  edits.forEach((edit, index) => {
+    const result = applyEdit(current, edit);
+    if ('error' in result) {
+      skipped.push({ index, op: edit.op, reason: result.error });
+    } else {
+      current = result.graph;
+    }
+  });
+
+  return { ...current, skipped };
+}
@@ -0,0 +1,224 @@
+// Layouts the graph views can switch between. 'force' is the d3 force
+// simulation; the others compute a position for every concept from the topic
+// hierarchy (the non-inferred 'related' edges, parent -> child) and the
+// lecture's timeline. The graph components pull concepts towards these
+// positions with positioning forces, so switching layouts animates from
+// wherever the concepts are.
+import * as d3 from 'd3';
+import type { GraphNode, GraphEdge } from '../components/EduGraph';
+import { formatTimestamp, getConceptIntervals } from './timestamps';
+import { endpointId } from './graphEdits';
+
+export type GraphLayoutName = 'force' | 'tree' | 'radial' | 'timeline';
+
+export const GRAPH_LAYOUTS: Array<{ name: GraphLayoutName; label: string; hint: string }> = [
+  { name: 'force', label: 'Force', hint: 'Related concepts cluster together' },
+  { name: 'tree', label: 'Tree', hint: 'Topics top-down, in lecture order' },
+  { name: 'radial', label: 'Radial', hint: 'Topics outwards from the centre' },
+  { name: 'timeline', label: 'Timeline', hint: 'Left to right by first mention' }
+];
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface LayoutResult {
+  positions: Map<string, Point>;
+  // Timeline only: seconds -> x, and where to draw the time axis
+  timeScale?: d3.ScaleLinear<number, number>;
+  axisY?: number;
+}
+
+const MARGIN = 60;
+// Tidy tree: horizontal space per concept and vertical space per level
+const NODE_SPACING = 70;
+const LEVEL_SPACING = 90;
+// Radial tree: arc length per leaf on the outer ring
+const RADIAL_SPACING = 45;
+// Timeline: closest two concepts may sit in one row, and row and lane heights
+const TIMELINE_MIN_GAP = 80;
+const TIMELINE_ROW = 50;
+const TIMELINE_LANE_GAP = 30;
+
+const ROOT_ID = '__root__';
+
+// When a concept is first mentioned, or null for concepts without timestamps
+function firstMention(node: GraphNode): number | null {
+  const starts = getConceptIntervals(node).map(interval => interval.start);
+  return starts.length > 0 ? Math.min(...starts) : null;
+}
+
+// Each concept's parent in the topic hierarchy. Edited graphs can give a
+// concept several parents (the first wins) or close a loop (broken where it closes).
+function findParents(nodes: GraphNode[], edges: GraphEdge[]): Map<string, string> {
+  const ids = new Set(nodes.map(node => node.id));
+  const parents = new Map<string, string>();
+  edges.forEach(edge => {
+    const source = endpointId(edge.source);
+    const target = endpointId(edge.target);
+    if (edge.type !== 'related' || edge.inferred || source === target) return;
+    if (ids.has(source) && ids.has(target) && !parents.has(target)) parents.set(target, source);
+  });
+
+  nodes.forEach(node => {
+    const seen = new Set([node.id]);
+    let current = node.id;
+    let parent = parents.get(current);
+    while (parent !== undefined) {
+      if (seen.has(parent)) {
+        parents.delete(current);
+        break;
+      }
+      seen.add(parent);
+      current = parent;
+      parent = parents.get(current);
+    }
+  });
+
+  return parents;
+}
+
+// The hierarchy as a d3 tree, children in lecture order. Several top-level
+// topics hang off an invisible root.
+function buildHierarchy(nodes: GraphNode[], edges: GraphEdge[]) {
+  const parents = findParents(nodes, edges);
+  const roots = nodes.filter(node => !parents.has(node.id));
+  const order = new Map(nodes.map((node, index) => [node.id, index]));
+  const mention = new Map(nodes.map(node => [node.id, firstMention(node) ?? Infinity]));
+
+  const rows: Array<{ id: string; parentId?: string }> = nodes.map(node => ({
+    id: node.id,
+    parentId: parents.get(node.id) ?? (roots.length === 1 ? undefined : ROOT_ID)
+  }));
+  if (roots.length !== 1) rows.push({ id: ROOT_ID });
+
+  return d3.stratify<{ id: string; parentId?: string }>()
+    .id(row => row.id)
+    .parentId(row => row.parentId)(rows)
+    .sort((a, b) =>
+      (mention.get(a.id!)! - mention.get(b.id!)!) || (order.get(a.id!)! - order.get(b.id!)!)
+    );
+}
+
+function treeLayout(nodes: GraphNode[], edges: GraphEdge[], width: number): LayoutResult {
+  const root = d3.tree<{ id: string }>().nodeSize([NODE_SPACING, LEVEL_SPACING])(buildHierarchy(nodes, edges));
+  const shown = root.descendants().filter(node => node.id !== ROOT_ID);
+  const topDepth = Math.min(...shown.map(node => node.depth));
+  const [minX, maxX] = d3.extent(shown, node => node.x) as [number, number];
+  const offset = width / 2 - (minX + maxX) / 2;
+
+  return {
+    positions: new Map(shown.map(node => [node.id!, {
+      x: node.x + offset,
+      y: MARGIN + (node.depth - topDepth) * LEVEL_SPACING
+    }]))
+  };
+}
+
+function radialLayout(nodes: GraphNode[], edges: GraphEdge[], width: number, height: number): LayoutResult {
+  const hierarchy = buildHierarchy(nodes, edges);
+  const radius = Math.max(
+    Math.min(width, height) / 2 - MARGIN,
+    (hierarchy.leaves().length * RADIAL_SPACING) / (2 * Math.PI)
+  );
+  const root = d3.tree<{ id: string }>()
+    .size([2 * Math.PI, radius])
+    .separation((a, b) => (a.parent === b.parent ? 1 : 2) / Math.max(1, a.depth))(hierarchy);
+
+  // Angle 0 points up
+  return {
+    positions: new Map(root.descendants().filter(node => node.id !== ROOT_ID).map(node => [node.id!, {
+      x: width / 2 + node.y * Math.sin(node.x),
+      y: height / 2 - node.y * Math.cos(node.x)
+    }]))
+  };
+}
+
+function timelineLayout(nodes: GraphNode[], edges: GraphEdge[], width: number): LayoutResult {
+  const parents = findParents(nodes, edges);
+  const depthOf = (id: string): number => {
+    const parent = parents.get(id);
+    return parent === undefined ? 0 : depthOf(parent) + 1;
+  };
+
+  // Concepts without timestamps go where their parent is, or after the end
+  const times = new Map(nodes.map(node => [node.id, firstMention(node)]));
+  const known = [...times.values()].filter((time): time is number => time !== null);
+  const [start, end] = known.length > 0 ? [Math.min(...known), Math.max(...known)] : [0, 1];
+  const timeScale = d3.scaleLinear()
+    .domain([start, end > start ? end : start + 1])
+    .range([MARGIN, MARGIN + Math.max(width - 2 * MARGIN, nodes.length * 30)]);
+  const untimedX = timeScale.range()[1] + TIMELINE_MIN_GAP;
+  const xOf = (id: string): number => {
+    const time = times.get(id);
+    if (time !== null && time !== undefined) return timeScale(time);
+    const parent = parents.get(id);
+    return parent === undefined ? untimedX : xOf(parent);
+  };
+
+  // One lane per hierarchy level; concepts that would overlap in a lane move
+  // down into another row of it
+  const lanes = new Map<number, Array<{ id: string; x: number; row: number }>>();
+  [...nodes].map(node => ({ id: node.id, x: xOf(node.id) })).sort((a, b) => a.x - b.x).forEach(({ id, x }) => {
+    const depth = depthOf(id);
+    const lane = lanes.get(depth) || [];
+    const rowEnds: number[] = [];
+    lane.forEach(entry => { rowEnds[entry.row] = entry.x; });
+    let row = rowEnds.findIndex(last => x - last >= TIMELINE_MIN_GAP);
+    if (row === -1) row = rowEnds.length;
+    lane.push({ id, x, row });
+    lanes.set(depth, lane);
+  });
+
+  const positions = new Map<string, Point>();
+  let laneTop = MARGIN + TIMELINE_ROW;
+  [...lanes.keys()].sort((a, b) => a - b).forEach(depth => {
+    const lane = lanes.get(depth)!;
+    lane.forEach(({ id, x, row }) => positions.set(id, { x, y: laneTop + row * TIMELINE_ROW }));
+    laneTop += (Math.max(...lane.map(entry => entry.row)) + 1) * TIMELINE_ROW + TIMELINE_LANE_GAP;
+  });
+
+  return { positions, timeScale, axisY: MARGIN };
+}
+
+// Target positions for a layout, or null for the force layout
+export function computeLayout(
+  name: GraphLayoutName,
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  width: number,
+  height: number
+): LayoutResult | null {
+  if (name === 'force' || nodes.length === 0) return null;
+  if (name === 'tree') return treeLayout(nodes, edges, width);
+  if (name === 'radial') return radialLayout(nodes, edges, width, height);
+  return timelineLayout(nodes, edges, width);
+}
+
+// Pull every concept towards its place in the layout. Pinned concepts stay put.
+export function applyLayoutForces(
+  simulation: d3.Simulation<GraphNode, GraphEdge>,
+  layout: LayoutResult,
+  width: number,
+  height: number
+) {
+  simulation
+    .force('x', d3.forceX<GraphNode>(node => layout.positions.get(node.id)?.x ?? width / 2).strength(0.3))
+    .force('y', d3.forceY<GraphNode>(node => layout.positions.get(node.id)?.y ?? height / 2).strength(0.3));
+}
+
+// The timeline's time axis, faded in above the concepts
+export function appendTimeAxis(container: d3.Selection<SVGGElement, unknown, null, undefined>, layout: LayoutResult) {
+  if (!layout.timeScale) return;
+  container
+    .append('g')
+    .attr('class', 'time-axis')
+    .attr('transform', `translate(0, ${layout.axisY ?? MARGIN})`)
+    .attr('color', 'hsl(var(--muted-foreground))')
+    .attr('opacity', 0)
+    .call(d3.axisTop(layout.timeScale).ticks(8).tickFormat(time => formatTimestamp(Number(time))))
+    .transition()
+    .duration(750)
+    .attr('opacity', 1);
+}
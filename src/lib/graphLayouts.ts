@@ -0,0 +1,78 @@
+// Arrangements the user made in the graph views: the concepts they dragged
+// into place (pinned) and the zoom, saved in localStorage per video and per
+// view so they survive reloads, window resizes and switching views. Keys look
+// like "video:<id>:force"; the graph components add the view part.
+import * as d3 from 'd3';
+import type { GraphNode } from '../components/EduGraph';
+
+const STORAGE_PREFIX = 'graphLayout:';
+
+export interface SavedLayout {
+  // Pinned concepts by id. The label is kept too: a re-run renumbers the
+  // concepts, and a pin shouldn't move to whichever concept gets its old id.
+  positions: Record<string, { x: number; y: number; label: string }>;
+  transform: { k: number; x: number; y: number } | null;
+}
+
+export function loadLayout(key: string): SavedLayout {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_PREFIX + key) || 'null');
+    return { positions: saved?.positions || {}, transform: saved?.transform || null };
+  } catch {
+    return { positions: {}, transform: null };
+  }
+}
+
+function storeLayout(key: string, layout: SavedLayout) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(layout));
+  } catch (error) {
+    // Storage full or disabled: the layout just won't outlive the page
+    console.error('Error saving graph layout:', error);
+  }
+}
+
+export function clearLayout(key: string) {
+  localStorage.removeItem(STORAGE_PREFIX + key);
+}
+
+// Pin the saved concepts where they were left and release the rest
+export function restorePins(nodes: GraphNode[], layout: SavedLayout) {
+  nodes.forEach(node => {
+    const saved = layout.positions[node.id];
+    if (saved && saved.label === node.label) {
+      node.x = node.fx = saved.x;
+      node.y = node.fy = saved.y;
+    } else {
+      node.fx = null;
+      node.fy = null;
+    }
+  });
+}
+
+// Record which of `nodes` are pinned, keeping pins of concepts this view
+// currently hides (filtered out by a search, say)
+export function savePins(key: string, nodes: GraphNode[]) {
+  const layout = loadLayout(key);
+  nodes.forEach(node => {
+    if (node.fx != null && node.fy != null) {
+      layout.positions[node.id] = { x: node.fx, y: node.fy, label: node.label };
+    } else {
+      delete layout.positions[node.id];
+    }
+  });
+  storeLayout(key, layout);
+}
+
+export function saveZoom(key: string, transform: d3.ZoomTransform) {
+  const layout = loadLayout(key);
+  layout.transform = { k: transform.k, x: transform.x, y: transform.y };
+  storeLayout(key, layout);
+}
+
+// The saved zoom, or failing that the one the svg already has: redrawing the
+// graph (on a resize, say) shouldn't snap the view back
+export function initialZoom(svg: SVGSVGElement, layout: SavedLayout | null): d3.ZoomTransform {
+  const saved = layout?.transform;
+  return saved ? d3.zoomIdentity.translate(saved.x, saved.y).scale(saved.k) : d3.zoomTransform(svg);
+}
@@ -0,0 +1,125 @@
+// Timestamp helpers for transcripts. The transcribers emit "[MM:SS]" markers,
+// or "[H:MM:SS]" / "[HH:MM:SS]" once a video passes the hour mark.
+//
+// Keep in sync with backend/timestamps.js, which builds the same segments on the server;
+// `npm run check:shared` fails when the two disagree.
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+// "[01:15]" or "[1:02:03]" anywhere in a line
+const TIMESTAMP_MARKER = /\[(\d+):(\d{2})(?::(\d{2}))?\]/g;
+
+function toSeconds(first: string, second: string, third?: string): number {
+  return third !== undefined
+    ? parseInt(first) * 3600 + parseInt(second) * 60 + parseInt(third)
+    : parseInt(first) * 60 + parseInt(second);
+}
+
+// "1:15" -> 75, "1:02:03" -> 3723; null if the text isn't a timestamp
+export function parseTimestamp(text: string): number | null {
+  const match = text.trim().match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  return match ? toSeconds(match[1], match[2], match[3]) : null;
+}
+
+// "0:00-0:30", "12:05 - 13:40" or "59:30-1:00:10" -> { start, end } in seconds.
+// A single time gives a zero-length interval; null if nothing parses.
+export function parseTimestampRange(text: string): TimeInterval | null {
+  const [startText, endText] = (text || '').split(/\s*[-–—]\s*/);
+  const start = parseTimestamp(startText || '');
+  if (start === null) return null;
+  const end = endText !== undefined ? parseTimestamp(endText) : null;
+  return { start, end: end !== null && end >= start ? end : start };
+}
+
+// Spans a concept covers. Graphs saved before intervals were stored only
+// have start times, which are treated as zero-length spans.
+export function getConceptIntervals(concept: { timestamps: number[]; intervals?: TimeInterval[] }): TimeInterval[] {
+  return concept.intervals && concept.intervals.length > 0
+    ? concept.intervals
+    : concept.timestamps.map(timestamp => ({ start: timestamp, end: timestamp }));
+}
+
+// Whether `time` falls in one of the spans, allowing `tolerance` seconds either side
+export function isWithinIntervals(intervals: TimeInterval[], time: number, tolerance = 0): boolean {
+  return intervals.some(interval => time >= interval.start - tolerance && time <= interval.end + tolerance);
+}
+
+// 75 -> "1:15", 3723 -> "1:02:03"
+export function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+// Split the transcript into pieces of text, each with the time of the marker
+// in front of it (null when a line has no marker of its own)
+function splitOnMarkers(transcript: string): Array<{ time: number | null; text: string }> {
+  const pieces: Array<{ time: number | null; text: string }> = [];
+
+  transcript.split('\n').forEach(line => {
+    let time: number | null = null;
+    let lastIndex = 0;
+    const push = (text: string) => {
+      const trimmed = text.trim();
+      if (trimmed) pieces.push({ time, text: trimmed });
+    };
+
+    for (const match of line.matchAll(TIMESTAMP_MARKER)) {
+      push(line.slice(lastIndex, match.index));
+      time = toSeconds(match[1], match[2], match[3]);
+      lastIndex = (match.index ?? 0) + match[0].length;
+    }
+    push(line.slice(lastIndex));
+  });
+
+  return pieces;
+}
+
+// Build transcript segments from the timestamps the transcriber emitted.
+// Text without its own marker shares the time up to the next marker with the
+// text before it, in proportion to its length. Markers that jump backwards
+// are treated as missing.
+export function createTranscriptSegments(transcript: string, duration: number): TranscriptSegment[] {
+  const pieces = splitOnMarkers(transcript);
+  if (pieces.length === 0) return [];
+
+  // Group pieces into runs that start at a known time
+  const runs: Array<{ start: number; pieces: string[] }> = [];
+  let latest = -1;
+  pieces.forEach(piece => {
+    const anchored = piece.time !== null && piece.time > latest;
+    if (anchored) latest = piece.time as number;
+    if (anchored || runs.length === 0) {
+      runs.push({ start: anchored ? piece.time as number : 0, pieces: [] });
+    }
+    runs[runs.length - 1].pieces.push(piece.text);
+  });
+
+  const videoEnd = Math.max(duration || 0, latest);
+  const segments: TranscriptSegment[] = [];
+
+  runs.forEach((run, index) => {
+    const runEnd = index + 1 < runs.length ? runs[index + 1].start : videoEnd;
+    const totalLength = run.pieces.reduce((sum, text) => sum + text.length, 0);
+    let start = run.start;
+
+    run.pieces.forEach(text => {
+      const end = start + (runEnd - run.start) * text.length / totalLength;
+      segments.push({ start, end, text });
+      start = end;
+    });
+  });
+
+  return segments;
+}
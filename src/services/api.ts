@@ -0,0 +1,2 @@
+// Base URL of the video processing backend (see backend/server.js)
+export const API_BASE_URL = 'http://localhost:3001';
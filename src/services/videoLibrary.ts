@@ -0,0 +1,404 @@
+import { API_BASE_URL } from './api';
+import { TranscriptSegment, TimeInterval } from '../lib/timestamps';
+import type { GraphNode, GraphEdge } from '../components/EduGraph';
+import type { GraphEdit, SkippedEdit } from '../lib/graphEdits';
+
+export interface LectureInfo {
+  course: string;
+  lecture_number: number | string;
+  instructor: string;
+  title: string;
+}
+
+// One entry of the paginated GET /api/videos list
+export interface VideoSummary {
+  id: string;
+  title: string;
+  originalFilename: string | null;
+  duration: number | null;
+  // 'curriculum' entries come from an imported graph and have no video
+  source: 'upload' | 'import' | 'curriculum';
+  hasMedia: boolean;
+  // SHA-256 of the uploaded file; null for imported videos
+  contentHash: string | null;
+  mediaUrl: string | null;
+  // WebVTT tracks built from the current version
+  captionsUrl: string;
+  chaptersUrl: string;
+  // Current version of the transcript, structured data and graph
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  lectureInfo: LectureInfo | null;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+// Full bundle from GET /api/videos/:id
+export interface VideoDetails extends Omit<VideoSummary, 'lectureInfo' | 'nodeCount' | 'edgeCount'> {
+  reason: VersionReason;
+  details: VersionDetails | null;
+  versionCreatedAt: string;
+  transcript: string | null;
+  transcriptSegments: TranscriptSegment[];
+  structuredData: any;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export type VersionReason = 'upload' | 'import' | 'curriculum' | 'restructure' | 'retranscribe' | 'edit';
+
+// How a version was produced: the providers used and the version it was re-run from
+export interface VersionDetails {
+  transcription?: string;
+  structuring?: string;
+  edgeInference?: string;
+  // Concept map file a curriculum graph or merge came from
+  imported?: string;
+  basedOn?: number;
+  fields?: string[];
+  // Number of manual graph edits saved in an edit version
+  edits?: number;
+  // Manual edits replayed onto a re-run's graph
+  manualEdits?: { applied: number; skipped: number };
+}
+
+// One entry of GET /api/videos/:id/versions
+export interface VideoVersionSummary {
+  version: number;
+  reason: VersionReason;
+  details: VersionDetails | null;
+  createdAt: string;
+  hasTranscript: boolean;
+  nodeCount: number;
+  edgeCount: number;
+  isCurrent: boolean;
+}
+
+// A complete version from GET /api/videos/:id/versions/:version
+export interface VideoVersion {
+  version: number;
+  reason: VersionReason;
+  details: VersionDetails | null;
+  createdAt: string;
+  transcript: string | null;
+  transcriptSegments: TranscriptSegment[];
+  structuredData: any;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+interface FieldChange<T> {
+  from: T | null;
+  to: T | null;
+}
+
+export interface DiffNode {
+  id: string;
+  label: string;
+  category: GraphNode['category'];
+}
+
+export interface DiffEdge {
+  source: string;
+  target: string;
+  sourceLabel: string | null;
+  targetLabel: string | null;
+  type: GraphEdge['type'];
+  strength: number;
+}
+
+// GET /api/videos/:id/diff - what changed in the graph between two versions.
+// Node ids differ between runs, so changed nodes carry the id on both sides.
+export interface VersionDiff {
+  from: Pick<VideoVersion, 'version' | 'reason' | 'createdAt'>;
+  to: Pick<VideoVersion, 'version' | 'reason' | 'createdAt'>;
+  summary: {
+    nodesAdded: number;
+    nodesRemoved: number;
+    nodesRenamed: number;
+    nodesChanged: number;
+    edgesAdded: number;
+    edgesRemoved: number;
+    edgesChanged: number;
+  };
+  nodes: {
+    added: DiffNode[];
+    removed: DiffNode[];
+    changed: Array<{
+      fromId: string;
+      toId: string;
+      label: string;
+      changes: {
+        label?: FieldChange<string>;
+        description?: FieldChange<string>;
+        category?: FieldChange<string>;
+      };
+    }>;
+  };
+  edges: {
+    added: DiffEdge[];
+    removed: DiffEdge[];
+    changed: Array<DiffEdge & {
+      changes: {
+        type?: FieldChange<string>;
+        strength?: FieldChange<number>;
+      };
+    }>;
+  };
+}
+
+// GET /api/search - one matching transcript segment, breakdown entry or concept.
+// `highlights` are the matched words as offsets into `snippet`.
+export interface SearchHit {
+  videoId: string;
+  videoTitle: string;
+  kind: 'transcript' | 'breakdown' | 'concept';
+  timestamp: number | null;
+  snippet: string;
+  highlights: Array<{ start: number; length: number }>;
+  concept: { id: string; label: string } | null;
+  score: number;
+}
+
+export interface SearchResults {
+  hits: SearchHit[];
+  pagination: VideoPage['pagination'];
+}
+
+// One video's node that a combined concept stands for. `labelKey` is the
+// normalized label that overrides are keyed by.
+export interface ConceptOccurrence {
+  videoId: string;
+  videoTitle: string;
+  nodeId: string;
+  label: string;
+  labelKey: string;
+  timestamps: number[];
+  intervals: TimeInterval[];
+  // Placed by a merge or split rather than by automatic matching
+  overridden: boolean;
+}
+
+// GET /api/concepts - a concept merged across videos. Its own timestamps are
+// empty; they only mean something per video, in `occurrences`.
+export interface ConceptNode extends GraphNode {
+  videoIds: string[];
+  occurrences: ConceptOccurrence[];
+}
+
+export interface ConceptGraph {
+  nodes: ConceptNode[];
+  edges: Array<GraphEdge & { videoIds: string[] }>;
+  // Embedding model used to match differently worded labels, or null
+  embeddings: string | null;
+}
+
+// Formats GET /api/videos/:id/graph and /api/concepts/graph can write
+export type GraphExportFormat = 'graphml' | 'gexf' | 'dot' | 'mermaid' | 'jsonld';
+
+// Formats POST /api/graph-import reads
+export type GraphImportFormat = 'graphml' | 'csv' | 'mermaid';
+
+// A concept map file, and when merging, the lecture and the chosen conflict options
+export interface GraphImportRequest {
+  content: string;
+  fileName: string;
+  format?: GraphImportFormat;
+  // Merge into this video; omitted to create a curriculum graph
+  videoId?: string;
+  // Title of a new curriculum graph (defaults to the file name)
+  title?: string;
+  resolutions?: Record<string, string>;
+}
+
+// Something the file and the lecture disagree on, with the ways to settle it
+export interface GraphImportConflict {
+  id: string;
+  kind: 'match' | 'category' | 'description' | 'edge-type' | 'edge-direction';
+  message: string;
+  // Both descriptions, for description conflicts
+  existing?: string;
+  imported?: string;
+  options: Array<{ value: string; label: string }>;
+  default: string;
+  // The option the preview applied
+  choice: string;
+}
+
+export interface GraphMergePlan {
+  matched: Array<{ importedLabel: string; id: string; label: string }>;
+  added: Array<{ id: string; label: string }>;
+  addedEdges: Array<GraphEdge & { sourceLabel: string; targetLabel: string }>;
+  duplicateEdges: number;
+  conflicts: GraphImportConflict[];
+}
+
+export interface GraphImportPreview {
+  format: GraphImportFormat;
+  nodeCount: number;
+  edgeCount: number;
+  warnings: string[];
+  // Only when merging into a video
+  merge: GraphMergePlan | null;
+}
+
+export interface VideoPage {
+  videos: VideoSummary[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+class VideoLibraryService {
+  async listVideos(page = 1, pageSize = 20): Promise<VideoPage> {
+    const data = await this.request(`/api/videos?page=${page}&pageSize=${pageSize}`);
+    return { videos: data.videos, pagination: data.pagination };
+  }
+
+  async search(query: string, page = 1, pageSize = 20): Promise<SearchResults> {
+    const data = await this.request(`/api/search?q=${encodeURIComponent(query)}&page=${page}&pageSize=${pageSize}`);
+    return { hits: data.hits, pagination: data.pagination };
+  }
+
+  // Combined graph of the whole library, one node per concept
+  async getConceptGraph(): Promise<ConceptGraph> {
+    const { success, ...graph } = await this.request('/api/concepts');
+    return graph;
+  }
+
+  async mergeConcepts(source: string, target: string): Promise<void> {
+    await this.request('/api/concepts/merge', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ source, target })
+    });
+  }
+
+  // Split one video's occurrence out of a merged concept
+  async splitConcept(occurrence: ConceptOccurrence): Promise<void> {
+    await this.request('/api/concepts/split', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ videoId: occurrence.videoId, labelKey: occurrence.labelKey })
+    });
+  }
+
+  // Undo a merge or split for one occurrence
+  async resetConceptOverride(occurrence: ConceptOccurrence): Promise<void> {
+    await this.request(
+      `/api/concepts/overrides/${occurrence.videoId}/${encodeURIComponent(occurrence.labelKey)}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  async getVideo(id: string): Promise<VideoDetails> {
+    const data = await this.request(`/api/videos/${id}`);
+    return data.video;
+  }
+
+  async updateVideo(id: string, changes: { title?: string; lectureInfo?: Partial<LectureInfo> }): Promise<VideoDetails> {
+    const data = await this.request(`/api/videos/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes)
+    });
+    return data.video;
+  }
+
+  // Save edits made on `baseVersion` as a new version; fails if the video has
+  // moved on since. `skipped` lists edits the backend couldn't apply.
+  async saveGraphEdits(id: string, edits: GraphEdit[], baseVersion: number): Promise<{ video: VideoDetails; skipped: SkippedEdit[] }> {
+    const { video, skipped } = await this.request(`/api/videos/${id}/edits`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ edits, baseVersion })
+    });
+    return { video, skipped };
+  }
+
+  async previewGraphImport(request: GraphImportRequest): Promise<GraphImportPreview> {
+    const { success, ...preview } = await this.request('/api/graph-import/preview', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    });
+    return preview;
+  }
+
+  // Creates a curriculum graph, or adds a merged version to request.videoId
+  async importGraph(request: GraphImportRequest): Promise<VideoDetails> {
+    const data = await this.request('/api/graph-import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    });
+    return data.video;
+  }
+
+  async deleteVideo(id: string): Promise<void> {
+    await this.request(`/api/videos/${id}`, { method: 'DELETE' });
+  }
+
+  // Queue a re-run on the stored transcript (restructure) or source video
+  // (retranscribe); returns the job id to follow with videoProcessor.resumeJob
+  async reprocessVideo(id: string, type: 'restructure' | 'retranscribe'): Promise<string> {
+    const data = await this.request(`/api/videos/${id}/${type}`, { method: 'POST' });
+    return data.jobId;
+  }
+
+  async listVersions(id: string): Promise<VideoVersionSummary[]> {
+    const data = await this.request(`/api/videos/${id}/versions`);
+    return data.versions;
+  }
+
+  async getVersion(id: string, version: number): Promise<VideoVersion> {
+    const data = await this.request(`/api/videos/${id}/versions/${version}`);
+    return data.version;
+  }
+
+  async diffVersions(id: string, from: number, to: number): Promise<VersionDiff> {
+    const { success, ...diff } = await this.request(`/api/videos/${id}/diff?from=${from}&to=${to}`);
+    return diff;
+  }
+
+  // Make an earlier (or later) version current again
+  async restoreVersion(id: string, version: number): Promise<VideoDetails> {
+    const data = await this.request(`/api/videos/${id}/versions/${version}/restore`, { method: 'POST' });
+    return data.video;
+  }
+
+  // Absolute URL for streaming a video's source file, or '' if it wasn't kept
+  getMediaUrl(video: { mediaUrl?: string | null }): string {
+    return video.mediaUrl ? `${API_BASE_URL}${video.mediaUrl}` : '';
+  }
+
+  // Absolute URL of a video's WebVTT captions or chapters track
+  getTrackUrl(videoId: string, kind: 'captions' | 'chapters'): string {
+    return `${API_BASE_URL}/api/videos/${videoId}/${kind}.vtt`;
+  }
+
+  // Absolute URL to download a video's graph in another format
+  getGraphExportUrl(videoId: string, format: GraphExportFormat): string {
+    return `${API_BASE_URL}/api/videos/${videoId}/graph?format=${format}`;
+  }
+
+  // Absolute URL to download the combined concept graph of the whole library
+  getConceptGraphExportUrl(format: GraphExportFormat): string {
+    return `${API_BASE_URL}/api/concepts/graph?format=${format}`;
+  }
+
+  private async request(path: string, init?: RequestInit): Promise<any> {
+    const response = await fetch(`${API_BASE_URL}${path}`, init);
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.details || error.error || `Request failed with status ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+export const videoLibrary = new VideoLibraryService();